@@ -50,6 +50,8 @@ export interface ServiceConfig {
   model?: string;
   verbose: boolean;
   projectDir: string;
+  /** Config file passed on with `--config`. */
+  configPath?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -229,6 +231,9 @@ export class ServiceInstaller {
     const args = ["run", join(this.config.projectDir, "src", "index.ts")];
     args.push("--port", String(this.config.port));
     args.push("--host", this.config.host);
+    if (this.config.configPath) {
+      args.push("--config", this.config.configPath);
+    }
     if (this.config.model) {
       args.push("--model", this.config.model);
     }
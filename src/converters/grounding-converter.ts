@@ -0,0 +1,465 @@
+/**
+ * Gemini grounding → Anthropic server tool blocks.
+ *
+ * When a request carries the Anthropic `web_search` / `web_fetch` server
+ * tools, the Router enables Gemini's `google_search` / `url_context`
+ * tools. Gemini then reports what it did in `candidate.groundingMetadata`
+ * and `candidate.urlContextMetadata`; this module turns that metadata
+ * into the `server_tool_use` + `web_search_tool_result` /
+ * `web_fetch_tool_result` block pairs Claude Code expects, applying the
+ * request's `WebToolPolicy` (domain filters, `max_uses`).
+ *
+ * `groundingSupports` are turned into `web_search_result_location`
+ * citations on the text they support.
+ *
+ * Shared by `ResponseConverter` (whole response) and `StreamConverter`
+ * (metadata accumulated across chunks).
+ */
+
+import type {
+  AnthropicContentBlock,
+  AnthropicServerToolUsage,
+  AnthropicServerToolUseBlock,
+  AnthropicWebFetchToolResultBlock,
+  AnthropicWebSearchResult,
+  AnthropicWebSearchToolResultBlock,
+  AnthropicWebSearchResultLocation,
+} from "../models/anthropic";
+import type {
+  GeminiCandidate,
+  GeminiGroundingChunk,
+  GeminiGroundingMetadata,
+  GeminiGroundingSupport,
+  GeminiUrlContextMetadata,
+} from "../models/gemini";
+import { WebToolPolicy } from "../services/web-tool-policy";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A server tool block emitted in the response. */
+export type ServerToolBlock =
+  | AnthropicServerToolUseBlock
+  | AnthropicWebSearchToolResultBlock
+  | AnthropicWebFetchToolResultBlock;
+
+/** A cited range of the response text, in UTF-16 code unit offsets. */
+interface CitedSpan {
+  start: number;
+  end: number;
+  citations: AnthropicWebSearchResultLocation[];
+}
+
+/** Anthropic caps `cited_text` at 150 characters. */
+const MAX_CITED_TEXT_LENGTH = 150;
+
+/** Server tool blocks derived from a candidate's metadata. */
+export interface ServerToolBlocks {
+  /** Alternating server_tool_use / *_tool_result blocks. */
+  blocks: ServerToolBlock[];
+
+  /** Usage to report in `usage.server_tool_use`, or null if none. */
+  usage: AnthropicServerToolUsage | null;
+}
+
+// ---------------------------------------------------------------------------
+// ID generation
+// ---------------------------------------------------------------------------
+
+/**
+ * Generates a unique ID for a server_tool_use block.
+ * Matches the format Claude uses: `srvtoolu_<alphanumeric>`.
+ */
+export function generateServerToolUseId(): string {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  let result = "srvtoolu_";
+  for (let i = 0; i < 24; i++) {
+    result += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Conversion
+// ---------------------------------------------------------------------------
+
+/**
+ * Converts Gemini grounding chunks into Anthropic web search results,
+ * dropping non-web chunks, duplicate URLs and sources the policy rejects.
+ */
+export function toWebSearchResults(
+  chunks: GeminiGroundingChunk[] | undefined,
+  policy: WebToolPolicy = WebToolPolicy.unrestricted()
+): AnthropicWebSearchResult[] {
+  const results: AnthropicWebSearchResult[] = [];
+  const seen = new Set<string>();
+
+  for (const chunk of chunks ?? []) {
+    const uri = chunk.web?.uri;
+    if (!uri || seen.has(uri)) continue;
+    seen.add(uri);
+
+    if (!isChunkAllowed(chunk, policy)) continue;
+
+    results.push({
+      type: "web_search_result",
+      url: uri,
+      title: chunk.web?.title ?? chunk.web?.domain ?? uri,
+      // Opaque to clients; Gemini exposes no page content to encrypt.
+      encrypted_content: Buffer.from(uri).toString("base64"),
+      page_age: null,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Converts a candidate's grounding and URL context metadata into server
+ * tool blocks: web searches first, then web fetches.
+ *
+ * @param candidate - The candidate (or accumulated stream metadata).
+ * @param policy    - The request's web tool restrictions.
+ */
+export function convertServerToolMetadata(
+  candidate: Pick<GeminiCandidate, "groundingMetadata" | "urlContextMetadata">,
+  policy: WebToolPolicy = WebToolPolicy.unrestricted()
+): ServerToolBlocks {
+  const blocks = [
+    ...convertGroundingMetadata(candidate.groundingMetadata, policy),
+    ...convertUrlContextMetadata(candidate.urlContextMetadata, policy),
+  ];
+
+  const searches = policy.usageOf("web_search");
+  const fetches = policy.usageOf("web_fetch");
+  const usage =
+    searches > 0 || fetches > 0
+      ? { web_search_requests: searches, ...(fetches > 0 ? { web_fetch_requests: fetches } : {}) }
+      : null;
+
+  return { blocks, usage };
+}
+
+/**
+ * Converts grounding metadata into web search block pairs.
+ *
+ * Gemini does not say which query produced which source, so every query
+ * gets its own `server_tool_use` block and the sources are reported
+ * with the first one. Queries beyond `max_uses` get a
+ * `max_uses_exceeded` error result.
+ */
+export function convertGroundingMetadata(
+  metadata: GeminiGroundingMetadata | undefined,
+  policy: WebToolPolicy = WebToolPolicy.unrestricted()
+): ServerToolBlock[] {
+  const queries = metadata?.webSearchQueries?.filter((q) => q.trim()) ?? [];
+  const hasChunks = (metadata?.groundingChunks?.length ?? 0) > 0;
+
+  if (queries.length === 0 && !hasChunks) {
+    return [];
+  }
+
+  const results = toWebSearchResults(metadata?.groundingChunks, policy);
+  const blocks: ServerToolBlock[] = [];
+  let resultsReported = false;
+
+  for (const query of queries.length > 0 ? queries : [""]) {
+    const id = generateServerToolUseId();
+    blocks.push({ type: "server_tool_use", id, name: "web_search", input: { query } });
+
+    if (!policy.tryUse("web_search")) {
+      blocks.push({
+        type: "web_search_tool_result",
+        tool_use_id: id,
+        content: { type: "web_search_tool_result_error", error_code: "max_uses_exceeded" },
+      });
+      continue;
+    }
+
+    blocks.push({
+      type: "web_search_tool_result",
+      tool_use_id: id,
+      content: resultsReported ? [] : results,
+    });
+    resultsReported = true;
+  }
+
+  return blocks;
+}
+
+/**
+ * Converts URL context metadata into web fetch block pairs. Fetches of
+ * URLs outside the allowed domains are reported as `url_not_allowed`,
+ * fetches beyond `max_uses` as `max_uses_exceeded`.
+ */
+export function convertUrlContextMetadata(
+  metadata: GeminiUrlContextMetadata | undefined,
+  policy: WebToolPolicy = WebToolPolicy.unrestricted()
+): ServerToolBlock[] {
+  const blocks: ServerToolBlock[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of metadata?.urlMetadata ?? []) {
+    const url = entry.retrievedUrl;
+    if (!url || seen.has(url)) continue;
+    seen.add(url);
+
+    const id = generateServerToolUseId();
+    blocks.push({ type: "server_tool_use", id, name: "web_fetch", input: { url } });
+
+    const errorCode = !policy.isUrlAllowed("web_fetch", url)
+      ? "url_not_allowed"
+      : !policy.tryUse("web_fetch")
+        ? "max_uses_exceeded"
+        : entry.urlRetrievalStatus &&
+            entry.urlRetrievalStatus !== "URL_RETRIEVAL_STATUS_SUCCESS"
+          ? "url_not_accessible"
+          : null;
+
+    blocks.push({
+      type: "web_fetch_tool_result",
+      tool_use_id: id,
+      content: errorCode
+        ? { type: "web_fetch_tool_result_error", error_code: errorCode }
+        : {
+            type: "web_fetch_result",
+            url,
+            content: {
+              type: "document",
+              // url_context does not expose the page text to callers.
+              source: { type: "text", media_type: "text/plain", data: "" },
+              title: url,
+              citations: { enabled: false },
+            },
+            retrieved_at: new Date().toISOString(),
+          },
+    });
+  }
+
+  return blocks;
+}
+
+// ---------------------------------------------------------------------------
+// Citations
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds the citations of a single grounding support: one
+ * `web_search_result_location` per distinct, policy-allowed source.
+ *
+ * @param support   - The grounding support.
+ * @param metadata  - Grounding metadata holding the referenced chunks.
+ * @param citedText - The supported text (defaults to `segment.text`).
+ */
+export function buildSupportCitations(
+  support: GeminiGroundingSupport,
+  metadata: GeminiGroundingMetadata,
+  policy: WebToolPolicy = WebToolPolicy.unrestricted(),
+  citedText = support.segment?.text ?? ""
+): AnthropicWebSearchResultLocation[] {
+  const citations: AnthropicWebSearchResultLocation[] = [];
+  const seen = new Set<string>();
+
+  for (const index of support.groundingChunkIndices ?? []) {
+    const chunk = metadata.groundingChunks?.[index];
+    const uri = chunk?.web?.uri;
+    if (!chunk || !uri || seen.has(uri) || !isChunkAllowed(chunk, policy)) continue;
+    seen.add(uri);
+
+    citations.push({
+      type: "web_search_result_location",
+      url: uri,
+      title: chunk.web?.title ?? null,
+      encrypted_index: Buffer.from(`${index}:${uri}`).toString("base64"),
+      cited_text: citedText.slice(0, MAX_CITED_TEXT_LENGTH),
+    });
+  }
+
+  return citations;
+}
+
+/**
+ * Splits text blocks at grounding support boundaries and attaches the
+ * supports' citations to the cited pieces.
+ *
+ * Segment offsets are UTF-8 byte offsets into the response text (all
+ * non-thinking text parts concatenated). When they do not line up with
+ * the segment text, the segment is located by searching for its text.
+ *
+ * @param blocks   - Converted content blocks, in response order.
+ * @param metadata - The candidate's grounding metadata.
+ * @returns New blocks; unchanged if there is nothing to cite.
+ */
+export function applyCitations(
+  blocks: AnthropicContentBlock[],
+  metadata: GeminiGroundingMetadata | undefined,
+  policy: WebToolPolicy = WebToolPolicy.unrestricted()
+): AnthropicContentBlock[] {
+  if (!metadata?.groundingSupports?.length) return blocks;
+
+  const fullText = blocks
+    .map((block) => (block.type === "text" ? block.text : ""))
+    .join("");
+  const spans = resolveCitedSpans(fullText, metadata, policy);
+  if (spans.length === 0) return blocks;
+
+  const result: AnthropicContentBlock[] = [];
+  let offset = 0;
+
+  for (const block of blocks) {
+    if (block.type !== "text" || !block.text) {
+      result.push(block);
+      continue;
+    }
+
+    const blockStart = offset;
+    const blockEnd = offset + block.text.length;
+    offset = blockEnd;
+
+    let cursor = blockStart;
+    for (const span of spans) {
+      const start = Math.max(span.start, blockStart);
+      const end = Math.min(span.end, blockEnd);
+      if (start >= end) continue;
+
+      if (start > cursor) {
+        result.push({ type: "text", text: fullText.slice(cursor, start) });
+      }
+      result.push({
+        type: "text",
+        text: fullText.slice(start, end),
+        citations: span.citations,
+      });
+      cursor = end;
+    }
+
+    if (cursor < blockEnd) {
+      result.push({ type: "text", text: fullText.slice(cursor, blockEnd) });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Resolves supports to sorted, non-overlapping character spans.
+ */
+function resolveCitedSpans(
+  fullText: string,
+  metadata: GeminiGroundingMetadata,
+  policy: WebToolPolicy
+): CitedSpan[] {
+  const bytes = new TextEncoder().encode(fullText);
+  const decoder = new TextDecoder();
+  const toCharOffset = (byteOffset: number) =>
+    decoder.decode(bytes.subarray(0, byteOffset)).length;
+
+  const spans: CitedSpan[] = [];
+
+  for (const support of metadata.groundingSupports ?? []) {
+    const segment = support.segment;
+    if (!segment) continue;
+
+    let start = toCharOffset(segment.startIndex ?? 0);
+    let end = toCharOffset(segment.endIndex ?? 0);
+
+    if (segment.text && fullText.slice(start, end) !== segment.text) {
+      const found = fullText.indexOf(segment.text);
+      if (found === -1) continue;
+      start = found;
+      end = found + segment.text.length;
+    }
+    if (start >= end) continue;
+
+    const citations = buildSupportCitations(
+      support,
+      metadata,
+      policy,
+      fullText.slice(start, end)
+    );
+    if (citations.length > 0) {
+      spans.push({ start, end, citations });
+    }
+  }
+
+  spans.sort((a, b) => a.start - b.start);
+  return spans.filter((span, i) => i === 0 || span.start >= spans[i - 1].end);
+}
+
+// ---------------------------------------------------------------------------
+// Stream metadata merging
+// ---------------------------------------------------------------------------
+
+/**
+ * Merges grounding metadata from successive stream chunks. Queries are
+ * deduplicated; chunks are appended and the support indices of `next`
+ * are shifted so they keep pointing at the right chunk.
+ */
+export function mergeGroundingMetadata(
+  target: GeminiGroundingMetadata,
+  next: GeminiGroundingMetadata
+): void {
+  for (const query of next.webSearchQueries ?? []) {
+    target.webSearchQueries ??= [];
+    if (!target.webSearchQueries.includes(query)) {
+      target.webSearchQueries.push(query);
+    }
+  }
+
+  const offset = target.groundingChunks?.length ?? 0;
+  if (next.groundingChunks?.length) {
+    target.groundingChunks = [
+      ...(target.groundingChunks ?? []),
+      ...next.groundingChunks,
+    ];
+  }
+
+  if (next.groundingSupports?.length) {
+    target.groundingSupports = [
+      ...(target.groundingSupports ?? []),
+      ...next.groundingSupports.map((support) => ({
+        ...support,
+        groundingChunkIndices: support.groundingChunkIndices?.map((i) => i + offset),
+      })),
+    ];
+  }
+}
+
+/**
+ * Merges URL context metadata from successive stream chunks, keeping
+ * the latest status reported for each URL.
+ */
+export function mergeUrlContextMetadata(
+  target: GeminiUrlContextMetadata,
+  next: GeminiUrlContextMetadata
+): void {
+  for (const entry of next.urlMetadata ?? []) {
+    target.urlMetadata ??= [];
+    const existing = target.urlMetadata.findIndex(
+      (e) => e.retrievedUrl === entry.retrievedUrl
+    );
+    if (existing === -1) {
+      target.urlMetadata.push(entry);
+    } else {
+      target.urlMetadata[existing] = entry;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Grounding chunk URIs are Google redirect links, so the source domain
+ * comes from `web.domain` (or `web.title`, which Gemini sets to the
+ * domain) and falls back to the URI itself.
+ */
+function isChunkAllowed(chunk: GeminiGroundingChunk, policy: WebToolPolicy): boolean {
+  const domain = chunk.web?.domain ?? chunk.web?.title;
+  if (domain && /^[a-z0-9.-]+\.[a-z]{2,}$/i.test(domain)) {
+    return policy.isDomainAllowed("web_search", domain);
+  }
+  return policy.isUrlAllowed("web_search", chunk.web?.uri ?? "");
+}
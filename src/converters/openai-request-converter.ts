@@ -0,0 +1,422 @@
+/**
+ * OpenAI Chat Completions → Gemini request converter.
+ *
+ * Transforms an OpenAI `POST /v1/chat/completions` request into a Gemini
+ * `generateContent` request, so tools that speak the OpenAI protocol
+ * (Aider, Continue, scripts) share the proxy's model mapping and client:
+ *
+ *   OpenAI client  →  Chat Completions request  →  [this converter]  →  Gemini request
+ *
+ * Key conversion responsibilities:
+ * - system/developer messages → systemInstruction
+ * - user/assistant messages → user/model contents
+ * - assistant `tool_calls` → functionCall parts
+ * - `tool` messages → functionResponse parts (consecutive ones merged)
+ * - tools / tool_choice → functionDeclarations / functionCallingConfig
+ * - reasoning_effort → thinkingConfig
+ */
+
+import type {
+  OpenAIChatCompletionRequest,
+  OpenAIContentPart,
+  OpenAIMessage,
+  OpenAITool,
+  OpenAIToolChoice,
+} from "../models/openai";
+import type {
+  GeminiGenerateContentRequest,
+  GeminiContent,
+  GeminiPart,
+  GeminiTool,
+  GeminiToolConfig,
+  GeminiGenerationConfig,
+  GeminiThinkingConfig,
+  GeminiSafetySetting,
+} from "../models/gemini";
+import {
+  minThinkingBudget,
+  thinkingLevelBudget,
+  type ModelCapabilities,
+} from "../models/config";
+import { RequestConverter, DEFAULT_SAFETY_SETTINGS } from "./request-converter";
+import { ThoughtSignatureService } from "../services/thought-signature";
+import { InvalidRequestError } from "../utils/errors";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Data URL pattern: `data:<mime>;base64,<payload>`. */
+const DATA_URL_REGEX = /^data:([^;,]+);base64,(.*)$/s;
+
+/** Thinking budgets used for `reasoning_effort` on Gemini 2.5 models. */
+const REASONING_EFFORT_BUDGETS: Record<string, number> = {
+  minimal: 0,
+  low: 1024,
+  medium: 8192,
+  high: 24576,
+};
+
+// ---------------------------------------------------------------------------
+// OpenAIRequestConverter
+// ---------------------------------------------------------------------------
+
+/**
+ * Converts OpenAI Chat Completions requests into Gemini generateContent
+ * request format.
+ *
+ * OpenAI clients never echo Gemini thought signatures back, so replayed
+ * tool calls on Gemini 3 models receive the dummy signature via the
+ * injected `ThoughtSignatureService`.
+ */
+export class OpenAIRequestConverter {
+  private readonly thoughtSignatures: ThoughtSignatureService;
+  private readonly safetySettings: GeminiSafetySetting[];
+
+  /** tool_call_id → function name, built from assistant messages. */
+  private readonly toolNameMap = new Map<string, string>();
+
+  constructor(
+    thoughtSignatures: ThoughtSignatureService,
+    safetySettings: GeminiSafetySetting[] = DEFAULT_SAFETY_SETTINGS
+  ) {
+    this.thoughtSignatures = thoughtSignatures;
+    this.safetySettings = safetySettings;
+  }
+
+  /**
+   * Performs the full conversion from OpenAI to Gemini request format.
+   *
+   * @param request      - The incoming Chat Completions request body.
+   * @param capabilities - Resolved model capabilities.
+   * @returns A ready-to-send Gemini request body.
+   * @throws {InvalidRequestError} For unsupported request options.
+   */
+  convert(
+    request: OpenAIChatCompletionRequest,
+    capabilities: ModelCapabilities
+  ): GeminiGenerateContentRequest {
+    if (request.n !== undefined && request.n > 1) {
+      throw new InvalidRequestError("'n' greater than 1 is not supported.");
+    }
+
+    this.buildToolNameMap(request.messages);
+
+    const systemParts: GeminiPart[] = [];
+    const contents: GeminiContent[] = [];
+
+    for (const message of request.messages) {
+      switch (message.role) {
+        case "system":
+        case "developer":
+          systemParts.push(...this.convertContent(message.content));
+          break;
+
+        case "user":
+          contents.push({
+            role: "user",
+            parts: this.ensureParts(this.convertContent(message.content)),
+          });
+          break;
+
+        case "assistant":
+          contents.push({
+            role: "model",
+            parts: this.ensureParts(this.convertAssistant(message)),
+          });
+          break;
+
+        case "tool":
+          this.appendToolResponse(contents, message);
+          break;
+
+        default:
+          throw new InvalidRequestError(
+            `Unsupported message role: ${(message as { role: string }).role}`
+          );
+      }
+    }
+
+    if (capabilities.isGemini3) {
+      this.thoughtSignatures.ensureSignatures(contents, true);
+    }
+
+    const geminiRequest: GeminiGenerateContentRequest = { contents };
+
+    if (systemParts.length > 0) {
+      geminiRequest.systemInstruction = { role: "user", parts: systemParts };
+    }
+
+    if (request.tools && request.tools.length > 0) {
+      geminiRequest.tools = this.convertTools(request.tools);
+    }
+
+    if (request.tool_choice) {
+      geminiRequest.toolConfig = this.convertToolChoice(request.tool_choice);
+    }
+
+    geminiRequest.generationConfig = this.buildGenerationConfig(
+      request,
+      capabilities
+    );
+    geminiRequest.safetySettings = this.safetySettings;
+
+    return geminiRequest;
+  }
+
+  /**
+   * Re-targets an already converted request at a different model (used
+   * when falling back to the next model of a chain): the generation
+   * config is rebuilt for the new capabilities, and thought signatures
+   * are added if the new model is a Gemini 3 model.
+   *
+   * @param geminiRequest - The request as converted for the original model.
+   * @param request       - The original Chat Completions request body.
+   * @param capabilities  - Capabilities of the model to send it to.
+   * @returns A shallow copy with the adapted generation config.
+   */
+  adaptForModel(
+    geminiRequest: GeminiGenerateContentRequest,
+    request: OpenAIChatCompletionRequest,
+    capabilities: ModelCapabilities
+  ): GeminiGenerateContentRequest {
+    if (capabilities.isGemini3) {
+      this.thoughtSignatures.ensureSignatures(geminiRequest.contents, true);
+    }
+
+    return {
+      ...geminiRequest,
+      generationConfig: this.buildGenerationConfig(request, capabilities),
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Messages → Contents
+  // -------------------------------------------------------------------------
+
+  /**
+   * Converts message content (string or content parts) into Gemini parts.
+   */
+  private convertContent(
+    content: string | OpenAIContentPart[] | null | undefined
+  ): GeminiPart[] {
+    if (content === null || content === undefined) return [];
+    if (typeof content === "string") {
+      return content ? [{ text: content }] : [];
+    }
+
+    const parts: GeminiPart[] = [];
+    for (const part of content) {
+      if (part.type === "text") {
+        parts.push({ text: part.text });
+      } else if (part.type === "image_url") {
+        parts.push(this.convertImageUrl(part.image_url.url));
+      }
+    }
+    return parts;
+  }
+
+  /**
+   * Converts an `image_url` to a Gemini part. Data URLs become inline
+   * data; remote URLs are passed as a text reference.
+   */
+  private convertImageUrl(url: string): GeminiPart {
+    const match = url.match(DATA_URL_REGEX);
+    if (match) {
+      return { inlineData: { mimeType: match[1], data: match[2] } };
+    }
+    return { text: `[Image: ${url}]` };
+  }
+
+  /**
+   * Converts an assistant message (text + tool_calls) into model parts.
+   */
+  private convertAssistant(message: OpenAIMessage): GeminiPart[] {
+    const parts = this.convertContent(message.content);
+
+    for (const call of message.tool_calls ?? []) {
+      parts.push({
+        functionCall: {
+          name: call.function.name,
+          args: this.parseArguments(call.function.arguments, call.id),
+        },
+      });
+    }
+
+    return parts;
+  }
+
+  /**
+   * Appends a `tool` message as a functionResponse part. Consecutive tool
+   * messages (parallel calls) are merged into a single user content, as
+   * Gemini expects all responses of a step together.
+   */
+  private appendToolResponse(contents: GeminiContent[], message: OpenAIMessage): void {
+    const callId = message.tool_call_id ?? "";
+    const text = this.convertContent(message.content)
+      .filter((p): p is { text: string } => "text" in p)
+      .map((p) => p.text)
+      .join("\n");
+
+    const part: GeminiPart = {
+      functionResponse: {
+        name: this.toolNameMap.get(callId) ?? message.name ?? callId,
+        response: { result: text },
+      },
+    };
+
+    const last = contents[contents.length - 1];
+    if (last && last.role === "user" && last.parts.every((p) => "functionResponse" in p)) {
+      last.parts.push(part);
+    } else {
+      contents.push({ role: "user", parts: [part] });
+    }
+  }
+
+  /**
+   * Pre-scans assistant tool_calls to build a tool_call_id → name mapping.
+   */
+  private buildToolNameMap(messages: OpenAIMessage[]): void {
+    this.toolNameMap.clear();
+    for (const message of messages) {
+      for (const call of message.tool_calls ?? []) {
+        this.toolNameMap.set(call.id, call.function.name);
+      }
+    }
+  }
+
+  /**
+   * Parses JSON-encoded tool call arguments.
+   */
+  private parseArguments(args: string, callId: string): Record<string, unknown> {
+    if (!args) return {};
+    try {
+      const parsed = JSON.parse(args);
+      return parsed && typeof parsed === "object" ? parsed : {};
+    } catch {
+      throw new InvalidRequestError(
+        `tool_calls[${callId}].function.arguments is not valid JSON.`
+      );
+    }
+  }
+
+  /**
+   * Gemini rejects contents with no parts; keep an empty text part instead.
+   */
+  private ensureParts(parts: GeminiPart[]): GeminiPart[] {
+    return parts.length > 0 ? parts : [{ text: "" }];
+  }
+
+  // -------------------------------------------------------------------------
+  // Tools
+  // -------------------------------------------------------------------------
+
+  /**
+   * Converts OpenAI function tools to Gemini function declarations.
+   */
+  private convertTools(tools: OpenAITool[]): GeminiTool[] {
+    return [
+      {
+        functionDeclarations: tools
+          .filter((tool) => tool.type === "function")
+          .map((tool) => ({
+            name: tool.function.name,
+            description: tool.function.description,
+            ...(tool.function.parameters
+              ? { parameters: RequestConverter.sanitizeSchema(tool.function.parameters) }
+              : {}),
+          })),
+      },
+    ];
+  }
+
+  /**
+   * Converts OpenAI tool_choice to Gemini functionCallingConfig.
+   */
+  private convertToolChoice(choice: OpenAIToolChoice): GeminiToolConfig {
+    if (typeof choice === "object") {
+      return {
+        functionCallingConfig: {
+          mode: "ANY",
+          allowedFunctionNames: [choice.function.name],
+        },
+      };
+    }
+
+    const modes = { none: "NONE", auto: "AUTO", required: "ANY" } as const;
+    return { functionCallingConfig: { mode: modes[choice] ?? "AUTO" } };
+  }
+
+  // -------------------------------------------------------------------------
+  // Generation Config
+  // -------------------------------------------------------------------------
+
+  /**
+   * Builds the Gemini generationConfig from OpenAI request parameters.
+   */
+  private buildGenerationConfig(
+    request: OpenAIChatCompletionRequest,
+    capabilities: ModelCapabilities
+  ): GeminiGenerationConfig {
+    const config: GeminiGenerationConfig = {};
+
+    if (request.temperature !== undefined) {
+      config.temperature = request.temperature;
+    }
+    if (request.top_p !== undefined) {
+      config.topP = request.top_p;
+    }
+
+    const maxTokens = request.max_completion_tokens ?? request.max_tokens;
+    if (maxTokens !== undefined) {
+      config.maxOutputTokens = Math.min(maxTokens, capabilities.maxOutputTokens);
+    }
+
+    if (request.stop !== undefined) {
+      config.stopSequences = Array.isArray(request.stop) ? request.stop : [request.stop];
+    }
+
+    if (request.response_format?.type === "json_object") {
+      config.responseMimeType = "application/json";
+    } else if (request.response_format?.type === "json_schema") {
+      config.responseMimeType = "application/json";
+      const schema = request.response_format.json_schema?.schema;
+      if (schema) {
+        config.responseSchema = RequestConverter.sanitizeSchema(schema);
+      }
+    }
+
+    config.thinkingConfig = this.buildThinkingConfig(
+      request.reasoning_effort,
+      capabilities
+    );
+
+    return config;
+  }
+
+  /**
+   * Maps `reasoning_effort` to a Gemini thinking config. OpenAI responses
+   * have no place for thoughts, so they are never included.
+   */
+  private buildThinkingConfig(
+    effort: OpenAIChatCompletionRequest["reasoning_effort"],
+    capabilities: ModelCapabilities
+  ): GeminiThinkingConfig {
+    const config: GeminiThinkingConfig = { includeThoughts: false };
+
+    if (capabilities.isGemini3) {
+      config.thinkingLevel = effort
+        ? (effort.toUpperCase() as GeminiThinkingConfig["thinkingLevel"])
+        : capabilities.defaultThinkingLevel ?? "HIGH";
+    } else if (capabilities.supportsThinking && effort) {
+      config.thinkingBudget = Math.max(
+        REASONING_EFFORT_BUDGETS[effort],
+        minThinkingBudget(capabilities)
+      );
+    } else if (capabilities.supportsThinking && capabilities.defaultThinkingLevel) {
+      config.thinkingBudget = thinkingLevelBudget(capabilities.defaultThinkingLevel, capabilities);
+    }
+
+    return config;
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Gemini → OpenAI Chat Completions response converter.
+ *
+ * Transforms a Gemini `GenerateContentResponse` into an OpenAI
+ * `chat.completion` object:
+ *
+ *   Gemini response  →  [this converter]  →  Chat Completion  →  OpenAI client
+ *
+ * Thinking parts are dropped (the Chat Completions schema has no place
+ * for them); function calls become `tool_calls` with JSON-encoded args.
+ */
+
+import type {
+  OpenAIChatCompletion,
+  OpenAIFinishReason,
+  OpenAIToolCall,
+  OpenAIUsage,
+} from "../models/openai";
+import type {
+  GeminiGenerateContentResponse,
+  GeminiFinishReason,
+  GeminiUsageMetadata,
+} from "../models/gemini";
+
+// ---------------------------------------------------------------------------
+// ID generation
+// ---------------------------------------------------------------------------
+
+/**
+ * Generates a random alphanumeric suffix for OpenAI-style identifiers.
+ */
+function randomId(prefix: string, length: number): string {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  let result = prefix;
+  for (let i = 0; i < length; i++) {
+    result += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return result;
+}
+
+/** Generates a completion ID: `chatcmpl-<alphanumeric>`. */
+export function generateCompletionId(): string {
+  return randomId("chatcmpl-", 29);
+}
+
+/** Generates a tool call ID: `call_<alphanumeric>`. */
+export function generateToolCallId(): string {
+  return randomId("call_", 24);
+}
+
+// ---------------------------------------------------------------------------
+// Shared mapping helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Maps a Gemini finish reason to an OpenAI finish reason.
+ */
+export function toOpenAIFinishReason(
+  reason: GeminiFinishReason | undefined,
+  hasToolCalls: boolean
+): OpenAIFinishReason {
+  if (hasToolCalls) return "tool_calls";
+
+  switch (reason) {
+    case "MAX_TOKENS":
+      return "length";
+    case "SAFETY":
+    case "RECITATION":
+    case "PROHIBITED_CONTENT":
+    case "BLOCKLIST":
+    case "SPII":
+    case "IMAGE_SAFETY":
+      return "content_filter";
+    default:
+      return "stop";
+  }
+}
+
+/**
+ * Maps Gemini usage metadata to OpenAI usage.
+ */
+export function toOpenAIUsage(meta: GeminiUsageMetadata | undefined): OpenAIUsage {
+  const promptTokens = meta?.promptTokenCount ?? 0;
+  const completionTokens =
+    (meta?.candidatesTokenCount ?? 0) + (meta?.thoughtsTokenCount ?? 0);
+
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// OpenAIResponseConverter
+// ---------------------------------------------------------------------------
+
+/**
+ * Converts Gemini `GenerateContentResponse` objects into OpenAI
+ * `chat.completion` format.
+ */
+export class OpenAIResponseConverter {
+  private readonly modelName: string;
+
+  constructor(modelName: string) {
+    this.modelName = modelName;
+  }
+
+  /**
+   * Converts a complete (non-streaming) Gemini response to OpenAI format.
+   *
+   * @param response - The Gemini response.
+   * @returns The equivalent Chat Completion.
+   */
+  convert(response: GeminiGenerateContentResponse): OpenAIChatCompletion {
+    const candidate = response.candidates?.[0];
+    const textSegments: string[] = [];
+    const toolCalls: OpenAIToolCall[] = [];
+
+    for (const part of candidate?.content?.parts ?? []) {
+      if ("text" in part) {
+        if (!part.thought && part.text) {
+          textSegments.push(part.text);
+        }
+      } else if ("functionCall" in part) {
+        toolCalls.push({
+          id: generateToolCallId(),
+          type: "function",
+          function: {
+            name: part.functionCall.name,
+            arguments: JSON.stringify(part.functionCall.args ?? {}),
+          },
+        });
+      }
+    }
+
+    const text = textSegments.join("");
+
+    return {
+      id: generateCompletionId(),
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model: this.modelName,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: text || (toolCalls.length > 0 ? null : ""),
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+          },
+          finish_reason: toOpenAIFinishReason(
+            candidate?.finishReason,
+            toolCalls.length > 0
+          ),
+        },
+      ],
+      usage: toOpenAIUsage(response.usageMetadata),
+    };
+  }
+}
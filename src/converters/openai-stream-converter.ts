@@ -0,0 +1,284 @@
+/**
+ * Gemini Streaming → OpenAI Chat Completions stream converter.
+ *
+ * Transforms the Gemini `streamGenerateContent?alt=sse` response stream
+ * into OpenAI `chat.completion.chunk` Server-Sent Events:
+ *
+ *   data: {"choices":[{"delta":{"role":"assistant"}}]}
+ *   data: {"choices":[{"delta":{"content":"..."}}]}
+ *   data: {"choices":[{"delta":{"tool_calls":[...]}}]}
+ *   data: {"choices":[{"delta":{},"finish_reason":"stop"}]}
+ *   data: [DONE]
+ *
+ * Thinking parts are dropped. Gemini delivers function calls as complete
+ * parts, so each tool call is emitted as a single delta carrying its id,
+ * name and full JSON arguments.
+ */
+
+import type {
+  OpenAIChatCompletionChunk,
+  OpenAIUsage,
+} from "../models/openai";
+import type {
+  GeminiGenerateContentResponse,
+  GeminiFinishReason,
+  GeminiPart,
+} from "../models/gemini";
+import {
+  generateCompletionId,
+  generateToolCallId,
+  toOpenAIFinishReason,
+  toOpenAIUsage,
+} from "./openai-response-converter";
+import { GeminiSseStreamParser } from "./stream-parser";
+
+// ---------------------------------------------------------------------------
+// OpenAIStreamConverter
+// ---------------------------------------------------------------------------
+
+/**
+ * Converts a Gemini streaming response into OpenAI chunk events.
+ *
+ * Usage:
+ * ```ts
+ * const converter = new OpenAIStreamConverter("model-name", true);
+ * const stream = converter.convertStream(geminiResponse);
+ * ```
+ */
+export class OpenAIStreamConverter {
+  private readonly modelName: string;
+  private readonly includeUsage: boolean;
+  private readonly completionId: string;
+  private readonly created: number;
+
+  /** Whether the initial role delta has been emitted. */
+  private roleEmitted = false;
+
+  /** Number of tool calls emitted so far (used as the delta index). */
+  private toolCallCount = 0;
+
+  /** Last finish reason reported by Gemini. */
+  private finishReason: GeminiFinishReason | undefined;
+
+  /** Latest usage reported by Gemini. */
+  private usage: OpenAIUsage = toOpenAIUsage(undefined);
+
+  /**
+   * @param modelName    - Model name echoed back to the client.
+   * @param includeUsage - Emit a trailing usage chunk
+   *                       (`stream_options.include_usage`).
+   */
+  constructor(modelName: string, includeUsage = false) {
+    this.modelName = modelName;
+    this.includeUsage = includeUsage;
+    this.completionId = generateCompletionId();
+    this.created = Math.floor(Date.now() / 1000);
+  }
+
+  /**
+   * Converts a Gemini streaming HTTP response into an OpenAI SSE stream.
+   * When the client goes away (the returned stream is cancelled or
+   * `signal` aborts), the upstream read is cancelled too.
+   *
+   * @param geminiResponse - The raw fetch Response from Gemini's
+   *                         streamGenerateContent endpoint.
+   * @param signal         - Aborted when the client disconnects.
+   * @returns A ReadableStream of SSE-formatted Uint8Array chunks.
+   */
+  convertStream(geminiResponse: Response, signal?: AbortSignal): ReadableStream<Uint8Array> {
+    const reader = geminiResponse.body!.getReader();
+    const decoder = new TextDecoder();
+    const encoder = new TextEncoder();
+    let parser: GeminiSseStreamParser;
+
+    // eslint-disable-next-line @typescript-eslint/no-this-alias
+    const self = this;
+
+    const cancelled = () => {
+      reader.cancel().catch(() => {});
+    };
+
+    return new ReadableStream({
+      start(controller) {
+        parser = new GeminiSseStreamParser((chunk) =>
+          self.processChunk(chunk, controller, encoder)
+        );
+        signal?.addEventListener("abort", cancelled, { once: true });
+      },
+
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read();
+
+          if (done) {
+            parser.push(decoder.decode());
+            parser.end();
+            self.emitEnd(controller, encoder);
+            controller.close();
+            return;
+          }
+
+          parser.push(decoder.decode(value, { stream: true }));
+        } catch (error) {
+          // Reads fail once the fetch is aborted; nobody is listening anymore
+          if (signal?.aborted) return;
+
+          const payload = {
+            error: {
+              message: error instanceof Error ? error.message : String(error),
+              type: "api_error",
+              code: null,
+            },
+          };
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+          controller.close();
+        }
+      },
+
+      cancel() {
+        cancelled();
+      },
+    });
+  }
+
+  // -------------------------------------------------------------------------
+  // Chunk processing
+  // -------------------------------------------------------------------------
+
+  /**
+   * Processes a single Gemini response chunk and emits OpenAI chunks.
+   */
+  private processChunk(
+    chunk: GeminiGenerateContentResponse,
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    encoder: TextEncoder
+  ): void {
+    this.ensureRole(controller, encoder);
+
+    if (chunk.usageMetadata) {
+      this.usage = toOpenAIUsage(chunk.usageMetadata);
+    }
+
+    const candidate = chunk.candidates?.[0];
+    if (candidate?.finishReason) {
+      this.finishReason = candidate.finishReason;
+    }
+
+    for (const part of candidate?.content?.parts ?? []) {
+      this.processPart(part, controller, encoder);
+    }
+  }
+
+  /**
+   * Emits the delta for a single Gemini part.
+   */
+  private processPart(
+    part: GeminiPart,
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    encoder: TextEncoder
+  ): void {
+    if ("text" in part) {
+      if (part.thought || !part.text) return;
+      this.emitDelta(controller, encoder, { content: part.text });
+    } else if ("functionCall" in part) {
+      this.emitDelta(controller, encoder, {
+        tool_calls: [
+          {
+            index: this.toolCallCount++,
+            id: generateToolCallId(),
+            type: "function",
+            function: {
+              name: part.functionCall.name,
+              arguments: JSON.stringify(part.functionCall.args ?? {}),
+            },
+          },
+        ],
+      });
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Emission helpers
+  // -------------------------------------------------------------------------
+
+  /**
+   * Emits the initial `role: assistant` delta once.
+   */
+  private ensureRole(
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    encoder: TextEncoder
+  ): void {
+    if (this.roleEmitted) return;
+    this.roleEmitted = true;
+    this.emitDelta(controller, encoder, { role: "assistant", content: "" });
+  }
+
+  /**
+   * Emits the final finish_reason chunk, the optional usage chunk and
+   * the `[DONE]` sentinel.
+   */
+  private emitEnd(
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    encoder: TextEncoder
+  ): void {
+    this.ensureRole(controller, encoder);
+
+    this.emitChunk(controller, encoder, {
+      ...this.chunkBase(),
+      choices: [
+        {
+          index: 0,
+          delta: {},
+          finish_reason: toOpenAIFinishReason(
+            this.finishReason,
+            this.toolCallCount > 0
+          ),
+        },
+      ],
+    });
+
+    if (this.includeUsage) {
+      this.emitChunk(controller, encoder, {
+        ...this.chunkBase(),
+        choices: [],
+        usage: this.usage,
+      });
+    }
+
+    controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+  }
+
+  /**
+   * Emits a content delta chunk.
+   */
+  private emitDelta(
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    encoder: TextEncoder,
+    delta: OpenAIChatCompletionChunk["choices"][number]["delta"]
+  ): void {
+    this.emitChunk(controller, encoder, {
+      ...this.chunkBase(),
+      choices: [{ index: 0, delta, finish_reason: null }],
+    });
+  }
+
+  private emitChunk(
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    encoder: TextEncoder,
+    chunk: OpenAIChatCompletionChunk
+  ): void {
+    if (this.includeUsage && chunk.usage === undefined) {
+      chunk.usage = null;
+    }
+    controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+  }
+
+  private chunkBase(): Omit<OpenAIChatCompletionChunk, "choices"> {
+    return {
+      id: this.completionId,
+      object: "chat.completion.chunk",
+      created: this.created,
+      model: this.modelName,
+    };
+  }
+}
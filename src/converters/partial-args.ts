@@ -0,0 +1,206 @@
+/**
+ * Streamed function-call arguments → incremental JSON text.
+ *
+ * With `streamFunctionCallArguments`, Gemini sends a call's arguments as
+ * a sequence of `partialArgs`, each setting one leaf value at a JSONPath
+ * (`$.file_path`, `$.edits[0].new_string`); long strings arrive in
+ * several chunks. Anthropic clients instead expect the arguments as
+ * JSON text split over `input_json_delta` events.
+ *
+ * `PartialArgsWriter` turns the former into the latter: it keeps track
+ * of the objects and arrays opened so far and, for each partial arg,
+ * returns the JSON text to append. Gemini emits leaves in document
+ * order, so each container is opened and closed exactly once.
+ */
+
+import type { GeminiPartialArg } from "../models/gemini";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One step of a JSONPath: an object key or an array index. */
+type PathSegment = string | number;
+
+/** An object or array whose members are being written. */
+interface Container {
+  kind: "object" | "array";
+
+  /** The segment leading to this container from its parent (none for the root). */
+  segment: PathSegment | null;
+
+  /** Number of members written so far. */
+  count: number;
+}
+
+// ---------------------------------------------------------------------------
+// PartialArgsWriter
+// ---------------------------------------------------------------------------
+
+/**
+ * Serialises one streamed function call's partial args as JSON text.
+ *
+ * @example
+ * ```ts
+ * const writer = new PartialArgsWriter();
+ * writer.write({ jsonPath: "$.path", stringValue: "src/", willContinue: true }); // '{"path":"src/'
+ * writer.write({ jsonPath: "$.path", stringValue: "a.ts" });                   // 'a.ts"'
+ * writer.finish();                                                             // '}'
+ * ```
+ */
+export class PartialArgsWriter {
+  /** Open containers, outermost (the arguments object) first. */
+  private readonly stack: Container[] = [];
+
+  /** Path of the string value still being written, if any. */
+  private openString: string | null = null;
+
+  /** Whether any JSON text has been returned yet. */
+  get started(): boolean {
+    return this.stack.length > 0;
+  }
+
+  /**
+   * Returns the JSON text that adds a partial arg to the arguments.
+   *
+   * @throws {SyntaxError} If the JSONPath cannot be parsed.
+   */
+  write(arg: GeminiPartialArg): string {
+    const segments = parseJsonPath(arg.jsonPath);
+    let out = "";
+
+    // Another chunk of the string being written
+    if (this.openString !== null && this.openString === arg.jsonPath) {
+      out += escapeJsonString(arg.stringValue ?? "");
+      if (!arg.willContinue) {
+        out += '"';
+        this.openString = null;
+      }
+      return out;
+    }
+
+    out += this.closeString();
+    if (!this.started) {
+      out += "{";
+      this.stack.push({ kind: "object", segment: null, count: 0 });
+    }
+    if (segments.length === 0) return out;
+
+    // Close containers that are not on the new path, open the missing ones
+    const parents = segments.slice(0, -1);
+    let shared = 0;
+    while (
+      shared < parents.length &&
+      shared + 1 < this.stack.length &&
+      this.stack[shared + 1].segment === parents[shared]
+    ) {
+      shared++;
+    }
+    while (this.stack.length > shared + 1) {
+      out += this.closeContainer();
+    }
+    for (let i = shared; i < parents.length; i++) {
+      out += this.member(parents[i]);
+      const kind = typeof segments[i + 1] === "number" ? "array" : "object";
+      out += kind === "array" ? "[" : "{";
+      this.stack.push({ kind, segment: parents[i], count: 0 });
+    }
+
+    out += this.member(segments[segments.length - 1]);
+    if (arg.stringValue !== undefined) {
+      out += `"${escapeJsonString(arg.stringValue)}`;
+      if (arg.willContinue) {
+        this.openString = arg.jsonPath;
+      } else {
+        out += '"';
+      }
+    } else if (arg.numberValue !== undefined) {
+      out += JSON.stringify(arg.numberValue);
+    } else if (arg.boolValue !== undefined) {
+      out += JSON.stringify(arg.boolValue);
+    } else {
+      out += "null";
+    }
+    return out;
+  }
+
+  /**
+   * Returns the JSON text that completes the arguments (`"{}"` if no
+   * partial arg was written).
+   */
+  finish(): string {
+    let out = this.closeString();
+    if (!this.started) return "{}";
+    while (this.stack.length > 0) {
+      out += this.closeContainer();
+    }
+    return out;
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  /** Writes the separator and key (or array padding) before a member. */
+  private member(segment: PathSegment): string {
+    const container = this.stack[this.stack.length - 1];
+    let out = "";
+
+    if (container.kind === "array") {
+      // Indices are sequential; fill any gap so positions are kept
+      const index = typeof segment === "number" ? segment : container.count;
+      while (container.count < index) {
+        out += container.count > 0 ? ",null" : "null";
+        container.count++;
+      }
+      out += container.count > 0 ? "," : "";
+    } else {
+      out += container.count > 0 ? "," : "";
+      out += `${JSON.stringify(String(segment))}:`;
+    }
+
+    container.count++;
+    return out;
+  }
+
+  private closeContainer(): string {
+    return this.stack.pop()!.kind === "array" ? "]" : "}";
+  }
+
+  private closeString(): string {
+    if (this.openString === null) return "";
+    this.openString = null;
+    return '"';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses a JSONPath of keys and indices: `$.a.b`, `$.a[0]`, `$['a b']`.
+ *
+ * @throws {SyntaxError} If the path uses anything else.
+ */
+export function parseJsonPath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  const pattern = /\.([^.[\]]+)|\[(\d+)\]|\['((?:[^'\\]|\\.)*)'\]|\["((?:[^"\\]|\\.)*)"\]/y;
+
+  if (!path.startsWith("$")) throw new SyntaxError(`Unsupported JSONPath: ${path}`);
+  pattern.lastIndex = 1;
+  while (pattern.lastIndex < path.length) {
+    const match = pattern.exec(path);
+    if (!match) throw new SyntaxError(`Unsupported JSONPath: ${path}`);
+
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else segments.push((match[3] ?? match[4]).replace(/\\(.)/g, "$1"));
+  }
+  return segments;
+}
+
+/** Escapes a string for use between JSON double quotes. */
+function escapeJsonString(value: string): string {
+  return JSON.stringify(value).slice(1, -1);
+}
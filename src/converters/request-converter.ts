@@ -22,10 +22,12 @@ import type {
   AnthropicToolResultBlockParam,
   AnthropicTextBlockParam,
   AnthropicImageBlockParam,
+  AnthropicDocumentBlockParam,
   AnthropicToolUseBlock,
   AnthropicTool,
   AnthropicToolChoice,
   AnthropicThinkingConfig,
+  AnthropicCacheControl,
 } from "../models/anthropic";
 import type {
   GeminiGenerateContentRequest,
@@ -37,12 +39,31 @@ import type {
   GeminiGenerationConfig,
   GeminiThinkingConfig,
   GeminiThinkingLevel,
+  GeminiSafetySetting,
 } from "../models/gemini";
-import type { ModelCapabilities } from "../models/config";
+import {
+  minThinkingBudget,
+  thinkingLevelBudget,
+  type ModelCapabilities,
+} from "../models/config";
 import {
   ThoughtSignatureService,
   DUMMY_THOUGHT_SIGNATURE,
 } from "../services/thought-signature";
+import type { CacheBreakpoint } from "../services/context-cache";
+import { MAX_UPSTREAM_STOP_SEQUENCES } from "./stop-sequences";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Default safety settings — all filters off for coding use. */
+export const DEFAULT_SAFETY_SETTINGS: GeminiSafetySetting[] = [
+  { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_NONE" },
+  { category: "HARM_CATEGORY_HATE_SPEECH", threshold: "BLOCK_NONE" },
+  { category: "HARM_CATEGORY_SEXUALLY_EXPLICIT", threshold: "BLOCK_NONE" },
+  { category: "HARM_CATEGORY_DANGEROUS_CONTENT", threshold: "BLOCK_NONE" },
+];
 
 // ---------------------------------------------------------------------------
 // RequestConverter
@@ -57,9 +78,17 @@ import {
  */
 export class RequestConverter {
   private readonly thoughtSignatures: ThoughtSignatureService;
+  private readonly safetySettings: GeminiSafetySetting[];
 
-  constructor(thoughtSignatures: ThoughtSignatureService) {
+  /** Number of Gemini contents after each converted message. */
+  private contentEnds: number[] = [];
+
+  constructor(
+    thoughtSignatures: ThoughtSignatureService,
+    safetySettings: GeminiSafetySetting[] = DEFAULT_SAFETY_SETTINGS
+  ) {
     this.thoughtSignatures = thoughtSignatures;
+    this.safetySettings = safetySettings;
   }
 
   /**
@@ -94,6 +123,10 @@ export class RequestConverter {
         request.tools
       );
     }
+    const toolConfig = this.withArgumentStreaming(geminiRequest, request, capabilities);
+    if (toolConfig) {
+      geminiRequest.toolConfig = toolConfig;
+    }
 
     // Generation config
     geminiRequest.generationConfig = this.buildGenerationConfig(
@@ -101,17 +134,69 @@ export class RequestConverter {
       capabilities
     );
 
-    // Safety settings - disable all filters for coding use
-    geminiRequest.safetySettings = [
-      { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_NONE" },
-      { category: "HARM_CATEGORY_HATE_SPEECH", threshold: "BLOCK_NONE" },
-      { category: "HARM_CATEGORY_SEXUALLY_EXPLICIT", threshold: "BLOCK_NONE" },
-      { category: "HARM_CATEGORY_DANGEROUS_CONTENT", threshold: "BLOCK_NONE" },
-    ];
+    // Safety settings - all filters off unless configured otherwise
+    geminiRequest.safetySettings = this.safetySettings;
 
     return geminiRequest;
   }
 
+  /**
+   * Re-targets an already converted request at a different model (used
+   * when falling back to the next model of a chain): the generation
+   * config is rebuilt for the new capabilities, and thought signatures
+   * are added if the new model is a Gemini 3 model.
+   *
+   * @param geminiRequest - The request as converted for the original model.
+   * @param request       - The original Anthropic request body.
+   * @param capabilities  - Capabilities of the model to send it to.
+   * @returns A shallow copy with the adapted generation config.
+   */
+  adaptForModel(
+    geminiRequest: GeminiGenerateContentRequest,
+    request: AnthropicMessagesRequest,
+    capabilities: ModelCapabilities
+  ): GeminiGenerateContentRequest {
+    if (capabilities.isGemini3) {
+      this.thoughtSignatures.ensureSignatures(geminiRequest.contents, true);
+    }
+
+    return {
+      ...geminiRequest,
+      toolConfig: this.withArgumentStreaming(geminiRequest, request, capabilities),
+      generationConfig: this.buildGenerationConfig(request, capabilities),
+    };
+  }
+
+  /**
+   * Locates the request's `cache_control` markers in the converted
+   * contents, in prefix order (tools, system, messages). Markers on tools
+   * and the system prompt cover no contents; a marker in a message covers
+   * every content up to and including that message's.
+   *
+   * Must be called after `convert()` for the same request.
+   */
+  cacheBreakpoints(request: AnthropicMessagesRequest): CacheBreakpoint[] {
+    const breakpoints: CacheBreakpoint[] = [];
+    const add = (cacheControl: AnthropicCacheControl | undefined, contentCount: number) => {
+      if (cacheControl) breakpoints.push({ contentCount, ttl: cacheControl.ttl ?? "5m" });
+    };
+
+    for (const tool of request.tools ?? []) add(tool.cache_control, 0);
+    if (Array.isArray(request.system)) {
+      for (const block of request.system) add(block.cache_control, 0);
+    }
+
+    request.messages.forEach((message, i) => {
+      if (typeof message.content === "string") return;
+      const marked = message.content.findLast(
+        (block) => (block as { cache_control?: AnthropicCacheControl }).cache_control
+      ) as { cache_control?: AnthropicCacheControl } | undefined;
+      add(marked?.cache_control, this.contentEnds[i] ?? 0);
+    });
+
+    return breakpoints;
+  }
+
   // -------------------------------------------------------------------------
   // Messages → Contents
   // -------------------------------------------------------------------------
@@ -121,7 +206,7 @@ export class RequestConverter {
    *
    * Handles:
    * - Simple string content → text part
-   * - Content block arrays (text, image, tool_use, tool_result)
+   * - Content block arrays (text, image, document, tool_use, tool_result)
    * - Role mapping (user/assistant → user/model)
    * - Tool result messages → functionResponse parts with user role
    * - Thought signature injection for replayed assistant messages
@@ -131,10 +216,12 @@ export class RequestConverter {
     capabilities: ModelCapabilities
   ): GeminiContent[] {
     const contents: GeminiContent[] = [];
+    this.contentEnds = [];
 
     for (const message of messages) {
       const converted = this.convertSingleMessage(message, capabilities);
       contents.push(...converted);
+      this.contentEnds.push(contents.length);
     }
 
     // Ensure thought signatures on function call parts
@@ -178,6 +265,12 @@ export class RequestConverter {
           );
           break;
 
+        case "document":
+          textAndImageParts.push(
+            ...this.convertDocumentBlock(block as AnthropicDocumentBlockParam)
+          );
+          break;
+
         case "tool_use": {
           const toolUse = block as AnthropicToolUseBlock;
           const fcPart: GeminiPart = {
@@ -207,6 +300,13 @@ export class RequestConverter {
           );
           break;
         }
+
+        case "server_tool_use":
+        case "web_search_tool_result":
+        case "web_fetch_tool_result":
+          // Server tools ran inside Gemini (grounding / URL context); the
+          // model's answer text already carries their outcome.
+          break;
       }
     }
 
@@ -219,7 +319,7 @@ export class RequestConverter {
         results.push({ role: "model", parts: allParts });
       }
     } else {
-      // User turn: text/images first, then function responses
+      // User turn: text/images/documents first, then function responses
       if (textAndImageParts.length > 0) {
         results.push({ role: "user", parts: textAndImageParts });
       }
@@ -238,6 +338,8 @@ export class RequestConverter {
    * Converts a tool_result content block into a Gemini functionResponse content.
    *
    * The Gemini API expects functionResponse parts inside a "user" role content.
+   * Images and documents nested in the result cannot live inside the
+   * functionResponse payload, so they follow it as sibling parts.
    */
   private convertToolResult(block: AnthropicToolResultBlockParam): GeminiContent {
     let responseData: Record<string, unknown>;
@@ -248,17 +350,26 @@ export class RequestConverter {
       responseData = { result: this.extractToolResultText(block) };
     }
 
-    return {
-      role: "user",
-      parts: [
-        {
-          functionResponse: {
-            name: this.resolveToolName(block.tool_use_id),
-            response: responseData,
-          },
+    const parts: GeminiPart[] = [
+      {
+        functionResponse: {
+          name: this.resolveToolName(block.tool_use_id),
+          response: responseData,
         },
-      ],
-    };
+      },
+    ];
+
+    if (Array.isArray(block.content)) {
+      for (const nested of block.content) {
+        if (nested.type === "image") {
+          parts.push(this.convertImageBlock(nested));
+        } else if (nested.type === "document") {
+          parts.push(...this.convertDocumentBlock(nested));
+        }
+      }
+    }
+
+    return { role: "user", parts };
   }
 
   /**
@@ -324,9 +435,70 @@ export class RequestConverter {
       };
     }
 
-    // URL images: Gemini supports fileData but for simplicity we
-    // pass as inline data. In production you might want to download & convert.
-    return { text: `[Image: ${(block.source as { url: string }).url}]` };
+    // URL images are normally downloaded by the Router (MediaFetcher)
+    // before conversion; reference any remaining one by URI.
+    return { fileData: { fileUri: block.source.url } };
+  }
+
+  /**
+   * Converts a document content block into Gemini parts.
+   *
+   * - base64 PDF → inlineData (application/pdf)
+   * - plain text → text part
+   * - custom content → text / inline image parts
+   * - URL PDF → fileData referencing the URL, if the Router did not
+   *   download it already
+   *
+   * The optional title and context are sent as a leading text part so
+   * the model can tell documents apart.
+   */
+  private convertDocumentBlock(block: AnthropicDocumentBlockParam): GeminiPart[] {
+    const parts: GeminiPart[] = [];
+
+    const header = [
+      block.title ? `[Document: ${block.title}]` : null,
+      block.context ?? null,
+    ].filter((line): line is string => !!line);
+    if (header.length > 0) {
+      parts.push({ text: header.join("\n") });
+    }
+
+    const source = block.source;
+    switch (source.type) {
+      case "base64":
+        parts.push({
+          inlineData: { mimeType: source.media_type, data: source.data },
+        });
+        break;
+
+      case "text":
+        parts.push({ text: source.data });
+        break;
+
+      case "content":
+        if (typeof source.content === "string") {
+          parts.push({ text: source.content });
+        } else {
+          for (const item of source.content) {
+            parts.push(
+              item.type === "image"
+                ? this.convertImageBlock(item)
+                : { text: item.text }
+            );
+          }
+        }
+        break;
+
+      case "url":
+        // URL PDFs are normally downloaded by the Router (MediaFetcher)
+        // before conversion; reference any remaining one by URI.
+        parts.push({
+          fileData: { mimeType: "application/pdf", fileUri: source.url },
+        });
+        break;
+    }
+
+    return parts;
   }
 
   // -------------------------------------------------------------------------
@@ -513,6 +685,30 @@ export class RequestConverter {
     };
   }
 
+  /**
+   * Returns the request's tool config with `streamFunctionCallArguments`
+   * set for streaming requests with function tools on models that
+   * support it, and cleared otherwise.
+   */
+  private withArgumentStreaming(
+    geminiRequest: GeminiGenerateContentRequest,
+    request: AnthropicMessagesRequest,
+    capabilities: ModelCapabilities
+  ): GeminiToolConfig | undefined {
+    const { streamFunctionCallArguments: _, ...functionCallingConfig } =
+      geminiRequest.toolConfig?.functionCallingConfig ?? { mode: "AUTO" as const };
+    const hasFunctions = geminiRequest.tools?.some((t) => t.functionDeclarations?.length);
+
+    if (request.stream && hasFunctions && capabilities.streamsFunctionCallArguments) {
+      return {
+        ...geminiRequest.toolConfig,
+        functionCallingConfig: { ...functionCallingConfig, streamFunctionCallArguments: true },
+      };
+    }
+    if (!geminiRequest.toolConfig?.functionCallingConfig) return geminiRequest.toolConfig;
+    return { ...geminiRequest.toolConfig, functionCallingConfig };
+  }
+
   // -------------------------------------------------------------------------
   // Generation Config
   // -------------------------------------------------------------------------
@@ -542,8 +738,12 @@ export class RequestConverter {
         capabilities.maxOutputTokens
       );
     }
-    if (request.stop_sequences) {
-      config.stopSequences = request.stop_sequences;
+    // Gemini takes at most five; the response converters match them all
+    const stopSequences = (request.stop_sequences ?? [])
+      .filter((s) => s.length > 0)
+      .slice(0, MAX_UPSTREAM_STOP_SEQUENCES);
+    if (stopSequences.length > 0) {
+      config.stopSequences = stopSequences;
     }
 
     // Thinking configuration
@@ -559,7 +759,8 @@ export class RequestConverter {
    * Builds the Gemini ThinkingConfig from Anthropic thinking parameters.
    *
    * For Gemini 3 models, uses `thinkingLevel` (MINIMAL, LOW, MEDIUM, HIGH).
-   * For Gemini 2.5 models, uses `thinkingBudget`.
+   * For Gemini 2.5 models, uses `thinkingBudget`; a level set by a route
+   * is turned into its budget.
    */
   private buildThinkingConfig(
     thinking: AnthropicThinkingConfig | undefined,
@@ -585,9 +786,12 @@ export class RequestConverter {
     } else if (capabilities.supportsThinking) {
       // Gemini 2.5: use thinkingBudget
       if (thinking?.type === "disabled") {
-        config.thinkingBudget = 0;
+        // 2.5 Pro cannot disable thinking
+        config.thinkingBudget = minThinkingBudget(capabilities);
       } else if (thinking?.budget_tokens) {
         config.thinkingBudget = thinking.budget_tokens;
+      } else if (capabilities.defaultThinkingLevel) {
+        config.thinkingBudget = thinkingLevelBudget(capabilities.defaultThinkingLevel, capabilities);
       }
       // else let Gemini use dynamic thinking
     }
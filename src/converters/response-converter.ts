@@ -10,7 +10,10 @@
  * - Candidate parts → Anthropic content blocks
  * - Function calls → tool_use blocks (with unique IDs)
  * - Thinking parts → thinking blocks
+ * - Grounding / URL context metadata → server tool blocks
+ * - Grounding supports → text citations
  * - Finish reason mapping
+ * - Stop sequences (enforced here rather than by Gemini)
  * - Usage metadata mapping
  * - Thought signature extraction and storage
  */
@@ -18,14 +21,93 @@
 import type {
   AnthropicMessagesResponse,
   AnthropicContentBlock,
+  AnthropicStopReason,
+  AnthropicTextBlock,
   AnthropicUsage,
 } from "../models/anthropic";
 import type {
   GeminiGenerateContentResponse,
   GeminiPart,
   GeminiFinishReason,
+  GeminiBlockReason,
 } from "../models/gemini";
 import { ThoughtSignatureService } from "../services/thought-signature";
+import { WebToolPolicy } from "../services/web-tool-policy";
+import { splitPromptUsage, type ContextCacheUsage } from "../services/context-cache";
+import {
+  applyCitations,
+  convertServerToolMetadata,
+  type ServerToolBlock,
+} from "./grounding-converter";
+import { findStopSequence } from "./stop-sequences";
+
+// ---------------------------------------------------------------------------
+// Finish reasons
+// ---------------------------------------------------------------------------
+
+/** Finish reasons meaning Gemini withheld (the rest of) the response. */
+const REFUSAL_REASONS: ReadonlySet<GeminiFinishReason> = new Set([
+  "SAFETY",
+  "RECITATION",
+  "PROHIBITED_CONTENT",
+  "BLOCKLIST",
+  "SPII",
+  "IMAGE_SAFETY",
+]);
+
+/** Explanations shown to the user when Gemini stops for these reasons. */
+const FINISH_REASON_NOTICES: Partial<Record<GeminiFinishReason, string>> = {
+  SAFETY: "the response was flagged by Gemini's safety filters",
+  RECITATION: "the response too closely recited existing material",
+  PROHIBITED_CONTENT: "the response may contain prohibited content",
+  BLOCKLIST: "the response contained blocklisted terms",
+  SPII: "the response may contain sensitive personal information",
+  IMAGE_SAFETY: "a generated image was flagged by Gemini's safety filters",
+  MALFORMED_FUNCTION_CALL: "Gemini generated an invalid tool call, so no tool was run",
+};
+
+/** Explanations shown to the user when Gemini blocks the prompt itself. */
+const BLOCK_REASON_NOTICES: Partial<Record<GeminiBlockReason, string>> = {
+  SAFETY: "the prompt was flagged by Gemini's safety filters",
+  BLOCKLIST: "the prompt contains blocklisted terms",
+  PROHIBITED_CONTENT: "the prompt may contain prohibited content",
+  IMAGE_SAFETY: "an image in the prompt was flagged by Gemini's safety filters",
+};
+
+/**
+ * Maps a Gemini finish reason to an Anthropic stop reason. Blocked
+ * responses are refusals; otherwise tool calls take precedence.
+ *
+ * @param reason     - The candidate's finish reason.
+ * @param hasToolUse - Whether the response contains tool_use blocks.
+ */
+export function toAnthropicStopReason(
+  reason: GeminiFinishReason | undefined,
+  hasToolUse: boolean
+): AnthropicStopReason {
+  if (reason && REFUSAL_REASONS.has(reason)) return "refusal";
+  if (hasToolUse) return "tool_use";
+  return reason === "MAX_TOKENS" ? "max_tokens" : "end_turn";
+}
+
+/**
+ * Returns the text block explaining why Gemini stopped, for finish
+ * reasons that would otherwise leave the user with a cut-off or empty
+ * answer, or null.
+ */
+export function finishReasonNotice(reason: GeminiFinishReason | undefined): string | null {
+  const explanation = reason && FINISH_REASON_NOTICES[reason];
+  return explanation ? `[Response stopped (${reason}): ${explanation}.]` : null;
+}
+
+/**
+ * Returns the text block explaining why Gemini refused to answer a
+ * blocked prompt (one with `promptFeedback.blockReason` and no candidates).
+ */
+export function promptBlockNotice(reason: GeminiBlockReason): string {
+  const explanation = BLOCK_REASON_NOTICES[reason] ?? "Gemini declined to answer the prompt";
+  return `[Prompt blocked (${reason}): ${explanation}.]`;
+}
 
 // ---------------------------------------------------------------------------
 // ID generation
@@ -71,10 +153,37 @@ function generateMessageId(): string {
 export class ResponseConverter {
   private readonly thoughtSignatures: ThoughtSignatureService;
   private readonly modelName: string;
+  private readonly webToolPolicy: WebToolPolicy;
+  private readonly prefetchedBlocks: ServerToolBlock[];
+  private readonly cacheUsage: ContextCacheUsage | null;
+  private readonly stopSequences: string[];
 
-  constructor(thoughtSignatures: ThoughtSignatureService, modelName: string) {
+  /**
+   * @param thoughtSignatures - Per-request signature store.
+   * @param modelName         - Model name echoed back to the client.
+   * @param webToolPolicy     - Domain / max_uses restrictions applied to
+   *                            web search and fetch results.
+   * @param prefetchedBlocks  - Locally fetched web_fetch blocks, placed
+   *                            before everything Gemini produced.
+   * @param cacheUsage        - Context cache tokens of the request, split
+   *                            out of the prompt tokens.
+   * @param stopSequences     - The request's `stop_sequences`, matched
+   *                            here.
+   */
+  constructor(
+    thoughtSignatures: ThoughtSignatureService,
+    modelName: string,
+    webToolPolicy: WebToolPolicy = WebToolPolicy.unrestricted(),
+    prefetchedBlocks: ServerToolBlock[] = [],
+    cacheUsage: ContextCacheUsage | null = null,
+    stopSequences: string[] = []
+  ) {
     this.thoughtSignatures = thoughtSignatures;
     this.modelName = modelName;
+    this.webToolPolicy = webToolPolicy;
+    this.prefetchedBlocks = prefetchedBlocks;
+    this.cacheUsage = cacheUsage;
+    this.stopSequences = stopSequences.filter((s) => s.length > 0);
   }
 
   /**
@@ -86,13 +195,35 @@ export class ResponseConverter {
   convert(response: GeminiGenerateContentResponse): AnthropicMessagesResponse {
     const candidate = response.candidates?.[0];
     if (!candidate) {
-      return this.buildEmptyResponse();
+      return this.buildEmptyResponse(response);
     }
 
-    const content = this.convertParts(candidate.content?.parts ?? []);
-    const stopReason = this.convertFinishReason(candidate.finishReason, content);
+    const serverTools = convertServerToolMetadata(candidate, this.webToolPolicy);
+    // Matched before citations split the text, so no sequence straddles blocks
+    const blocks = this.convertParts(candidate.content?.parts ?? []);
+    const stopSequence = this.truncateAtStopSequence(blocks);
+    const content = [
+      ...this.prefetchedBlocks,
+      ...serverTools.blocks,
+      ...applyCitations(blocks, candidate.groundingMetadata, this.webToolPolicy),
+    ];
+    const notice = stopSequence === null ? finishReasonNotice(candidate.finishReason) : null;
+    if (notice) {
+      // The notice replaces the empty placeholder block, if that is all there is
+      const [only] = content;
+      if (content.length === 1 && only.type === "text" && !only.text) content.pop();
+      content.push({ type: "text", text: notice });
+    }
+    const stopReason =
+      stopSequence !== null
+        ? "stop_sequence"
+        : this.convertFinishReason(candidate.finishReason, content);
     const usage = this.convertUsage(response);
 
+    if (serverTools.usage) {
+      usage.server_tool_use = serverTools.usage;
+    }
+
     return {
       id: generateMessageId(),
       type: "message",
@@ -100,11 +231,45 @@ export class ResponseConverter {
       content,
       model: this.modelName,
       stop_reason: stopReason,
-      stop_sequence: null,
+      stop_sequence: stopSequence,
       usage,
     };
   }
 
+  /**
+   * Cuts the content at the earliest stop sequence, dropping everything
+   * after it. Each run of adjacent text blocks is searched as one text,
+   * like the streamed text it was made of.
+   *
+   * @returns The matched stop sequence, or null.
+   */
+  private truncateAtStopSequence(content: AnthropicContentBlock[]): string | null {
+    if (this.stopSequences.length === 0) return null;
+
+    for (let start = 0; start < content.length; start++) {
+      let end = start;
+      while (end < content.length && content[end].type === "text") end++;
+      if (end === start) continue;
+
+      const run = content.slice(start, end) as AnthropicTextBlock[];
+      const match = findStopSequence(run.map((b) => b.text).join(""), this.stopSequences);
+      if (match) {
+        // Keep the text before the match, in the block it ends in
+        let remaining = match.index;
+        let i = 0;
+        while (remaining > run[i].text.length) {
+          remaining -= run[i].text.length;
+          i++;
+        }
+        run[i].text = run[i].text.substring(0, remaining);
+        content.splice(start + i + 1);
+        return match.sequence;
+      }
+      start = end;
+    }
+    return null;
+  }
+
   // -------------------------------------------------------------------------
   // Parts → Content Blocks
   // -------------------------------------------------------------------------
@@ -190,18 +355,10 @@ export class ResponseConverter {
     reason: GeminiFinishReason | undefined,
     content: AnthropicContentBlock[]
   ): AnthropicMessagesResponse["stop_reason"] {
-    // If the response contains tool_use blocks, override to "tool_use"
-    const hasToolUse = content.some((b) => b.type === "tool_use");
-    if (hasToolUse) return "tool_use";
-
-    switch (reason) {
-      case "STOP":
-        return "end_turn";
-      case "MAX_TOKENS":
-        return "max_tokens";
-      default:
-        return "end_turn";
-    }
+    return toAnthropicStopReason(
+      reason,
+      content.some((b) => b.type === "tool_use")
+    );
   }
 
   // -------------------------------------------------------------------------
@@ -209,12 +366,18 @@ export class ResponseConverter {
   // -------------------------------------------------------------------------
 
   /**
-   * Converts Gemini usage metadata to Anthropic usage format.
+   * Converts Gemini usage metadata to Anthropic usage format. Tokens
+   * served from a cache (explicit or Gemini's implicit caching) are
+   * reported separately from the uncached input.
    */
   convertUsage(response: GeminiGenerateContentResponse): AnthropicUsage {
     const meta = response.usageMetadata;
     return {
-      input_tokens: meta?.promptTokenCount ?? 0,
+      ...splitPromptUsage(
+        meta?.promptTokenCount ?? 0,
+        meta?.cachedContentTokenCount,
+        this.cacheUsage
+      ),
       output_tokens: (meta?.candidatesTokenCount ?? 0) + (meta?.thoughtsTokenCount ?? 0),
     };
   }
@@ -224,18 +387,20 @@ export class ResponseConverter {
   // -------------------------------------------------------------------------
 
   /**
-   * Builds an empty response for edge cases (e.g. blocked by safety).
+   * Builds the response for a Gemini response without candidates: a
+   * refusal naming the reason when the prompt was blocked, else empty.
    */
-  private buildEmptyResponse(): AnthropicMessagesResponse {
+  private buildEmptyResponse(response: GeminiGenerateContentResponse): AnthropicMessagesResponse {
+    const blockReason = response.promptFeedback?.blockReason;
     return {
       id: generateMessageId(),
       type: "message",
       role: "assistant",
-      content: [{ type: "text", text: "" }],
+      content: [{ type: "text", text: blockReason ? promptBlockNotice(blockReason) : "" }],
       model: this.modelName,
-      stop_reason: "end_turn",
+      stop_reason: blockReason ? "refusal" : "end_turn",
       stop_sequence: null,
-      usage: { input_tokens: 0, output_tokens: 0 },
+      usage: this.convertUsage(response),
     };
   }
 }
@@ -0,0 +1,133 @@
+/**
+ * Proxy-side stop sequences.
+ *
+ * Gemini accepts at most five `stopSequences`, so only the first five
+ * of a request's `stop_sequences` are sent upstream. All of them are
+ * also enforced here, on the text Gemini returns, which catches the
+ * rest and matches that span text parts: output is cut right before the
+ * earliest match and the matched sequence is reported back. When Gemini
+ * stops on one itself, it reports a plain `STOP` without saying which.
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Most stop sequences Gemini accepts in `generationConfig.stopSequences`. */
+export const MAX_UPSTREAM_STOP_SEQUENCES = 5;
+
+// ---------------------------------------------------------------------------
+// StopSequenceMatcher
+// ---------------------------------------------------------------------------
+
+/** Result of feeding text to a StopSequenceMatcher. */
+export interface StopSequenceResult {
+  /** Text that is safe to pass on. */
+  text: string;
+
+  /** The stop sequence found, if any; nothing after it may be emitted. */
+  matched: string | null;
+}
+
+/**
+ * Finds stop sequences in text that arrives in pieces.
+ *
+ * The end of each piece that could still be the start of a stop
+ * sequence is held back until the next piece shows whether it is one,
+ * so no text past a stop ever leaks out.
+ *
+ * @example
+ * ```ts
+ * const matcher = new StopSequenceMatcher(["</answer>"]);
+ * matcher.push("42</ans");  // { text: "42", matched: null }
+ * matcher.push("wer> more"); // { text: "", matched: "</answer>" }
+ * ```
+ */
+export class StopSequenceMatcher {
+  private readonly sequences: string[];
+
+  /** Text held back because it may begin a stop sequence. */
+  private pending = "";
+
+  private stopped = false;
+
+  constructor(sequences: string[]) {
+    this.sequences = sequences.filter((s) => s.length > 0);
+  }
+
+  /** Whether a stop sequence has been found. */
+  get hasStopped(): boolean {
+    return this.stopped;
+  }
+
+  /**
+   * Feeds the next piece of text. After a match, further text is
+   * swallowed.
+   */
+  push(text: string): StopSequenceResult {
+    if (this.stopped) return { text: "", matched: null };
+
+    const buffer = this.pending + text;
+    const match = findStopSequence(buffer, this.sequences);
+    if (match) {
+      this.stopped = true;
+      this.pending = "";
+      return { text: buffer.substring(0, match.index), matched: match.sequence };
+    }
+
+    const held = this.partialMatchLength(buffer);
+    this.pending = buffer.substring(buffer.length - held);
+    return { text: buffer.substring(0, buffer.length - held), matched: null };
+  }
+
+  /**
+   * Releases the held-back text, e.g. when the text run ends without
+   * completing a stop sequence.
+   */
+  flush(): string {
+    const text = this.pending;
+    this.pending = "";
+    return text;
+  }
+
+  /**
+   * Length of the longest suffix of `text` that is a proper prefix of a
+   * stop sequence.
+   */
+  private partialMatchLength(text: string): number {
+    let longest = 0;
+    for (const sequence of this.sequences) {
+      const max = Math.min(sequence.length - 1, text.length);
+      for (let n = max; n > longest; n--) {
+        if (text.endsWith(sequence.substring(0, n))) {
+          longest = n;
+          break;
+        }
+      }
+    }
+    return longest;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Finds the earliest stop sequence in a complete text. When several
+ * start at the same position, the one listed first wins.
+ */
+export function findStopSequence(
+  text: string,
+  sequences: string[]
+): { index: number; sequence: string } | null {
+  let best: { index: number; sequence: string } | null = null;
+  for (const sequence of sequences) {
+    if (!sequence) continue;
+    const index = text.indexOf(sequence);
+    if (index !== -1 && (!best || index < best.index)) {
+      best = { index, sequence };
+    }
+  }
+  return best;
+}
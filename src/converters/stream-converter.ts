@@ -1,8 +1,8 @@
 /**
  * Gemini Streaming → Anthropic SSE stream converter.
  *
- * Transforms the Gemini `streamGenerateContent` NDJSON response stream
- * into Anthropic-compatible Server-Sent Events (SSE).
+ * Transforms the Gemini `streamGenerateContent` response stream into
+ * Anthropic-compatible Server-Sent Events (SSE).
  *
  * Gemini streaming returns JSON objects (one per chunk), while Anthropic
  * streaming uses SSE with specific event types:
@@ -10,23 +10,91 @@
  *   content_block_stop → message_delta → message_stop
  *
  * This converter handles:
- * - Buffering JSON chunks from the Gemini NDJSON stream
+ * - Parsing JSON chunks from the Gemini SSE (or JSON array) stream
  * - Emitting proper SSE event sequences
  * - Tracking content block indices across chunks
- * - Handling thinking blocks and tool_use blocks
+ * - Handling thinking blocks and tool_use blocks, streaming function-call
+ *   arguments as they arrive when Gemini sends them in parts
+ * - Emitting server tool blocks from accumulated grounding metadata
+ * - Emitting grounding supports as citations_delta events
+ * - Enforcing the request's stop sequences, holding back text
+ *   that may be the start of one
+ * - Sending `ping` events while Gemini is quiet (e.g. thinking) and
+ *   giving up on a stream that stalls
  * - Thought signature extraction during streaming
  */
 
 import type {
   AnthropicContentBlock,
   AnthropicStreamEvent,
+  AnthropicTextCitation,
   AnthropicUsage,
 } from "../models/anthropic";
 import type {
+  GeminiBlockReason,
+  GeminiFinishReason,
+  GeminiFunctionCallPart,
   GeminiGenerateContentResponse,
+  GeminiGroundingMetadata,
   GeminiPart,
+  GeminiUrlContextMetadata,
 } from "../models/gemini";
 import { ThoughtSignatureService } from "../services/thought-signature";
+import { WebToolPolicy } from "../services/web-tool-policy";
+import { splitPromptUsage, type ContextCacheUsage } from "../services/context-cache";
+import {
+  buildSupportCitations,
+  convertServerToolMetadata,
+  mergeGroundingMetadata,
+  mergeUrlContextMetadata,
+  type ServerToolBlock,
+} from "./grounding-converter";
+import { PartialArgsWriter } from "./partial-args";
+import {
+  finishReasonNotice,
+  promptBlockNotice,
+  toAnthropicStopReason,
+} from "./response-converter";
+import { createStreamParser, type GeminiStreamParser } from "./stream-parser";
+import { StopSequenceMatcher } from "./stop-sequences";
+import { OverloadedError, ProxyError } from "../utils/errors";
+import { Logger } from "../utils/logger";
+
+// ---------------------------------------------------------------------------
+// Keepalive
+// ---------------------------------------------------------------------------
+
+/** How a stream is kept alive while Gemini sends nothing. */
+export interface StreamTimingOptions {
+  /** Idle time before each `ping` event, in milliseconds (default 10 s; 0 = no pings). */
+  pingIntervalMs?: number;
+
+  /**
+   * Idle time after which the upstream read is aborted with an
+   * `overloaded_error`, in milliseconds (default 5 min; 0 = wait forever).
+   * Also bounds the wait for the first chunk, across retries.
+   */
+  stallTimeoutMs?: number;
+}
+
+const DEFAULT_PING_INTERVAL_MS = 10_000;
+export const DEFAULT_STALL_TIMEOUT_MS = 300_000;
+
+/** Returned by `withTimeout` when the time ran out first. */
+const TIMED_OUT = Symbol("timed out");
+
+/** Waits for a promise, but no longer than `ms` milliseconds. */
+async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | typeof TIMED_OUT> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<typeof TIMED_OUT>((resolve) => {
+    timer = setTimeout(() => resolve(TIMED_OUT), ms);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
 
 // ---------------------------------------------------------------------------
 // ID generation
@@ -90,80 +158,189 @@ export class StreamConverter {
   /** Whether any tool_use blocks have been emitted. */
   private hasEmittedToolUse = false;
 
+  /** The last finish reason Gemini reported. */
+  private finishReason: GeminiFinishReason | undefined = undefined;
+
+  /** Why Gemini blocked the prompt, if it did. */
+  private blockReason: GeminiBlockReason | undefined = undefined;
+
+  /** Arguments of the function call being streamed in parts, if any. */
+  private toolArgs: PartialArgsWriter | null = null;
+
   /** Total input/output token counts. */
   private inputTokens = 0;
   private outputTokens = 0;
 
+  /** Prompt tokens Gemini served from a cache, once reported. */
+  private cachedTokens: number | undefined = undefined;
+
+  /** Server tool usage reported in message_delta. */
+  private serverToolUsage: AnthropicUsage["server_tool_use"] = undefined;
+
+  /** Grounding / URL context metadata accumulated across chunks. */
+  private readonly groundingMetadata: GeminiGroundingMetadata = {};
+  private readonly urlContextMetadata: GeminiUrlContextMetadata = {};
+
+  /** Domain / max_uses restrictions for web search and fetch blocks. */
+  private readonly webToolPolicy: WebToolPolicy;
+
+  /** Number of grounding supports already turned into citations. */
+  private citedSupports = 0;
+
+  /** Citations waiting for the next text block to open. */
+  private pendingCitations: AnthropicTextCitation[] = [];
+
+  /** web_fetch blocks served by the proxy before calling Gemini. */
+  private readonly prefetchedBlocks: ServerToolBlock[];
+
+  /** Context cache tokens, split out of the prompt tokens. */
+  private readonly cacheUsage: ContextCacheUsage | null;
+
+  /** Matcher for the stop sequences enforced by the proxy, if any. */
+  private readonly stopMatcher: StopSequenceMatcher | null;
+
+  /** The stop sequence that ended the response, once one matched. */
+  private stopSequence: string | null = null;
+
+  /** Keepalive ping interval and stall timeout, in milliseconds. */
+  private readonly pingIntervalMs: number;
+  private readonly stallTimeoutMs: number;
+
+  /**
+   * @param modelName         - Model name echoed back to the client.
+   * @param thoughtSignatures - Per-request signature store.
+   * @param inputTokens       - Pre-computed prompt size, reported in
+   *                            `message_start` until Gemini sends usage.
+   * @param webToolPolicy     - Domain / max_uses restrictions applied to
+   *                            web search and fetch results.
+   * @param prefetchedBlocks  - Locally fetched web_fetch blocks, emitted
+   *                            right after `message_start`.
+   * @param cacheUsage        - Context cache tokens of the request.
+   * @param stopSequences     - The request's `stop_sequences`, matched
+   *                            here.
+   * @param timing            - Keepalive ping interval and stall timeout.
+   */
   constructor(
     modelName: string,
-    thoughtSignatures: ThoughtSignatureService
+    thoughtSignatures: ThoughtSignatureService,
+    inputTokens = 0,
+    webToolPolicy: WebToolPolicy = WebToolPolicy.unrestricted(),
+    prefetchedBlocks: ServerToolBlock[] = [],
+    cacheUsage: ContextCacheUsage | null = null,
+    stopSequences: string[] = [],
+    timing: StreamTimingOptions = {}
   ) {
     this.modelName = modelName;
     this.thoughtSignatures = thoughtSignatures;
     this.messageId = generateMessageId();
+    this.inputTokens = inputTokens;
+    this.webToolPolicy = webToolPolicy;
+    this.prefetchedBlocks = prefetchedBlocks;
+    this.cacheUsage = cacheUsage;
+
+    this.stopMatcher = stopSequences.some((s) => s.length > 0)
+      ? new StopSequenceMatcher(stopSequences)
+      : null;
+
+    this.pingIntervalMs = timing.pingIntervalMs ?? DEFAULT_PING_INTERVAL_MS;
+    this.stallTimeoutMs = timing.stallTimeoutMs ?? DEFAULT_STALL_TIMEOUT_MS;
   }
 
   /**
    * Converts a Gemini streaming HTTP response into an Anthropic SSE stream.
+   * The upstream read stops early once a proxy-side stop sequence matched,
+   * or with an `overloaded_error` event once Gemini stalls.
+   *
+   * When the client goes away (the returned stream is cancelled or
+   * `signal` aborts), the upstream read is cancelled too and the usage
+   * so far is logged.
    *
    * @param geminiResponse - The raw fetch Response from Gemini's
    *                         streamGenerateContent endpoint.
+   * @param signal         - Aborted when the client disconnects.
    * @returns A ReadableStream of SSE-formatted Uint8Array chunks.
    */
-  convertStream(geminiResponse: Response): ReadableStream<Uint8Array> {
+  convertStream(geminiResponse: Response, signal?: AbortSignal): ReadableStream<Uint8Array> {
     const reader = geminiResponse.body!.getReader();
     const decoder = new TextDecoder();
     const encoder = new TextEncoder();
-    let buffer = "";
+    let parser: GeminiStreamParser;
+
+    /** Set once the stream completed, failed or was cancelled. */
+    let settled = false;
 
     // eslint-disable-next-line @typescript-eslint/no-this-alias
     const self = this;
 
+    const cancelled = () => {
+      if (settled) return;
+      settled = true;
+      reader.cancel().catch(() => {});
+      Logger.getInstance().info("Request cancelled by the client, Gemini stream stopped", {
+        usage: self.currentUsage(),
+      });
+    };
+
+    const finish = (controller: ReadableStreamDefaultController<Uint8Array>) => {
+      settled = true;
+
+      // Close any open block
+      self.closeCurrentBlock(controller, encoder);
+
+      // Emit server tool blocks gathered from grounding metadata
+      self.emitServerToolBlocks(controller, encoder);
+
+      // Emit message_delta and message_stop
+      self.emitMessageEnd(controller, encoder);
+
+      controller.close();
+    };
+
     return new ReadableStream({
+      start(controller) {
+        parser = createStreamParser((chunk) => self.processChunk(chunk, controller, encoder));
+        signal?.addEventListener("abort", cancelled, { once: true });
+      },
+
       async pull(controller) {
         try {
           while (true) {
-            const { done, value } = await reader.read();
+            const { done, value } = await self.read(reader.read(), controller, encoder);
 
             if (done) {
-              // Process any remaining buffer
-              if (buffer.trim()) {
-                self.processBufferedJson(buffer, controller, encoder);
-              }
-
-              // Close any open block
-              self.closeCurrentBlock(controller, encoder);
-
-              // Emit message_delta and message_stop
-              self.emitMessageEnd(controller, encoder);
-
-              controller.close();
+              parser.push(decoder.decode());
+              parser.end();
+              finish(controller);
               return;
             }
 
-            buffer += decoder.decode(value, { stream: true });
-
-            // Gemini streaming can return:
-            // 1. NDJSON (one JSON object per line)
-            // 2. Array of JSON objects wrapped in [ ... ]
-            // We handle both formats.
+            parser.push(decoder.decode(value, { stream: true }));
 
-            // Try to parse complete JSON objects from the buffer
-            self.processBuffer(controller, encoder, buffer);
-
-            // Keep only unparsed remainder
-            const lastCompleteIndex = self.findLastCompleteJson(buffer);
-            if (lastCompleteIndex >= 0) {
-              buffer = buffer.substring(lastCompleteIndex);
+            // Nothing after a stop sequence is needed
+            if (self.stopSequence !== null) {
+              reader.cancel().catch(() => {});
+              finish(controller);
+              return;
             }
           }
         } catch (error) {
+          // Reads fail once the fetch is aborted; nobody is listening anymore
+          if (signal?.aborted || settled) {
+            cancelled();
+            return;
+          }
+          settled = true;
+
+          const message = error instanceof Error ? error.message : String(error);
+          Logger.getInstance().error("Gemini stream failed", { error: message });
+          reader.cancel().catch(() => {});
+
           // Emit error event in SSE format
           const errorEvent = self.formatSSE("error", {
             type: "error",
             error: {
-              type: "api_error",
-              message: error instanceof Error ? error.message : String(error),
+              type: error instanceof ProxyError ? error.errorType : "api_error",
+              message,
             },
           });
           controller.enqueue(encoder.encode(errorEvent));
@@ -172,134 +349,40 @@ export class StreamConverter {
       },
 
       cancel() {
-        reader.cancel();
+        cancelled();
       },
     });
   }
 
-  // -------------------------------------------------------------------------
-  // Buffer processing
-  // -------------------------------------------------------------------------
-
   /**
-   * Processes the accumulated buffer, extracting and handling complete
-   * JSON objects.
-   *
-   * When using `alt=sse`, Gemini returns data in SSE format:
-   * ```
-   * data: {"candidates": [...]}
+   * Waits for the next read of the upstream body. While Gemini sends
+   * nothing, a `ping` goes out every `pingIntervalMs` so the client and
+   * any proxies in between keep the connection open.
    *
-   * data: {"candidates": [...]}
-   * ```
-   *
-   * We also handle NDJSON and array-wrapped formats as fallbacks.
-   */
-  private processBuffer(
-    controller: ReadableStreamDefaultController<Uint8Array>,
-    encoder: TextEncoder,
-    buffer: string
-  ): void {
-    // Handle SSE format (data: {json}) — this is what Gemini returns with alt=sse
-    const lines = buffer.split("\n");
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      if (!trimmedLine) continue;
-
-      // SSE data lines
-      if (trimmedLine.startsWith("data: ")) {
-        const jsonStr = trimmedLine.substring(6).trim();
-        if (jsonStr) {
-          this.processBufferedJson(jsonStr, controller, encoder);
-        }
-        continue;
-      }
-
-      // Skip SSE event type lines and empty markers
-      if (trimmedLine.startsWith("event:")) continue;
-      if (trimmedLine === "[" || trimmedLine === "]" || trimmedLine === ",") continue;
-
-      // Handle array-wrapped streaming (Gemini sometimes wraps in [])
-      if (trimmedLine.startsWith("[")) {
-        this.extractJsonFromArray(trimmedLine, controller, encoder);
-        continue;
-      }
-
-      // Fallback: try as raw JSON (NDJSON format)
-      this.processBufferedJson(trimmedLine, controller, encoder);
-    }
-  }
-
-  /**
-   * Extracts JSON objects from an array-format streaming response.
+   * @throws {OverloadedError} If nothing arrived for `stallTimeoutMs`.
    */
-  private extractJsonFromArray(
-    text: string,
+  private async read<T>(
+    read: Promise<T>,
     controller: ReadableStreamDefaultController<Uint8Array>,
     encoder: TextEncoder
-  ): void {
-    // Remove outer brackets and split on },{ pattern
-    let inner = text;
-    if (inner.startsWith("[")) inner = inner.substring(1);
-    if (inner.endsWith("]")) inner = inner.substring(0, inner.length - 1);
-
-    // Use a simple regex-free approach: find complete JSON objects
-    let depth = 0;
-    let start = -1;
-
-    for (let i = 0; i < inner.length; i++) {
-      const char = inner[i];
-      if (char === "{") {
-        if (depth === 0) start = i;
-        depth++;
-      } else if (char === "}") {
-        depth--;
-        if (depth === 0 && start >= 0) {
-          const jsonStr = inner.substring(start, i + 1).trim();
-          this.processBufferedJson(jsonStr, controller, encoder);
-          start = -1;
-        }
+  ): Promise<T> {
+    const idleSince = Date.now();
+
+    while (true) {
+      const stallIn =
+        this.stallTimeoutMs > 0 ? idleSince + this.stallTimeoutMs - Date.now() : Infinity;
+      const wait = Math.min(this.pingIntervalMs > 0 ? this.pingIntervalMs : Infinity, stallIn);
+      if (wait === Infinity) return read;
+
+      const result = await withTimeout(read, Math.max(0, wait));
+      if (result !== TIMED_OUT) return result;
+
+      if (this.stallTimeoutMs > 0 && Date.now() - idleSince >= this.stallTimeoutMs) {
+        throw new OverloadedError(
+          `Gemini sent no data for ${this.stallTimeoutMs / 1000}s; the stream was aborted.`
+        );
       }
-    }
-  }
-
-  /**
-   * Finds the index of the last character of the last complete JSON object
-   * in the buffer.
-   */
-  private findLastCompleteJson(buffer: string): number {
-    let lastIndex = -1;
-    let depth = 0;
-
-    for (let i = 0; i < buffer.length; i++) {
-      if (buffer[i] === "{") depth++;
-      else if (buffer[i] === "}") {
-        depth--;
-        if (depth === 0) lastIndex = i + 1;
-      }
-    }
-
-    return lastIndex;
-  }
-
-  /**
-   * Parses a JSON string as a Gemini response chunk and emits the
-   * corresponding Anthropic SSE events.
-   */
-  private processBufferedJson(
-    jsonStr: string,
-    controller: ReadableStreamDefaultController<Uint8Array>,
-    encoder: TextEncoder
-  ): void {
-    // Clean up common artifacts
-    let cleaned = jsonStr.trim();
-    if (cleaned.startsWith(",")) cleaned = cleaned.substring(1).trim();
-    if (!cleaned || cleaned === "[" || cleaned === "]") return;
-
-    try {
-      const chunk: GeminiGenerateContentResponse = JSON.parse(cleaned);
-      this.processChunk(chunk, controller, encoder);
-    } catch {
-      // Incomplete JSON – will be retried with more data
+      this.emitPing(controller, encoder);
     }
   }
 
@@ -318,12 +401,13 @@ export class StreamConverter {
     // Emit message_start on first chunk
     if (!this.messageStarted) {
       this.emitMessageStart(chunk, controller, encoder);
-      this.messageStarted = true;
     }
+    if (this.stopSequence !== null) return;
 
     // Update usage
     if (chunk.usageMetadata) {
       this.inputTokens = chunk.usageMetadata.promptTokenCount ?? this.inputTokens;
+      this.cachedTokens = chunk.usageMetadata.cachedContentTokenCount ?? this.cachedTokens;
       this.outputTokens =
         (chunk.usageMetadata.candidatesTokenCount ?? 0) +
         (chunk.usageMetadata.thoughtsTokenCount ?? 0);
@@ -331,11 +415,24 @@ export class StreamConverter {
 
     // Process parts
     const candidate = chunk.candidates?.[0];
-    if (!candidate?.content?.parts) return;
-
-    for (const part of candidate.content.parts) {
+    if (candidate?.groundingMetadata) {
+      mergeGroundingMetadata(this.groundingMetadata, candidate.groundingMetadata);
+    }
+    if (candidate?.urlContextMetadata) {
+      mergeUrlContextMetadata(this.urlContextMetadata, candidate.urlContextMetadata);
+    }
+    if (candidate?.finishReason) {
+      this.finishReason = candidate.finishReason;
+    }
+    if (chunk.promptFeedback?.blockReason) {
+      this.blockReason = chunk.promptFeedback.blockReason;
+    }
+    for (const part of candidate?.content?.parts ?? []) {
+      if (this.stopSequence !== null) break;
       this.processPart(part, controller, encoder);
     }
+
+    this.emitNewCitations(controller, encoder);
   }
 
   /**
@@ -368,10 +465,12 @@ export class StreamConverter {
         }
       }
     } else if ("functionCall" in part) {
-      const fcPart = part as {
-        functionCall: { name: string; args: Record<string, unknown> };
-      };
-      this.handleToolUse(fcPart.functionCall, controller, encoder);
+      const { functionCall } = part as GeminiFunctionCallPart;
+      if (this.toolArgs || functionCall.willContinue) {
+        this.handleStreamedToolUse(functionCall, controller, encoder);
+      } else {
+        this.handleToolUse(functionCall, controller, encoder);
+      }
     }
   }
 
@@ -380,30 +479,60 @@ export class StreamConverter {
   // -------------------------------------------------------------------------
 
   /**
-   * Handles a text delta from the stream.
+   * Handles a text delta from the stream. With proxy-side stop
+   * sequences, text that may begin one is held back until it is known
+   * not to, and text after a match is dropped.
    */
   private handleTextDelta(
     text: string,
     controller: ReadableStreamDefaultController<Uint8Array>,
     encoder: TextEncoder
   ): void {
-    if (this.currentBlockType !== "text") {
-      this.closeCurrentBlock(controller, encoder);
-      // Start a new text block
-      this.emitEvent(
-        controller,
-        encoder,
-        "content_block_start",
-        {
-          type: "content_block_start",
-          index: this.blockIndex,
-          content_block: { type: "text", text: "" },
-        }
-      );
-      this.currentBlockType = "text";
+    let safeText = text;
+    if (this.stopMatcher) {
+      const result = this.stopMatcher.push(text);
+      safeText = result.text;
+      this.stopSequence = result.matched ?? this.stopSequence;
     }
 
-    // Emit text delta
+    this.openTextBlock(controller, encoder);
+    this.emitTextDelta(safeText, controller, encoder);
+  }
+
+  /**
+   * Starts a text block unless one is open.
+   */
+  private openTextBlock(
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    encoder: TextEncoder
+  ): void {
+    if (this.currentBlockType === "text") return;
+
+    this.closeCurrentBlock(controller, encoder);
+    // Start a new text block
+    this.emitEvent(
+      controller,
+      encoder,
+      "content_block_start",
+      {
+        type: "content_block_start",
+        index: this.blockIndex,
+        content_block: { type: "text", text: "" },
+      }
+    );
+    this.currentBlockType = "text";
+    this.flushCitations(controller, encoder);
+  }
+
+  /**
+   * Emits a text delta on the open text block.
+   */
+  private emitTextDelta(
+    text: string,
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    encoder: TextEncoder
+  ): void {
+    if (!text) return;
     this.emitEvent(controller, encoder, "content_block_delta", {
       type: "content_block_delta",
       index: this.blockIndex,
@@ -453,50 +582,187 @@ export class StreamConverter {
   }
 
   /**
-   * Handles a tool_use (function call) from the stream.
-   * Tool use in streaming typically comes as a complete part.
+   * Handles a complete tool_use (function call) from the stream: the
+   * whole input is emitted as a single JSON delta.
    */
   private handleToolUse(
-    functionCall: { name: string; args: Record<string, unknown> },
+    functionCall: GeminiFunctionCallPart["functionCall"],
     controller: ReadableStreamDefaultController<Uint8Array>,
     encoder: TextEncoder
   ): void {
+    this.startToolUse(functionCall.name, controller, encoder);
+    this.emitInputJsonDelta(JSON.stringify(functionCall.args ?? {}), controller, encoder);
     this.closeCurrentBlock(controller, encoder);
+  }
 
-    const toolUseId = generateToolUseId();
+  /**
+   * Handles one part of a function call whose arguments are streamed
+   * (`streamFunctionCallArguments`). The first part opens the tool_use
+   * block, each part's `partialArgs` become `input_json_delta` events,
+   * and the part without `willContinue` closes the block.
+   */
+  private handleStreamedToolUse(
+    functionCall: GeminiFunctionCallPart["functionCall"],
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    encoder: TextEncoder
+  ): void {
+    if (!this.toolArgs) {
+      this.startToolUse(functionCall.name, controller, encoder);
+      this.toolArgs = new PartialArgsWriter();
+    }
+
+    for (const arg of functionCall.partialArgs ?? []) {
+      this.emitInputJsonDelta(this.toolArgs.write(arg), controller, encoder);
+    }
+
+    if (!functionCall.willContinue) {
+      // Complete args may still come with the last part instead
+      if (!this.toolArgs.started && functionCall.args) {
+        this.emitInputJsonDelta(JSON.stringify(functionCall.args), controller, encoder);
+        this.toolArgs = null;
+      }
+      this.closeCurrentBlock(controller, encoder);
+    }
+  }
+
+  /**
+   * Opens a tool_use content block.
+   */
+  private startToolUse(
+    name: string,
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    encoder: TextEncoder
+  ): void {
+    this.closeCurrentBlock(controller, encoder);
     this.hasEmittedToolUse = true;
 
-    // Start tool_use block
     this.emitEvent(controller, encoder, "content_block_start", {
       type: "content_block_start",
       index: this.blockIndex,
       content_block: {
         type: "tool_use",
-        id: toolUseId,
-        name: functionCall.name,
+        id: generateToolUseId(),
+        name,
         input: {},
       },
     });
+    this.currentBlockType = "tool_use";
+  }
 
-    // Emit the input as a single JSON delta
-    const inputJson = JSON.stringify(functionCall.args ?? {});
+  /**
+   * Emits a piece of the open tool_use block's input JSON.
+   */
+  private emitInputJsonDelta(
+    partialJson: string,
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    encoder: TextEncoder
+  ): void {
+    if (!partialJson) return;
     this.emitEvent(controller, encoder, "content_block_delta", {
       type: "content_block_delta",
       index: this.blockIndex,
       delta: {
         type: "input_json_delta",
-        partial_json: inputJson,
+        partial_json: partialJson,
       },
     });
+  }
+
+  /**
+   * Emits citations for grounding supports received since the last call.
+   *
+   * The supported text has usually been streamed already, so citations
+   * are attached to the open text block as `citations_delta` events, or
+   * to the next text block if none is open.
+   */
+  private emitNewCitations(
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    encoder: TextEncoder
+  ): void {
+    const supports = this.groundingMetadata.groundingSupports ?? [];
+    for (const support of supports.slice(this.citedSupports)) {
+      this.pendingCitations.push(
+        ...buildSupportCitations(support, this.groundingMetadata, this.webToolPolicy)
+      );
+    }
+    this.citedSupports = supports.length;
+
+    if (this.currentBlockType === "text") {
+      this.flushCitations(controller, encoder);
+    }
+  }
+
+  /**
+   * Emits pending citations on the currently open text block.
+   */
+  private flushCitations(
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    encoder: TextEncoder
+  ): void {
+    for (const citation of this.pendingCitations) {
+      this.emitEvent(controller, encoder, "content_block_delta", {
+        type: "content_block_delta",
+        index: this.blockIndex,
+        delta: { type: "citations_delta", citation },
+      });
+    }
+    this.pendingCitations = [];
+  }
 
-    // Close the tool_use block
+  /**
+   * Emits server_tool_use / *_tool_result blocks for the searches and
+   * fetches Gemini reported. Grounding metadata arrives with the last
+   * chunks, so these blocks follow the streamed text.
+   */
+  private emitServerToolBlocks(
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    encoder: TextEncoder
+  ): void {
+    const serverTools = convertServerToolMetadata(
+      {
+        groundingMetadata: this.groundingMetadata,
+        urlContextMetadata: this.urlContextMetadata,
+      },
+      this.webToolPolicy
+    );
+    this.serverToolUsage = serverTools.usage ?? undefined;
+    if (serverTools.blocks.length === 0) return;
+
+    if (!this.messageStarted) {
+      this.emitMessageStart({ candidates: [] }, controller, encoder);
+    }
+
+    for (const block of serverTools.blocks) {
+      this.emitServerToolBlock(block, controller, encoder);
+    }
+  }
+
+  /**
+   * Emits a single server tool block as a complete content block.
+   */
+  private emitServerToolBlock(
+    block: ServerToolBlock,
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    encoder: TextEncoder
+  ): void {
+    // Like tool_use, server_tool_use input is streamed as a JSON delta.
+    this.emitEvent(controller, encoder, "content_block_start", {
+      type: "content_block_start",
+      index: this.blockIndex,
+      content_block: block.type === "server_tool_use" ? { ...block, input: {} } : block,
+    });
+    if (block.type === "server_tool_use") {
+      this.emitEvent(controller, encoder, "content_block_delta", {
+        type: "content_block_delta",
+        index: this.blockIndex,
+        delta: { type: "input_json_delta", partial_json: JSON.stringify(block.input) },
+      });
+    }
     this.emitEvent(controller, encoder, "content_block_stop", {
       type: "content_block_stop",
       index: this.blockIndex,
     });
-
     this.blockIndex++;
-    this.currentBlockType = null;
   }
 
   // -------------------------------------------------------------------------
@@ -512,6 +778,17 @@ export class StreamConverter {
   ): void {
     if (this.currentBlockType === null) return;
 
+    // Release text held back for a stop sequence that did not follow
+    if (this.currentBlockType === "text" && this.stopMatcher) {
+      this.emitTextDelta(this.stopMatcher.flush(), controller, encoder);
+    }
+
+    // Complete the input of a streamed function call, even if cut short
+    if (this.toolArgs) {
+      this.emitInputJsonDelta(this.toolArgs.finish(), controller, encoder);
+      this.toolArgs = null;
+    }
+
     // For thinking blocks, emit signature_delta before closing
     if (this.currentBlockType === "thinking" && this.currentThinkingSignature) {
       this.emitEvent(controller, encoder, "content_block_delta", {
@@ -539,7 +816,8 @@ export class StreamConverter {
   // -------------------------------------------------------------------------
 
   /**
-   * Emits the message_start event.
+   * Emits the message_start event, followed by any prefetched web_fetch
+   * blocks.
    */
   private emitMessageStart(
     chunk: GeminiGenerateContentResponse,
@@ -557,7 +835,11 @@ export class StreamConverter {
         stop_reason: null,
         stop_sequence: null,
         usage: {
-          input_tokens: chunk.usageMetadata?.promptTokenCount ?? 0,
+          ...splitPromptUsage(
+            chunk.usageMetadata?.promptTokenCount ?? this.inputTokens,
+            chunk.usageMetadata?.cachedContentTokenCount,
+            this.cacheUsage
+          ),
           output_tokens: 0,
         },
       },
@@ -565,6 +847,26 @@ export class StreamConverter {
 
     // Emit initial ping
     this.emitEvent(controller, encoder, "ping", { type: "ping" });
+    this.messageStarted = true;
+
+    for (const block of this.prefetchedBlocks) {
+      this.emitServerToolBlock(block, controller, encoder);
+    }
+  }
+
+  /**
+   * Emits a keepalive `ping`, starting the message first if needed.
+   */
+  private emitPing(
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    encoder: TextEncoder
+  ): void {
+    if (!this.messageStarted) {
+      // message_start is followed by a ping of its own
+      this.emitMessageStart({ candidates: [] }, controller, encoder);
+      return;
+    }
+    this.emitEvent(controller, encoder, "ping", { type: "ping" });
   }
 
   /**
@@ -576,33 +878,48 @@ export class StreamConverter {
   ): void {
     // If no blocks were emitted, add an empty text block
     if (this.blockIndex === 0 && !this.messageStarted) {
-      this.emitMessageStart(
-        { candidates: [], usageMetadata: { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 } },
-        controller,
-        encoder
-      );
+      this.emitMessageStart({ candidates: [] }, controller, encoder);
       this.emitEvent(controller, encoder, "content_block_start", {
         type: "content_block_start",
-        index: 0,
+        index: this.blockIndex,
         content_block: { type: "text", text: "" },
       });
       this.emitEvent(controller, encoder, "content_block_stop", {
         type: "content_block_stop",
-        index: 0,
+        index: this.blockIndex,
       });
+      this.blockIndex++;
+    }
+
+    // Explain prompts and responses Gemini blocked or could not complete
+    const notice = this.blockReason
+      ? promptBlockNotice(this.blockReason)
+      : this.stopSequence === null
+        ? finishReasonNotice(this.finishReason)
+        : null;
+    if (notice) {
+      this.openTextBlock(controller, encoder);
+      this.emitTextDelta(notice, controller, encoder);
+      this.closeCurrentBlock(controller, encoder);
     }
 
-    // Determine stop reason: tool_use if any tool_use blocks were emitted
-    const stopReason = this.hasEmittedToolUse ? "tool_use" : "end_turn";
+    const stopReason = this.blockReason
+      ? "refusal"
+      : this.stopSequence !== null
+        ? "stop_sequence"
+        : toAnthropicStopReason(this.finishReason, this.hasEmittedToolUse);
 
     this.emitEvent(controller, encoder, "message_delta", {
       type: "message_delta",
       delta: {
         stop_reason: stopReason,
-        stop_sequence: null,
+        stop_sequence: this.stopSequence,
       },
+      // Gemini may only report the prompt's cached tokens in later chunks,
+      // so the final usage repeats the input split with the latest counts.
       usage: {
-        output_tokens: this.outputTokens,
+        ...this.currentUsage(),
+        ...(this.serverToolUsage ? { server_tool_use: this.serverToolUsage } : {}),
       },
     });
 
@@ -611,6 +928,14 @@ export class StreamConverter {
     });
   }
 
+  /** Token usage with the latest counts Gemini reported. */
+  private currentUsage(): AnthropicUsage {
+    return {
+      ...splitPromptUsage(this.inputTokens, this.cachedTokens, this.cacheUsage),
+      output_tokens: this.outputTokens,
+    };
+  }
+
   // -------------------------------------------------------------------------
   // SSE formatting
   // -------------------------------------------------------------------------
@@ -0,0 +1,328 @@
+/**
+ * Incremental parsers for Gemini's streaming response formats.
+ *
+ * `streamGenerateContent?alt=sse` answers with Server-Sent Events, one
+ * JSON chunk per event; without `alt=sse` the chunks arrive as the
+ * elements of one JSON array written out over time. Both parsers are
+ * fed decoded text as it arrives and call back once per complete chunk.
+ * Every character is looked at once, so parsing stays linear however
+ * the network splits the body, and malformed input raises an error
+ * instead of being skipped.
+ */
+
+import type { GeminiGenerateContentResponse } from "../models/gemini";
+import { UpstreamError } from "../utils/errors";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A dispatched Server-Sent Event. */
+export interface SseEvent {
+  /** Event type (`"message"` when the event names none). */
+  event: string;
+
+  /** Data lines of the event, joined with `\n`. */
+  data: string;
+
+  /** Last event ID seen on the stream. */
+  id: string;
+}
+
+/** Receives the Gemini chunks parsed from a stream. */
+export type ChunkHandler = (chunk: GeminiGenerateContentResponse) => void;
+
+/** A parser for one Gemini response stream. */
+export interface GeminiStreamParser {
+  /**
+   * Parses the next piece of the body.
+   *
+   * @throws {UpstreamError} If the stream is malformed.
+   */
+  push(text: string): void;
+
+  /**
+   * Signals the end of the body.
+   *
+   * @throws {UpstreamError} If the stream stopped in the middle of a chunk.
+   */
+  end(): void;
+}
+
+// ---------------------------------------------------------------------------
+// Server-Sent Events
+// ---------------------------------------------------------------------------
+
+/**
+ * Incremental Server-Sent Events parser following the WHATWG event
+ * stream rules: CR, LF and CRLF line endings (also split across
+ * pushes), a leading BOM, comments, multi-line `data`, and dispatch on
+ * blank lines. An event left incomplete at the end is not dispatched.
+ */
+export class SseParser {
+  private readonly onEvent: (event: SseEvent) => void;
+
+  /** Pieces of the line not yet terminated, joined once it is. */
+  private partialLine: string[] = [];
+
+  /** The previous push ended with CR, so a leading LF belongs to it. */
+  private afterCarriageReturn = false;
+
+  private started = false;
+  private eventType = "";
+  private data: string[] = [];
+  private hasData = false;
+  private lastEventId = "";
+
+  constructor(onEvent: (event: SseEvent) => void) {
+    this.onEvent = onEvent;
+  }
+
+  push(text: string): void {
+    let start = 0;
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) start = 1;
+    }
+    if (this.afterCarriageReturn && text[start] === "\n") start++;
+    this.afterCarriageReturn = false;
+
+    for (let i = start; i < text.length; i++) {
+      const ch = text[i];
+      if (ch !== "\n" && ch !== "\r") continue;
+
+      this.partialLine.push(text.substring(start, i));
+      this.processLine(this.partialLine.join(""));
+      this.partialLine = [];
+
+      if (ch === "\r") {
+        if (i + 1 === text.length) this.afterCarriageReturn = true;
+        else if (text[i + 1] === "\n") i++;
+      }
+      start = i + 1;
+    }
+
+    if (start < text.length) this.partialLine.push(text.substring(start));
+  }
+
+  /**
+   * Ends the stream. Returns whether an incomplete event (data without
+   * the blank line that dispatches it) was discarded.
+   */
+  end(): boolean {
+    if (this.partialLine.length > 0) {
+      this.processLine(this.partialLine.join(""));
+      this.partialLine = [];
+    }
+    const discarded = this.hasData;
+    this.resetEvent();
+    return discarded;
+  }
+
+  /** Interprets one line of the stream. */
+  private processLine(line: string): void {
+    if (line === "") {
+      this.dispatch();
+      return;
+    }
+    if (line.startsWith(":")) return;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.substring(0, colon);
+    let value = colon === -1 ? "" : line.substring(colon + 1);
+    if (value.startsWith(" ")) value = value.substring(1);
+
+    switch (field) {
+      case "event":
+        this.eventType = value;
+        break;
+      case "data":
+        this.data.push(value);
+        this.hasData = true;
+        break;
+      case "id":
+        if (!value.includes("\0")) this.lastEventId = value;
+        break;
+      // "retry" and unknown fields are ignored
+    }
+  }
+
+  private dispatch(): void {
+    if (this.hasData) {
+      this.onEvent({
+        event: this.eventType || "message",
+        data: this.data.join("\n"),
+        id: this.lastEventId,
+      });
+    }
+    this.resetEvent();
+  }
+
+  private resetEvent(): void {
+    this.eventType = "";
+    this.data = [];
+    this.hasData = false;
+  }
+}
+
+/**
+ * Parses an `alt=sse` stream: each event's data is one JSON chunk.
+ */
+export class GeminiSseStreamParser implements GeminiStreamParser {
+  private readonly sse: SseParser;
+
+  constructor(onChunk: ChunkHandler) {
+    this.sse = new SseParser((event) => onChunk(parseChunk(event.data)));
+  }
+
+  push(text: string): void {
+    this.sse.push(text);
+  }
+
+  end(): void {
+    if (this.sse.end()) {
+      throw new UpstreamError("Gemini stream ended in the middle of an event", 502);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// JSON array
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses a streamed JSON array of chunks (`[{…},\r\n{…}]`).
+ *
+ * A small state machine tracks string literals and nesting depth, so
+ * braces inside strings (e.g. generated code) never split an element.
+ * Element text is collected piecewise and parsed once it is complete.
+ */
+export class GeminiJsonArrayStreamParser implements GeminiStreamParser {
+  private readonly onChunk: ChunkHandler;
+
+  /** Where the parser is in the array's top-level syntax. */
+  private state: "start" | "element" | "separator" | "done" = "start";
+
+  /** Nesting depth inside the current element. */
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+
+  /** Text of the current element so far. */
+  private element: string[] = [];
+
+  constructor(onChunk: ChunkHandler) {
+    this.onChunk = onChunk;
+  }
+
+  push(text: string): void {
+    let elementStart = this.depth > 0 ? 0 : -1;
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (this.depth > 0) {
+        if (this.inString) {
+          if (this.escaped) this.escaped = false;
+          else if (ch === "\\") this.escaped = true;
+          else if (ch === '"') this.inString = false;
+        } else if (ch === '"') {
+          this.inString = true;
+        } else if (ch === "{" || ch === "[") {
+          this.depth++;
+        } else if (ch === "}" || ch === "]") {
+          this.depth--;
+          if (this.depth === 0) {
+            this.element.push(text.substring(elementStart, i + 1));
+            const json = this.element.join("");
+            this.element = [];
+            elementStart = -1;
+            this.state = "separator";
+            this.onChunk(parseChunk(json));
+          }
+        }
+        continue;
+      }
+
+      if (ch === " " || ch === "\t" || ch === "\n" || ch === "\r" || ch === "\uFEFF") continue;
+
+      if (this.state === "start" && ch === "[") {
+        this.state = "element";
+      } else if (this.state === "element" && ch === "{") {
+        this.depth = 1;
+        elementStart = i;
+      } else if (this.state === "separator" && ch === ",") {
+        this.state = "element";
+      } else if ((this.state === "separator" || this.state === "element") && ch === "]") {
+        this.state = "done";
+      } else {
+        throw new UpstreamError(
+          `Malformed Gemini stream: unexpected ${JSON.stringify(ch)} ${
+            this.state === "done" ? "after the end of the array" : "between chunks"
+          }`,
+          502
+        );
+      }
+    }
+
+    if (elementStart >= 0) this.element.push(text.substring(elementStart));
+  }
+
+  end(): void {
+    if (this.state !== "done" && this.state !== "start") {
+      throw new UpstreamError("Gemini stream ended before the end of the array", 502);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates a parser that detects the stream's format from its first
+ * non-whitespace character: `[` starts a JSON array, anything else is
+ * read as SSE.
+ */
+export function createStreamParser(onChunk: ChunkHandler): GeminiStreamParser {
+  let parser: GeminiStreamParser | null = null;
+  let leading = "";
+
+  return {
+    push(text) {
+      if (!parser) {
+        const trimmed = text.trimStart();
+        if (!trimmed) {
+          leading += text;
+          return;
+        }
+        parser = trimmed.startsWith("[")
+          ? new GeminiJsonArrayStreamParser(onChunk)
+          : new GeminiSseStreamParser(onChunk);
+        text = leading + text;
+        leading = "";
+      }
+      parser.push(text);
+    },
+    end() {
+      parser?.end();
+    },
+  };
+}
+
+/**
+ * Parses one chunk's JSON.
+ *
+ * @throws {UpstreamError} If it is not valid JSON.
+ */
+function parseChunk(json: string): GeminiGenerateContentResponse {
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    const excerpt = json.length > 200 ? `${json.substring(0, 200)}…` : json;
+    throw new UpstreamError(
+      `Malformed Gemini stream chunk (${error instanceof Error ? error.message : error}): ${excerpt}`,
+      502
+    );
+  }
+}
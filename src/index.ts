@@ -9,13 +9,39 @@
  *   bun run src/index.ts --api-key <KEY> [--port <PORT>] [--host <HOST>]
  *
  * Environment variables:
- *   GEMINI_API_KEY   - Google AI API key (alternative to --api-key)
+ *   GEMINI_API_KEY   - Google AI API key(s), comma-separated (alternative to --api-key)
+ *   GEMINI_API_KEYS_FILE - File with one API key per line
+ *   GEMINI_KEY_STRATEGY - Key rotation: round-robin | least-recently-limited
  *   PORT             - Server port (default: 8082)
  *   HOST             - Server host (default: 127.0.0.1)
+ *   BATCH_CONCURRENCY - Parallel batch requests (default: 4)
+ *   BATCH_DB_PATH    - Message batches database (default: ~/.gemini-claude-code/batches.sqlite)
+ *   WEB_FETCH_MODE   - How web_fetch is served: url_context | local (default: url_context)
+ *   MAX_RETRIES      - Retries for transient Gemini errors (default: 2)
+ *   GEMINI_CLAUDE_CODE_CONFIG - Config file path (alternative to --config)
+ *   GOOGLE_APPLICATION_CREDENTIALS - Service-account key for Vertex AI
+ *   GOOGLE_CLOUD_PROJECT / GOOGLE_CLOUD_LOCATION - Vertex AI project and region
+ *
+ * Settings can also come from a `gemini-claude-code.config.{json,toml}`
+ * file; flags and environment variables take precedence over it. The file
+ * is reloaded when it changes and on SIGHUP.
  */
 
-import { ProxyServer, type ServerOptions } from "./server/server";
+import { readFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { ProxyServer, type ServerOptions, type VertexSettings } from "./server/server";
 import { ServiceInstaller, type ServiceConfig } from "./commands/service";
+import type { WebFetchMode } from "./services/web-fetcher";
+import { KeyPool, type KeyRotationStrategy } from "./services/key-pool";
+import {
+  ConfigError,
+  ConfigWatcher,
+  loadConfigFile,
+  resolveVertexConfig,
+  type ConfigLogLevel,
+  type FileConfig,
+} from "./services/config-file";
 import { Logger, LogLevel } from "./utils/logger";
 
 // ---------------------------------------------------------------------------
@@ -38,12 +64,26 @@ const C = {
 // CLI argument parsing
 // ---------------------------------------------------------------------------
 
+/**
+ * Values given as flags or environment variables. Unset values are
+ * `undefined` so the config file and defaults can fill them in.
+ */
 interface CliArgs {
-  apiKey: string;
-  port: number;
-  host: string;
+  apiKey?: string;
+  apiKeysFile?: string;
+  keyStrategy?: string;
+  port?: number;
+  host?: string;
   verbose: boolean;
   model?: string;
+  batchConcurrency?: number;
+  batchDbPath?: string;
+  webFetchMode?: string;
+  maxRetries?: number;
+  config?: string;
+  vertexProject?: string;
+  vertexLocation?: string;
+  vertexCredentialsFile?: string;
   help: boolean;
   /** Subcommand: "service" */
   subcommand?: string;
@@ -51,12 +91,42 @@ interface CliArgs {
   subaction?: string;
 }
 
+/** Settings after merging flags, environment, config file and defaults. */
+interface Settings {
+  apiKeys: string[];
+  keyStrategy: string;
+  port: number;
+  host: string;
+  model?: string;
+  batchConcurrency: number;
+  batchDbPath: string;
+  webFetchMode: string;
+  maxRetries: number;
+  vertex?: VertexSettings;
+}
+
+/** Parses an integer flag or environment value (`undefined` if unset). */
+function parseInteger(value: string | undefined): number | undefined {
+  return value === undefined || value === "" ? undefined : parseInt(value, 10);
+}
+
 function parseArgs(args: string[]): CliArgs {
+  const env = process.env;
   const result: CliArgs = {
-    apiKey: process.env.GEMINI_API_KEY ?? "",
-    port: parseInt(process.env.PORT ?? "8082", 10),
-    host: process.env.HOST ?? "127.0.0.1",
+    apiKey: env.GEMINI_API_KEY || undefined,
+    apiKeysFile: env.GEMINI_API_KEYS_FILE,
+    keyStrategy: env.GEMINI_KEY_STRATEGY,
+    port: parseInteger(env.PORT),
+    host: env.HOST,
     verbose: false,
+    batchConcurrency: parseInteger(env.BATCH_CONCURRENCY),
+    batchDbPath: env.BATCH_DB_PATH,
+    webFetchMode: env.WEB_FETCH_MODE,
+    maxRetries: parseInteger(env.MAX_RETRIES),
+    config: env.GEMINI_CLAUDE_CODE_CONFIG,
+    vertexProject: env.GOOGLE_CLOUD_PROJECT || undefined,
+    vertexLocation: env.GOOGLE_CLOUD_LOCATION || undefined,
+    vertexCredentialsFile: env.GOOGLE_APPLICATION_CREDENTIALS || undefined,
     help: false,
   };
 
@@ -73,20 +143,42 @@ function parseArgs(args: string[]): CliArgs {
         break;
       case "--api-key":
       case "-k":
-        result.apiKey = args[++i] ?? "";
+        result.apiKey = args[++i];
+        break;
+      case "--api-keys-file":
+        result.apiKeysFile = args[++i];
+        break;
+      case "--key-strategy":
+        result.keyStrategy = args[++i] ?? result.keyStrategy;
         break;
       case "--port":
       case "-p":
-        result.port = parseInt(args[++i] ?? "8082", 10);
+        result.port = parseInteger(args[++i]);
         break;
       case "--host":
       case "-H":
-        result.host = args[++i] ?? "127.0.0.1";
+        result.host = args[++i];
         break;
       case "--model":
       case "-m":
         result.model = args[++i];
         break;
+      case "--batch-concurrency":
+        result.batchConcurrency = parseInteger(args[++i]);
+        break;
+      case "--batch-db":
+        result.batchDbPath = args[++i] ?? result.batchDbPath;
+        break;
+      case "--web-fetch-mode":
+        result.webFetchMode = args[++i] ?? result.webFetchMode;
+        break;
+      case "--max-retries":
+        result.maxRetries = parseInteger(args[++i]);
+        break;
+      case "--config":
+      case "-c":
+        result.config = args[++i];
+        break;
       case "--verbose":
       case "-v":
         result.verbose = true;
@@ -101,6 +193,109 @@ function parseArgs(args: string[]): CliArgs {
   return result;
 }
 
+const LOG_LEVELS: Record<ConfigLogLevel, LogLevel> = {
+  debug: LogLevel.DEBUG,
+  info: LogLevel.INFO,
+  warn: LogLevel.WARN,
+  error: LogLevel.ERROR,
+  silent: LogLevel.SILENT,
+};
+
+/**
+ * Merges flags and environment variables over the config file, then
+ * applies defaults. Keys given on the command line replace the file's.
+ *
+ * Vertex AI is set up when the file has a `vertex` section or a model
+ * is served from Vertex; the environment fills in what the file leaves out.
+ *
+ * @throws {Error} If the API keys file cannot be read, or Vertex AI is
+ *                 used without a service account.
+ */
+function resolveSettings(cli: CliArgs, file: FileConfig): Settings {
+  const apiKeys = cli.apiKey
+    ? KeyPool.parseKeys(cli.apiKey)
+    : [...(file.gemini?.apiKeys ?? [])];
+
+  const apiKeysFile = cli.apiKeysFile ?? file.gemini?.apiKeysFile;
+  if (apiKeysFile) {
+    try {
+      apiKeys.push(...KeyPool.parseKeys(readFileSync(apiKeysFile, "utf-8")));
+    } catch (error) {
+      throw new Error(
+        `Cannot read API keys file ${apiKeysFile}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  return {
+    apiKeys,
+    keyStrategy: cli.keyStrategy ?? file.gemini?.keyStrategy ?? "round-robin",
+    port: cli.port ?? file.server?.port ?? 8082,
+    host: cli.host ?? file.server?.host ?? "127.0.0.1",
+    model: cli.model ?? file.models?.default,
+    batchConcurrency: cli.batchConcurrency ?? file.batches?.concurrency ?? 4,
+    batchDbPath:
+      cli.batchDbPath ??
+      file.batches?.dbPath ??
+      join(homedir(), ".gemini-claude-code", "batches.sqlite"),
+    webFetchMode: cli.webFetchMode ?? file.webTools?.fetchMode ?? "url_context",
+    maxRetries: cli.maxRetries ?? file.gemini?.maxRetries ?? 2,
+    vertex: resolveVertexConfig(file, {
+      project: cli.vertexProject,
+      location: cli.vertexLocation,
+      credentialsFile: cli.vertexCredentialsFile,
+    }),
+  };
+}
+
+/** API keys are needed unless every model defaults to Vertex AI. */
+function needsApiKey(file: FileConfig): boolean {
+  return file.models?.defaultBackend !== "vertex";
+}
+
+/**
+ * Builds the server options from the merged settings and the parts of
+ * the config file that have no flag. A default model (--model or
+ * models.default) takes every claude-* name; explicit aliases and
+ * routing rules still win.
+ */
+function toServerOptions(settings: Settings, file: FileConfig): ServerOptions {
+  return {
+    port: settings.port,
+    host: settings.host,
+    apiKey: settings.apiKeys[0] ?? "",
+    apiKeys: settings.apiKeys,
+    keyStrategy: settings.keyStrategy as KeyRotationStrategy,
+    geminiBaseUrl: file.gemini?.baseUrl,
+    modelOverrides: file.models?.aliases,
+    models: {
+      defaultModel: settings.model,
+      routes: file.models?.routes,
+      models: file.models?.registry,
+      defaultThinkingLevel: file.thinking?.defaultLevel,
+      defaultBackend: file.models?.defaultBackend,
+    },
+    safetySettings: file.safetySettings,
+    batchDbPath: settings.batchDbPath,
+    batchConcurrency: settings.batchConcurrency,
+    webFetchMode: settings.webFetchMode as WebFetchMode,
+    webFetchTimeoutMs: file.webTools?.fetchTimeoutMs,
+    webFetchMaxBytes: file.webTools?.fetchMaxBytes,
+    contextCacheEnabled: file.caching?.enabled,
+    contextCacheMinTokens: file.caching?.minTokens,
+    streamPingIntervalMs: file.streaming?.pingIntervalMs,
+    streamStallTimeoutMs: file.streaming?.stallTimeoutMs,
+    maxRetries: settings.maxRetries,
+    vertex: settings.vertex,
+  };
+}
+
+/** `--verbose` wins over the config file's `logging.level`. */
+function resolveLogLevel(cli: CliArgs, file: FileConfig): LogLevel {
+  if (cli.verbose) return LogLevel.DEBUG;
+  return LOG_LEVELS[file.logging?.level ?? "info"];
+}
+
 // ---------------------------------------------------------------------------
 // Help text
 // ---------------------------------------------------------------------------
@@ -114,10 +309,17 @@ ${C.bold}USAGE${C.reset}
   ${C.dim}$${C.reset} GEMINI_API_KEY=<key> gemini-claude-code [options]
 
 ${C.bold}OPTIONS${C.reset}
-  ${C.yellow}--api-key, -k${C.reset}   ${C.dim}<string>${C.reset}  Google AI API key ${C.dim}(or GEMINI_API_KEY env var)${C.reset}
+  ${C.yellow}--api-key, -k${C.reset}   ${C.dim}<string>${C.reset}  Google AI API key(s), comma-separated ${C.dim}(or GEMINI_API_KEY env var)${C.reset}
+  ${C.yellow}--api-keys-file${C.reset} ${C.dim}<path>${C.reset}   File with one API key per line
+  ${C.yellow}--key-strategy${C.reset} ${C.dim}<name>${C.reset}    Key rotation: round-robin | least-recently-limited
   ${C.yellow}--port, -p${C.reset}      ${C.dim}<number>${C.reset}  Server port ${C.dim}(default: 8082)${C.reset}
   ${C.yellow}--host, -H${C.reset}      ${C.dim}<string>${C.reset}  Server host ${C.dim}(default: 127.0.0.1)${C.reset}
   ${C.yellow}--model, -m${C.reset}     ${C.dim}<string>${C.reset}  Default Gemini model override
+  ${C.yellow}--batch-concurrency${C.reset} ${C.dim}<n>${C.reset}  Parallel message batch requests ${C.dim}(default: 4)${C.reset}
+  ${C.yellow}--batch-db${C.reset}      ${C.dim}<path>${C.reset}    Message batches database ${C.dim}(default: ~/.gemini-claude-code/batches.sqlite)${C.reset}
+  ${C.yellow}--web-fetch-mode${C.reset} ${C.dim}<mode>${C.reset}  web_fetch engine: url_context | local ${C.dim}(default: url_context)${C.reset}
+  ${C.yellow}--max-retries${C.reset}   ${C.dim}<n>${C.reset}       Retries for 429/5xx Gemini errors ${C.dim}(default: 2)${C.reset}
+  ${C.yellow}--config, -c${C.reset}    ${C.dim}<path>${C.reset}    Config file ${C.dim}(default: ./gemini-claude-code.config.{json,toml})${C.reset}
   ${C.yellow}--verbose, -v${C.reset}             Enable debug logging
   ${C.yellow}--help, -h${C.reset}                Show this help message
 
@@ -194,15 +396,46 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
-  // Configure logger
+  // Configure logger (refined once the config file is loaded)
   const logger = Logger.getInstance();
-  if (cliArgs.verbose) {
-    logger.setLevel(LogLevel.DEBUG);
+  logger.setLevel(resolveLogLevel(cliArgs, {}));
+
+  // Load the config file; flags and environment variables win over it
+  let fileConfig: FileConfig = {};
+  let configPath: string | null = null;
+  try {
+    const loaded = loadConfigFile(cliArgs.config);
+    if (loaded) {
+      fileConfig = loaded.config;
+      configPath = loaded.path;
+      logger.info(`Loaded config file ${loaded.path}`);
+    }
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`${C.red}${C.bold}Error:${C.reset} ${error.message}\n`);
+      process.exit(1);
+    }
+    throw error;
+  }
+  logger.setLevel(resolveLogLevel(cliArgs, fileConfig));
+
+  let settings: Settings;
+  try {
+    settings = resolveSettings(cliArgs, fileConfig);
+  } catch (error) {
+    console.error(
+      `${C.red}${C.bold}Error:${C.reset} ${error instanceof Error ? error.message : error}\n`
+    );
+    process.exit(1);
   }
 
   // ── Handle 'service' subcommand ─────────────────────────────────────
   if (cliArgs.subcommand === "service") {
-    if (!cliArgs.apiKey && cliArgs.subaction === "install") {
+    if (
+      settings.apiKeys.length === 0 &&
+      needsApiKey(fileConfig) &&
+      cliArgs.subaction === "install"
+    ) {
       console.error(
         `${C.red}${C.bold}Error:${C.reset} Gemini API key is required for service install.`
       );
@@ -213,10 +446,11 @@ async function main(): Promise<void> {
     }
 
     const serviceConfig: ServiceConfig = {
-      apiKey: cliArgs.apiKey,
-      port: cliArgs.port,
-      host: cliArgs.host,
-      model: cliArgs.model,
+      apiKey: settings.apiKeys.join(","),
+      configPath: configPath ?? undefined,
+      port: settings.port,
+      host: settings.host,
+      model: settings.model,
       verbose: cliArgs.verbose,
       projectDir: process.cwd(),
     };
@@ -245,8 +479,10 @@ async function main(): Promise<void> {
     return;
   }
 
+  const { apiKeys } = settings;
+
   // Validate API key
-  if (!cliArgs.apiKey) {
+  if (apiKeys.length === 0 && needsApiKey(fileConfig)) {
     console.error(
       `${C.red}${C.bold}Error:${C.reset} Gemini API key is required.`
     );
@@ -257,32 +493,39 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
-  // Build model overrides
-  const modelOverrides: Record<string, string> = {};
-  if (cliArgs.model) {
-    // When a default model is provided, map common Claude model names to it
-    const claudeModels = [
-      "claude-sonnet-4-20250514",
-      "claude-opus-4-20250414",
-      "claude-3-5-sonnet-20241022",
-      "claude-3-5-haiku-20241022",
-      "claude-sonnet-4-6",
-      "claude-opus-4-6",
-    ];
-    for (const name of claudeModels) {
-      modelOverrides[name] = cliArgs.model;
-    }
+  // Validate key rotation strategy
+  if (settings.keyStrategy !== "round-robin" && settings.keyStrategy !== "least-recently-limited") {
+    console.error(
+      `${C.red}${C.bold}Error:${C.reset} Unknown key strategy: ${settings.keyStrategy}`
+    );
+    console.error(
+      `  Available strategies: ${C.green}round-robin${C.reset}, ${C.green}least-recently-limited${C.reset}\n`
+    );
+    process.exit(1);
   }
 
-  // Create and start server
-  const serverOptions: ServerOptions = {
-    port: cliArgs.port,
-    host: cliArgs.host,
-    apiKey: cliArgs.apiKey,
-    modelOverrides: Object.keys(modelOverrides).length > 0 ? modelOverrides : undefined,
-  };
+  // Validate web fetch mode
+  if (settings.webFetchMode !== "url_context" && settings.webFetchMode !== "local") {
+    console.error(
+      `${C.red}${C.bold}Error:${C.reset} Unknown web fetch mode: ${settings.webFetchMode}`
+    );
+    console.error(
+      `  Available modes: ${C.green}url_context${C.reset}, ${C.green}local${C.reset}\n`
+    );
+    process.exit(1);
+  }
 
-  const server = new ProxyServer(serverOptions);
+  // Create and start server
+  const serverOptions = toServerOptions(settings, fileConfig);
+  let server: ProxyServer;
+  try {
+    server = new ProxyServer(serverOptions);
+  } catch (error) {
+    console.error(
+      `${C.red}${C.bold}Error:${C.reset} ${error instanceof Error ? error.message : error}\n`
+    );
+    process.exit(1);
+  }
 
   try {
     server.start();
@@ -299,14 +542,44 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  // Hot reload: config and API keys file changes, and SIGHUP. New requests
+  // use the new config, requests in flight finish with the old one.
+  const watcher = configPath
+    ? new ConfigWatcher(
+        configPath,
+        fileConfig,
+        (next) => {
+          const nextSettings = resolveSettings(cliArgs, next);
+          if (nextSettings.apiKeys.length === 0 && needsApiKey(next)) {
+            throw new Error("No Gemini API key configured");
+          }
+          server.reload(toServerOptions(nextSettings, next));
+          logger.setLevel(resolveLogLevel(cliArgs, next));
+        },
+        { apiKeysFile: cliArgs.apiKeysFile }
+      )
+    : null;
+  watcher?.start();
+
+  process.on("SIGHUP", () => {
+    if (!watcher) {
+      logger.warn("SIGHUP received but no config file is in use, nothing to reload");
+      return;
+    }
+    logger.info("SIGHUP received, reloading config");
+    watcher.reload({ force: true });
+  });
+
   // Graceful shutdown
   process.on("SIGINT", () => {
     console.log(`\n${C.dim}Shutting down...${C.reset}`);
+    watcher?.stop();
     server.stop();
     process.exit(0);
   });
 
   process.on("SIGTERM", () => {
+    watcher?.stop();
     server.stop();
     process.exit(0);
   });
@@ -3,10 +3,11 @@
  *
  * These types represent the full request/response contract for the
  * Anthropic Messages API (`POST /v1/messages`), including streaming
- * Server-Sent Events and extended thinking support.
+ * Server-Sent Events, extended thinking support and Message Batches.
  *
  * @see https://docs.anthropic.com/en/api/messages
  * @see https://docs.anthropic.com/en/api/messages-streaming
+ * @see https://docs.anthropic.com/en/api/creating-message-batches
  */
 
 // ---------------------------------------------------------------------------
@@ -17,8 +18,21 @@
 export interface AnthropicTextBlock {
   type: "text";
   text: string;
+  citations?: AnthropicTextCitation[] | null;
 }
 
+/** A citation pointing at a web search result. */
+export interface AnthropicWebSearchResultLocation {
+  type: "web_search_result_location";
+  url: string;
+  title: string | null;
+  encrypted_index: string;
+  cited_text: string;
+}
+
+/** Union of citation types attached to text blocks. */
+export type AnthropicTextCitation = AnthropicWebSearchResultLocation;
+
 /** A text content block parameter (request-side, supports cache_control). */
 export interface AnthropicTextBlockParam {
   type: "text";
@@ -46,6 +60,46 @@ export interface AnthropicUrlImageSource {
   url: string;
 }
 
+/** A document content block parameter (PDF, plain text or custom content). */
+export interface AnthropicDocumentBlockParam {
+  type: "document";
+  source:
+    | AnthropicBase64PdfSource
+    | AnthropicPlainTextSource
+    | AnthropicContentBlockSource
+    | AnthropicUrlPdfSource;
+  title?: string;
+  context?: string;
+  citations?: { enabled?: boolean };
+  cache_control?: AnthropicCacheControl;
+}
+
+/** Base64-encoded PDF document source. */
+export interface AnthropicBase64PdfSource {
+  type: "base64";
+  media_type: "application/pdf";
+  data: string;
+}
+
+/** Plain-text document source. */
+export interface AnthropicPlainTextSource {
+  type: "text";
+  media_type: "text/plain";
+  data: string;
+}
+
+/** Custom-content document source (pre-chunked text and images). */
+export interface AnthropicContentBlockSource {
+  type: "content";
+  content: string | Array<AnthropicTextBlockParam | AnthropicImageBlockParam>;
+}
+
+/** URL-based PDF document source. */
+export interface AnthropicUrlPdfSource {
+  type: "url";
+  url: string;
+}
+
 /** A tool-use content block (model output). */
 export interface AnthropicToolUseBlock {
   type: "tool_use";
@@ -76,6 +130,75 @@ export interface AnthropicRedactedThinkingBlock {
   data: string;
 }
 
+/** A server-side tool invocation (web_search / web_fetch) run by the API. */
+export interface AnthropicServerToolUseBlock {
+  type: "server_tool_use";
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/** A single web search result. */
+export interface AnthropicWebSearchResult {
+  type: "web_search_result";
+  url: string;
+  title: string;
+  encrypted_content: string;
+  page_age?: string | null;
+}
+
+/** Error payload of a failed web search. */
+export interface AnthropicWebSearchToolResultError {
+  type: "web_search_tool_result_error";
+  error_code:
+    | "invalid_tool_input"
+    | "unavailable"
+    | "max_uses_exceeded"
+    | "too_many_requests"
+    | "query_too_long";
+}
+
+/** The result of a web_search server tool call. */
+export interface AnthropicWebSearchToolResultBlock {
+  type: "web_search_tool_result";
+  tool_use_id: string;
+  content: AnthropicWebSearchResult[] | AnthropicWebSearchToolResultError;
+}
+
+/** Error payload of a failed web fetch. */
+export interface AnthropicWebFetchToolResultError {
+  type: "web_fetch_tool_result_error";
+  error_code:
+    | "invalid_tool_input"
+    | "url_too_long"
+    | "url_not_allowed"
+    | "url_not_accessible"
+    | "unsupported_content_type"
+    | "too_many_requests"
+    | "max_uses_exceeded"
+    | "unavailable";
+}
+
+/** A fetched page, wrapped as a document. */
+export interface AnthropicWebFetchResult {
+  type: "web_fetch_result";
+  url: string;
+  content: {
+    type: "document";
+    source: AnthropicPlainTextSource | AnthropicBase64PdfSource;
+    title: string;
+    citations: { enabled: boolean };
+  };
+  retrieved_at: string;
+}
+
+/** The result of a web_fetch server tool call. */
+export interface AnthropicWebFetchToolResultBlock {
+  type: "web_fetch_tool_result";
+  tool_use_id: string;
+  content: AnthropicWebFetchResult | AnthropicWebFetchToolResultError;
+}
+
 /** Cache control configuration. */
 export interface AnthropicCacheControl {
   type: "ephemeral";
@@ -86,15 +209,22 @@ export interface AnthropicCacheControl {
 export type AnthropicContentBlockParam =
   | AnthropicTextBlockParam
   | AnthropicImageBlockParam
+  | AnthropicDocumentBlockParam
   | AnthropicToolUseBlock
-  | AnthropicToolResultBlockParam;
+  | AnthropicToolResultBlockParam
+  | AnthropicServerToolUseBlock
+  | AnthropicWebSearchToolResultBlock
+  | AnthropicWebFetchToolResultBlock;
 
 /** Union of all content block types in a response message. */
 export type AnthropicContentBlock =
   | AnthropicTextBlock
   | AnthropicToolUseBlock
   | AnthropicThinkingBlock
-  | AnthropicRedactedThinkingBlock;
+  | AnthropicRedactedThinkingBlock
+  | AnthropicServerToolUseBlock
+  | AnthropicWebSearchToolResultBlock
+  | AnthropicWebFetchToolResultBlock;
 
 // ---------------------------------------------------------------------------
 // Messages
@@ -156,16 +286,46 @@ export interface AnthropicMessagesRequest {
   metadata?: { user_id?: string };
 }
 
+/**
+ * The body of a `POST /v1/messages/count_tokens` request.
+ *
+ * Same shape as a Messages request, minus the generation-only fields.
+ */
+export type AnthropicCountTokensRequest = Omit<
+  AnthropicMessagesRequest,
+  "max_tokens" | "stream" | "temperature" | "top_p" | "top_k" | "stop_sequences" | "metadata"
+>;
+
+/** The response from `POST /v1/messages/count_tokens`. */
+export interface AnthropicCountTokensResponse {
+  input_tokens: number;
+}
+
 // ---------------------------------------------------------------------------
 // Response (non-streaming)
 // ---------------------------------------------------------------------------
 
+/** Why the model stopped generating. */
+export type AnthropicStopReason =
+  | "end_turn"
+  | "max_tokens"
+  | "stop_sequence"
+  | "tool_use"
+  | "refusal";
+
 /** Token usage information. */
 export interface AnthropicUsage {
   input_tokens: number;
   output_tokens: number;
   cache_creation_input_tokens?: number;
   cache_read_input_tokens?: number;
+  server_tool_use?: AnthropicServerToolUsage;
+}
+
+/** Number of server-side tool calls made while generating a message. */
+export interface AnthropicServerToolUsage {
+  web_search_requests: number;
+  web_fetch_requests?: number;
 }
 
 /** The response from `POST /v1/messages` (non-streaming). */
@@ -175,7 +335,7 @@ export interface AnthropicMessagesResponse {
   role: "assistant";
   content: AnthropicContentBlock[];
   model: string;
-  stop_reason: "end_turn" | "max_tokens" | "stop_sequence" | "tool_use" | null;
+  stop_reason: AnthropicStopReason | null;
   stop_sequence: string | null;
   usage: AnthropicUsage;
 }
@@ -221,12 +381,19 @@ export interface AnthropicSignatureDelta {
   signature: string;
 }
 
+/** Citation delta for a text content block. */
+export interface AnthropicCitationsDelta {
+  type: "citations_delta";
+  citation: AnthropicTextCitation;
+}
+
 /** Union of all delta types. */
 export type AnthropicDelta =
   | AnthropicTextDelta
   | AnthropicInputJsonDelta
   | AnthropicThinkingDelta
-  | AnthropicSignatureDelta;
+  | AnthropicSignatureDelta
+  | AnthropicCitationsDelta;
 
 /** Sent for each incremental update to a content block. */
 export interface AnthropicContentBlockDeltaEvent {
@@ -245,10 +412,13 @@ export interface AnthropicContentBlockStopEvent {
 export interface AnthropicMessageDeltaEvent {
   type: "message_delta";
   delta: {
-    stop_reason: "end_turn" | "max_tokens" | "stop_sequence" | "tool_use" | null;
+    stop_reason: AnthropicStopReason | null;
     stop_sequence: string | null;
   };
-  usage: { output_tokens: number };
+  usage: {
+    output_tokens: number;
+    server_tool_use?: AnthropicServerToolUsage;
+  };
 }
 
 /** Sent when the message stream is complete. */
@@ -270,3 +440,84 @@ export type AnthropicStreamEvent =
   | AnthropicMessageDeltaEvent
   | AnthropicMessageStopEvent
   | AnthropicPingEvent;
+
+// ---------------------------------------------------------------------------
+// Message Batches
+// ---------------------------------------------------------------------------
+
+/** A single request inside a `POST /v1/messages/batches` body. */
+export interface AnthropicBatchRequest {
+  custom_id: string;
+  params: AnthropicMessagesRequest;
+}
+
+/** The body of a `POST /v1/messages/batches` request. */
+export interface AnthropicCreateBatchRequest {
+  requests: AnthropicBatchRequest[];
+}
+
+/** Processing status of a message batch. */
+export type AnthropicBatchProcessingStatus = "in_progress" | "canceling" | "ended";
+
+/** Per-status request tallies for a message batch. */
+export interface AnthropicBatchRequestCounts {
+  processing: number;
+  succeeded: number;
+  errored: number;
+  canceled: number;
+  expired: number;
+}
+
+/** A message batch object. */
+export interface AnthropicMessageBatch {
+  id: string;
+  type: "message_batch";
+  processing_status: AnthropicBatchProcessingStatus;
+  request_counts: AnthropicBatchRequestCounts;
+  ended_at: string | null;
+  created_at: string;
+  expires_at: string;
+  archived_at: string | null;
+  cancel_initiated_at: string | null;
+  results_url: string | null;
+}
+
+/** The outcome of a single batch request. */
+export type AnthropicBatchResult =
+  | { type: "succeeded"; message: AnthropicMessagesResponse }
+  | {
+      type: "errored";
+      error: { type: "error"; error: { type: string; message: string } };
+    }
+  | { type: "canceled" }
+  | { type: "expired" };
+
+/** A single line of the batch results JSONL file. */
+export interface AnthropicBatchResultLine {
+  custom_id: string;
+  result: AnthropicBatchResult;
+}
+
+// ---------------------------------------------------------------------------
+// Models
+// ---------------------------------------------------------------------------
+
+/** A model object returned by `GET /v1/models`. */
+export interface AnthropicModelInfo {
+  type: "model";
+  id: string;
+  display_name: string;
+  created_at: string;
+}
+
+// ---------------------------------------------------------------------------
+// Pagination
+// ---------------------------------------------------------------------------
+
+/** A paginated list response (used by batches and models). */
+export interface AnthropicListResponse<T> {
+  data: T[];
+  has_more: boolean;
+  first_id: string | null;
+  last_id: string | null;
+}
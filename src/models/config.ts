@@ -2,9 +2,13 @@
  * Model configuration and name mapping between Anthropic and Gemini APIs.
  *
  * This module is responsible for:
- * - Mapping Anthropic model identifiers to their Gemini equivalents.
+ * - Mapping Anthropic model identifiers to their Gemini equivalents,
+ *   through exact aliases and ordered glob/regex routing rules.
  * - Determining capabilities of each model (thinking support, etc.).
+ * - Declaring fallback chains used when a model is overloaded or rate limited.
+ * - Choosing the backend (Gemini API or Vertex AI) each model is served from.
  * - Providing sensible defaults for generation parameters.
+ * - Describing models (display name, release date) for `/v1/models`.
  */
 
 // ---------------------------------------------------------------------------
@@ -22,11 +26,145 @@ export interface ModelCapabilities {
   /** Whether the model is part of the Gemini 3 family (requires strict thought signatures). */
   isGemini3: boolean;
 
-  /** Default thinking level for Gemini 3 models. */
-  defaultThinkingLevel?: "MINIMAL" | "LOW" | "MEDIUM" | "HIGH";
+  /**
+   * Default thinking level for Gemini 3 models. On other thinking models
+   * it is only set by a route and sent as a thinking budget.
+   */
+  defaultThinkingLevel?: ThinkingLevel;
 
   /** Maximum output tokens the model supports. */
   maxOutputTokens: number;
+
+  /**
+   * Models to try, in order, when this one answers with a retryable error
+   * (429/5xx) after the client's own retries. Entries are resolved like
+   * any requested model name.
+   */
+  fallbacks?: string[];
+
+  /** Where the model is served from (defaults to the registry's default backend). */
+  backend?: GeminiBackend;
+
+  /**
+   * Whether streamed responses can deliver function-call arguments in
+   * parts (`streamFunctionCallArguments`). Inferred for Gemini 3 models
+   * on Vertex AI.
+   */
+  streamsFunctionCallArguments?: boolean;
+}
+
+/**
+ * A model declared in the config file's registry. Only `geminiModel`
+ * is needed for most models; the rest is inferred like for unknown
+ * model names.
+ */
+export interface ModelDefinition {
+  /** The Gemini model identifier (defaults to the registry key). */
+  geminiModel?: string;
+  supportsThinking?: boolean;
+  isGemini3?: boolean;
+  defaultThinkingLevel?: ThinkingLevel;
+  maxOutputTokens?: number;
+  fallbacks?: string[];
+  backend?: GeminiBackend;
+  streamsFunctionCallArguments?: boolean;
+
+  /** Name reported by `/v1/models`. */
+  displayName?: string;
+}
+
+/** Gemini 3 thinking levels. */
+export type ThinkingLevel = "MINIMAL" | "LOW" | "MEDIUM" | "HIGH";
+
+/** Thinking budget standing in for a thinking level on Gemini 2.5 models. */
+export const THINKING_LEVEL_BUDGETS: Record<ThinkingLevel, number> = {
+  MINIMAL: 0,
+  LOW: 1024,
+  MEDIUM: 8192,
+  HIGH: 24576,
+};
+
+/** Smallest thinking budget Gemini 2.5 Pro accepts; it cannot turn thinking off. */
+const MIN_PRO_THINKING_BUDGET = 128;
+
+/**
+ * The smallest thinking budget a Gemini 2.5 model accepts: 0 (thinking
+ * off) except on Pro models.
+ */
+export function minThinkingBudget(capabilities: ModelCapabilities): number {
+  return /-pro(-|$)/.test(capabilities.geminiModel) ? MIN_PRO_THINKING_BUDGET : 0;
+}
+
+/**
+ * The thinking budget for a thinking level on a Gemini 2.5 model, raised
+ * to the smallest budget the model accepts.
+ */
+export function thinkingLevelBudget(
+  level: ThinkingLevel,
+  capabilities: ModelCapabilities
+): number {
+  return Math.max(THINKING_LEVEL_BUDGETS[level], minThinkingBudget(capabilities));
+}
+
+/**
+ * The API a model is served from: the Gemini API (`?key=` auth) or
+ * Vertex AI (service-account OAuth).
+ */
+export type GeminiBackend = "gemini" | "vertex";
+
+/**
+ * A routing rule: model names matching `match` go to `model`.
+ *
+ * `match` is a glob (`*` any characters, `?` one character) or, when
+ * wrapped in slashes, a regular expression (`/^claude-(opus|sonnet)-/`).
+ */
+export interface ModelRoute {
+  match: string;
+
+  /** Gemini model or registry alias to route to. */
+  model: string;
+
+  /**
+   * Thinking level to use instead of the model's default. Other thinking
+   * models get the matching budget from `THINKING_LEVEL_BUDGETS`.
+   */
+  thinkingLevel?: ThinkingLevel;
+}
+
+/** Registry customisations, usually read from the config file. */
+export interface ModelRegistryOptions {
+  /**
+   * Gemini model (or alias) every `claude-*` name resolves to, unless
+   * the name has an explicit override or matches a route.
+   */
+  defaultModel?: string;
+
+  /** Routing rules, tried in order after exact overrides. */
+  routes?: ModelRoute[];
+
+  /** Additional registry entries, keyed by alias (replacing built-ins). */
+  models?: Record<string, ModelDefinition>;
+
+  /** Thinking level for Gemini 3 models that don't declare their own. */
+  defaultThinkingLevel?: ThinkingLevel;
+
+  /** Backend for models that don't declare their own (default `"gemini"`). */
+  defaultBackend?: GeminiBackend;
+}
+
+/** Descriptive information about a model alias, used by `/v1/models`. */
+export interface ModelInfo {
+  /** The alias the client asked about (e.g. "gemini-3.0-flash"). */
+  id: string;
+
+  /** Human-readable name of the Gemini model the alias resolves to. */
+  displayName: string;
+
+  /** RFC 3339 release date of the Gemini model (stable across calls). */
+  createdAt: string;
+
+  /** The resolved capabilities. */
+  capabilities: ModelCapabilities;
 }
 
 // ---------------------------------------------------------------------------
@@ -49,6 +187,7 @@ const GEMINI_3_FLASH_CAPS: ModelCapabilities = {
   isGemini3: true,
   defaultThinkingLevel: "HIGH",
   maxOutputTokens: 65_536,
+  fallbacks: ["gemini-flash-latest"],
 };
 
 const GEMINI_31_PRO_CAPS: ModelCapabilities = {
@@ -57,6 +196,7 @@ const GEMINI_31_PRO_CAPS: ModelCapabilities = {
   isGemini3: true,
   defaultThinkingLevel: "HIGH",
   maxOutputTokens: 65_536,
+  fallbacks: ["gemini-3-flash-preview", "gemini-flash-latest"],
 };
 
 // ---------------------------------------------------------------------------
@@ -97,6 +237,14 @@ const MODEL_REGISTRY: Record<string, ModelCapabilities> = {
     maxOutputTokens: 65_536,
   },
 
+  // ── Gemini Flash-Lite ───────────────────────────────────────────────────
+  "gemini-flash-lite-latest": {
+    geminiModel: "gemini-flash-lite-latest",
+    supportsThinking: true,
+    isGemini3: false,
+    maxOutputTokens: 65_536,
+  },
+
   // ── Gemini 2.0 Flash ────────────────────────────────────────────────────
   "gemini-2.0-flash": {
     geminiModel: "gemini-2.0-flash",
@@ -105,22 +253,49 @@ const MODEL_REGISTRY: Record<string, ModelCapabilities> = {
     maxOutputTokens: 8_192,
   },
 
-  // ── Claude model aliases → Gemini 3 Flash (default) ─────────────────────
-  // These are sent by Claude Code, Teams, Sub-agents, etc.
-  "claude-sonnet-4-6": GEMINI_3_FLASH_CAPS,
-  "claude-sonnet-4-20250514": GEMINI_3_FLASH_CAPS,
-  "claude-opus-4-6": GEMINI_3_FLASH_CAPS,
-  "claude-opus-4-20250414": GEMINI_3_FLASH_CAPS,
-  "claude-3-5-sonnet-20241022": GEMINI_3_FLASH_CAPS,
-  "claude-3-5-sonnet-latest": GEMINI_3_FLASH_CAPS,
-  "claude-3-5-haiku-20241022": GEMINI_3_FLASH_CAPS,
-  "claude-3-5-haiku-latest": GEMINI_3_FLASH_CAPS,
-  "claude-haiku-4-5-20251001": GEMINI_3_FLASH_CAPS,
-  "claude-3-opus-20240229": GEMINI_3_FLASH_CAPS,
-  "claude-3-sonnet-20240229": GEMINI_3_FLASH_CAPS,
-  "claude-3-haiku-20240307": GEMINI_3_FLASH_CAPS,
+  // Claude model names (sent by Claude Code, Teams, Sub-agents, etc.) are
+  // not listed here: they go through the routing rules and otherwise
+  // fall back to DEFAULT_GEMINI_MODEL.
+};
+
+// ---------------------------------------------------------------------------
+// Model metadata
+// ---------------------------------------------------------------------------
+
+/**
+ * Display metadata keyed by Gemini model identifier, so every alias of
+ * the same Gemini model reports the same name and release date.
+ */
+const MODEL_METADATA: Record<string, { displayName: string; createdAt: string }> = {
+  "gemini-3.1-pro-preview": {
+    displayName: "Gemini 3.1 Pro (Preview)",
+    createdAt: "2026-02-19T00:00:00Z",
+  },
+  "gemini-3-flash-preview": {
+    displayName: "Gemini 3 Flash (Preview)",
+    createdAt: "2025-12-17T00:00:00Z",
+  },
+  "gemini-2.5-pro-preview-06-05": {
+    displayName: "Gemini 2.5 Pro (Preview 06-05)",
+    createdAt: "2025-06-05T00:00:00Z",
+  },
+  "gemini-flash-latest": {
+    displayName: "Gemini Flash (Latest)",
+    createdAt: "2025-09-25T00:00:00Z",
+  },
+  "gemini-flash-lite-latest": {
+    displayName: "Gemini Flash-Lite (Latest)",
+    createdAt: "2025-09-25T00:00:00Z",
+  },
+  "gemini-2.0-flash": {
+    displayName: "Gemini 2.0 Flash",
+    createdAt: "2025-02-05T00:00:00Z",
+  },
 };
 
+/** Release date reported for models without known metadata. */
+const UNKNOWN_MODEL_CREATED_AT = "1970-01-01T00:00:00Z";
+
 // ---------------------------------------------------------------------------
 // ModelConfigService
 // ---------------------------------------------------------------------------
@@ -129,13 +304,58 @@ const MODEL_REGISTRY: Record<string, ModelCapabilities> = {
  * Service class for resolving and configuring model mappings.
  *
  * Supports runtime overrides so users can route any Anthropic model name
- * to a specific Gemini model via CLI flags or environment variables.
+ * to a specific Gemini model via CLI flags, environment variables or the
+ * config file, which can also extend the built-in registry.
  */
 export class ModelConfigService {
   private readonly overrides: Map<string, string>;
+  private readonly registry: Record<string, ModelCapabilities>;
+  private readonly metadata: Record<string, { displayName: string; createdAt: string }>;
+  private readonly defaultModel: string | undefined;
+  private readonly defaultThinkingLevel: ThinkingLevel;
+  private readonly defaultBackend: GeminiBackend;
+  private readonly routes: Array<ModelRoute & { pattern: RegExp }>;
 
-  constructor(overrides?: Record<string, string>) {
+  constructor(overrides?: Record<string, string>, options: ModelRegistryOptions = {}) {
     this.overrides = new Map(Object.entries(overrides ?? {}));
+    this.defaultModel = options.defaultModel;
+    this.defaultThinkingLevel = options.defaultThinkingLevel ?? "HIGH";
+    this.defaultBackend = options.defaultBackend ?? "gemini";
+    this.routes = (options.routes ?? []).map((route) => ({
+      ...route,
+      pattern: ModelConfigService.compilePattern(route.match),
+    }));
+    this.registry = {};
+    this.metadata = { ...MODEL_METADATA };
+
+    for (const [alias, capabilities] of Object.entries(MODEL_REGISTRY)) {
+      this.registry[alias] =
+        options.defaultThinkingLevel && capabilities.isGemini3
+          ? { ...capabilities, defaultThinkingLevel: options.defaultThinkingLevel }
+          : capabilities;
+    }
+
+    for (const [alias, definition] of Object.entries(options.models ?? {})) {
+      const capabilities = this.fromDefinition(alias, definition);
+      this.registry[alias] = capabilities;
+      if (definition.displayName) {
+        this.metadata[capabilities.geminiModel] = {
+          displayName: definition.displayName,
+          createdAt:
+            this.metadata[capabilities.geminiModel]?.createdAt ?? UNKNOWN_MODEL_CREATED_AT,
+        };
+      }
+    }
+
+    // Argument streaming depends on the backend, known once all entries are in
+    for (const [alias, capabilities] of Object.entries(this.registry)) {
+      if (
+        capabilities.streamsFunctionCallArguments === undefined &&
+        this.infersArgumentStreaming(capabilities)
+      ) {
+        this.registry[alias] = { ...capabilities, streamsFunctionCallArguments: true };
+      }
+    }
   }
 
   /**
@@ -143,10 +363,12 @@ export class ModelConfigService {
    * Gemini model capabilities.
    *
    * Resolution order:
-   * 1. Explicit CLI/env overrides.
-   * 2. Direct match in the registry.
-   * 3. Claude model prefix detection (`claude-*` → default Gemini).
-   * 4. Fallback: treat the name as a literal Gemini model identifier.
+   * 1. Explicit overrides (config file aliases).
+   * 2. The first matching routing rule.
+   * 3. The configured default model, for `claude-*` names.
+   * 4. Direct match in the registry.
+   * 5. Claude model prefix detection (`claude-*` → default Gemini).
+   * 6. Fallback: treat the name as a literal Gemini model identifier.
    *
    * @param requestedModel - The model name from the Anthropic request.
    * @returns The resolved capabilities.
@@ -155,36 +377,180 @@ export class ModelConfigService {
     // 1. Check overrides
     const overriddenGeminiModel = this.overrides.get(requestedModel);
     if (overriddenGeminiModel) {
-      // Try to find it in registry for capabilities
-      const found = Object.values(MODEL_REGISTRY).find(
-        (c) => c.geminiModel === overriddenGeminiModel
-      );
-      if (found) return found;
-
-      // Fallback: construct a basic capabilities object
-      return this.buildFallback(overriddenGeminiModel);
+      return this.resolveTarget(overriddenGeminiModel);
+    }
+
+    // 2. Routing rules, first match wins
+    const route = this.routes.find((r) => r.pattern.test(requestedModel));
+    if (route) {
+      const target = this.resolveTarget(route.model);
+      return route.thinkingLevel && target.supportsThinking
+        ? { ...target, defaultThinkingLevel: route.thinkingLevel }
+        : target;
+    }
+
+    // 3. Configured default model for Claude names
+    if (this.defaultModel && requestedModel.startsWith("claude-")) {
+      return this.resolveTarget(this.defaultModel);
     }
 
-    // 2. Direct registry match
-    const registered = MODEL_REGISTRY[requestedModel];
+    // 4. Direct registry match
+    const registered = this.registry[requestedModel];
     if (registered) return registered;
 
-    // 3. Claude model prefix detection — any `claude-*` name gets mapped
+    // 5. Claude model prefix detection — any `claude-*` name gets mapped
     //    to the default Gemini model to prevent 404 errors
     if (requestedModel.startsWith("claude-")) {
-      return this.buildFallback(DEFAULT_GEMINI_MODEL);
+      return this.resolveTarget(DEFAULT_GEMINI_MODEL);
     }
 
-    // 4. Fallback – treat as literal Gemini model name
+    // 6. Fallback – treat as literal Gemini model name
     return this.buildFallback(requestedModel);
   }
 
+  /**
+   * Compiles a routing pattern: `/regex/` (optionally with flags, e.g.
+   * `/^claude-opus/i`) or a glob where `*` matches any characters and
+   * `?` a single one. Globs must match the whole name.
+   *
+   * @throws {SyntaxError} If the regular expression is invalid.
+   */
+  static compilePattern(pattern: string): RegExp {
+    const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+    // Stateful flags would make test() skip matches on later calls
+    if (regex) return new RegExp(regex[1], regex[2].replace(/[gy]/g, ""));
+
+    const source = pattern
+      .split("")
+      .map((ch) =>
+        ch === "*" ? ".*" : ch === "?" ? "." : ch.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+      )
+      .join("");
+    return new RegExp(`^${source}$`);
+  }
+
+  /**
+   * Resolves a model name to its fallback chain: the primary model first,
+   * followed by its declared fallbacks. Fallbacks are not followed
+   * recursively and a Gemini model appears at most once.
+   *
+   * @param requestedModel - The model name from the Anthropic request.
+   */
+  resolveChain(requestedModel: string): ModelCapabilities[] {
+    const primary = this.resolve(requestedModel);
+    const fallbacks =
+      primary.fallbacks ??
+      Object.values(this.registry).find((c) => c.geminiModel === primary.geminiModel)
+        ?.fallbacks ??
+      [];
+
+    const chain = [primary];
+    for (const name of fallbacks) {
+      const capabilities = this.resolve(name);
+      if (!chain.some((c) => c.geminiModel === capabilities.geminiModel)) {
+        chain.push(capabilities);
+      }
+    }
+    return chain;
+  }
+
+  /**
+   * The backend serving a Gemini model: the one declared by a registry
+   * entry for that model, else the default backend.
+   *
+   * @param geminiModel - A Gemini model identifier (not an alias).
+   */
+  backendFor(geminiModel: string): GeminiBackend {
+    const declared = Object.values(this.registry).find(
+      (c) => c.geminiModel === geminiModel && c.backend
+    );
+    return declared?.backend ?? this.defaultBackend;
+  }
+
+  /**
+   * Whether a model name resolves through the configuration (an alias,
+   * a route, a Claude name or a registry entry) rather than being taken
+   * as a literal Gemini model name.
+   *
+   * @param requestedModel - The model name as sent by the client.
+   */
+  isKnown(requestedModel: string): boolean {
+    return (
+      this.overrides.has(requestedModel) ||
+      this.routes.some((r) => r.pattern.test(requestedModel)) ||
+      requestedModel.startsWith("claude-") ||
+      requestedModel in this.registry
+    );
+  }
+
   /**
    * Returns the list of all known model aliases.
    */
   listModels(): string[] {
     // Only return Gemini model names, not Claude aliases
-    return Object.keys(MODEL_REGISTRY).filter((k) => k.startsWith("gemini-"));
+    return Object.keys(this.registry).filter((k) => !k.startsWith("claude-"));
+  }
+
+  /**
+   * Describes a model alias: resolves it and attaches display metadata.
+   *
+   * @param id - The model name as sent by the client.
+   */
+  describe(id: string): ModelInfo {
+    const capabilities = this.resolve(id);
+    const metadata = this.metadata[capabilities.geminiModel];
+
+    return {
+      id,
+      displayName: metadata?.displayName ?? capabilities.geminiModel,
+      createdAt: metadata?.createdAt ?? UNKNOWN_MODEL_CREATED_AT,
+      capabilities,
+    };
+  }
+
+  /**
+   * Resolves the target of an override or the default model, which may
+   * be a registry alias or a Gemini model identifier.
+   */
+  private resolveTarget(target: string): ModelCapabilities {
+    return (
+      this.registry[target] ??
+      Object.values(this.registry).find((c) => c.geminiModel === target) ??
+      this.buildFallback(target)
+    );
+  }
+
+  /**
+   * Builds capabilities for a model declared in the config file, filling
+   * unset fields like for an unknown model.
+   */
+  private fromDefinition(alias: string, definition: ModelDefinition): ModelCapabilities {
+    const base = this.buildFallback(definition.geminiModel ?? alias);
+    const isGemini3 = definition.isGemini3 ?? base.isGemini3;
+
+    return {
+      geminiModel: base.geminiModel,
+      supportsThinking: definition.supportsThinking ?? base.supportsThinking,
+      isGemini3,
+      defaultThinkingLevel: isGemini3
+        ? definition.defaultThinkingLevel ?? this.defaultThinkingLevel
+        : undefined,
+      maxOutputTokens: definition.maxOutputTokens ?? base.maxOutputTokens,
+      ...(definition.fallbacks ? { fallbacks: definition.fallbacks } : {}),
+      ...(definition.backend ? { backend: definition.backend } : {}),
+      ...(definition.streamsFunctionCallArguments !== undefined
+        ? { streamsFunctionCallArguments: definition.streamsFunctionCallArguments }
+        : {}),
+    };
+  }
+
+  /**
+   * Whether a model is known to stream function-call arguments: Gemini 3
+   * models do on Vertex AI, the Gemini API does not support it.
+   */
+  private infersArgumentStreaming(capabilities: ModelCapabilities): boolean {
+    const backend = capabilities.backend ?? this.backendFor(capabilities.geminiModel);
+    return capabilities.isGemini3 && backend === "vertex";
   }
 
   /**
@@ -199,8 +565,11 @@ export class ModelConfigService {
       geminiModel,
       supportsThinking: true,
       isGemini3,
-      defaultThinkingLevel: isGemini3 ? "HIGH" : undefined,
+      defaultThinkingLevel: isGemini3 ? this.defaultThinkingLevel : undefined,
       maxOutputTokens: 65_536,
+      ...(isGemini3 && this.defaultBackend === "vertex"
+        ? { streamsFunctionCallArguments: true }
+        : {}),
     };
   }
 }
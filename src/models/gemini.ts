@@ -26,7 +26,7 @@ export interface GeminiTextPart {
   thoughtSignature?: string;
 }
 
-/** An inline binary data part (e.g. images). */
+/** An inline binary data part (e.g. images, PDFs). */
 export interface GeminiInlineDataPart {
   inlineData: {
     mimeType: string;
@@ -35,11 +35,43 @@ export interface GeminiInlineDataPart {
   thoughtSignature?: string;
 }
 
-/** A function-call part emitted by the model. */
+/** A reference to file data by URI (Files API, YouTube or public URL). */
+export interface GeminiFileDataPart {
+  fileData: {
+    mimeType?: string;
+    fileUri: string;
+  };
+  thoughtSignature?: string;
+}
+
+/**
+ * A piece of a streamed function call's arguments: one value (or a
+ * chunk of a string value) at a JSONPath such as `$.edits[0].old_string`.
+ */
+export interface GeminiPartialArg {
+  jsonPath: string;
+  stringValue?: string;
+  numberValue?: number;
+  boolValue?: boolean;
+  nullValue?: null | "NULL_VALUE";
+
+  /** More chunks of this (string) value follow. */
+  willContinue?: boolean;
+}
+
+/**
+ * A function-call part emitted by the model.
+ *
+ * With `streamFunctionCallArguments`, a call is spread over several
+ * parts: the first carries the name, later ones `partialArgs`, and all
+ * but the last set `willContinue`.
+ */
 export interface GeminiFunctionCallPart {
   functionCall: {
     name: string;
     args: Record<string, unknown>;
+    partialArgs?: GeminiPartialArg[];
+    willContinue?: boolean;
   };
   thoughtSignature?: string;
 }
@@ -56,6 +88,7 @@ export interface GeminiFunctionResponsePart {
 export type GeminiPart =
   | GeminiTextPart
   | GeminiInlineDataPart
+  | GeminiFileDataPart
   | GeminiFunctionCallPart
   | GeminiFunctionResponsePart;
 
@@ -91,9 +124,14 @@ export interface GeminiFunctionDeclaration {
   parameters?: GeminiSchema | Record<string, unknown>;
 }
 
-/** A tool object that wraps function declarations. */
+/**
+ * A tool object: function declarations, or one of Gemini's built-in
+ * tools (Google Search grounding, URL context).
+ */
 export interface GeminiTool {
   functionDeclarations?: GeminiFunctionDeclaration[];
+  google_search?: Record<string, never>;
+  url_context?: Record<string, never>;
 }
 
 /** Function-calling mode. */
@@ -103,6 +141,9 @@ export type GeminiFunctionCallingMode = "AUTO" | "ANY" | "NONE";
 export interface GeminiFunctionCallingConfig {
   mode: GeminiFunctionCallingMode;
   allowedFunctionNames?: string[];
+
+  /** Stream function-call arguments as `partialArgs` (streaming requests only). */
+  streamFunctionCallArguments?: boolean;
 }
 
 /** Tool configuration at request level. */
@@ -138,7 +179,7 @@ export interface GeminiGenerationConfig {
   stopSequences?: string[];
   candidateCount?: number;
   responseMimeType?: string;
-  responseSchema?: GeminiSchema;
+  responseSchema?: GeminiSchema | Record<string, unknown>;
   thinkingConfig?: GeminiThinkingConfig;
 }
 
@@ -193,7 +234,30 @@ export type GeminiFinishReason =
   | "MAX_TOKENS"
   | "SAFETY"
   | "RECITATION"
-  | "OTHER";
+  | "LANGUAGE"
+  | "OTHER"
+  | "BLOCKLIST"
+  | "PROHIBITED_CONTENT"
+  | "SPII"
+  | "MALFORMED_FUNCTION_CALL"
+  | "IMAGE_SAFETY"
+  | "UNEXPECTED_TOOL_CALL"
+  | "TOO_MANY_TOOL_CALLS";
+
+/** Why Gemini refused to process a prompt. */
+export type GeminiBlockReason =
+  | "BLOCK_REASON_UNSPECIFIED"
+  | "SAFETY"
+  | "OTHER"
+  | "BLOCKLIST"
+  | "PROHIBITED_CONTENT"
+  | "IMAGE_SAFETY";
+
+/** Gemini's verdict on the prompt of a request. */
+export interface GeminiPromptFeedback {
+  blockReason?: GeminiBlockReason;
+  safetyRatings?: GeminiSafetyRating[];
+}
 
 /** A safety rating attached to a candidate. */
 export interface GeminiSafetyRating {
@@ -201,11 +265,58 @@ export interface GeminiSafetyRating {
   probability: string;
 }
 
+/** A web source retrieved by Google Search grounding. */
+export interface GeminiGroundingChunk {
+  web?: {
+    uri?: string;
+    title?: string;
+    domain?: string;
+  };
+}
+
+/** Links a segment of the generated text to the chunks supporting it. */
+export interface GeminiGroundingSupport {
+  segment?: {
+    partIndex?: number;
+    startIndex?: number;
+    endIndex?: number;
+    text?: string;
+  };
+  groundingChunkIndices?: number[];
+  confidenceScores?: number[];
+}
+
+/** Grounding information returned when `google_search` was used. */
+export interface GeminiGroundingMetadata {
+  webSearchQueries?: string[];
+  groundingChunks?: GeminiGroundingChunk[];
+  groundingSupports?: GeminiGroundingSupport[];
+  searchEntryPoint?: { renderedContent?: string };
+}
+
+/** Retrieval status of a URL fetched by the `url_context` tool. */
+export type GeminiUrlRetrievalStatus =
+  | "URL_RETRIEVAL_STATUS_UNSPECIFIED"
+  | "URL_RETRIEVAL_STATUS_SUCCESS"
+  | "URL_RETRIEVAL_STATUS_ERROR"
+  | "URL_RETRIEVAL_STATUS_PAYWALL"
+  | "URL_RETRIEVAL_STATUS_UNSAFE";
+
+/** URLs retrieved when `url_context` was used. */
+export interface GeminiUrlContextMetadata {
+  urlMetadata?: Array<{
+    retrievedUrl: string;
+    urlRetrievalStatus?: GeminiUrlRetrievalStatus;
+  }>;
+}
+
 /** A single generated candidate. */
 export interface GeminiCandidate {
   content: GeminiContent;
   finishReason?: GeminiFinishReason;
   safetyRatings?: GeminiSafetyRating[];
+  groundingMetadata?: GeminiGroundingMetadata;
+  urlContextMetadata?: GeminiUrlContextMetadata;
   index?: number;
 }
 
@@ -215,12 +326,63 @@ export interface GeminiUsageMetadata {
   candidatesTokenCount?: number;
   totalTokenCount?: number;
   thoughtsTokenCount?: number;
+  /** Prompt tokens served from a cache (explicit or implicit), included in `promptTokenCount`. */
+  cachedContentTokenCount?: number;
 }
 
 /** The response from `generateContent` / each chunk of `streamGenerateContent`. */
 export interface GeminiGenerateContentResponse {
   candidates?: GeminiCandidate[];
+  /** Set instead of candidates when the prompt itself was blocked. */
+  promptFeedback?: GeminiPromptFeedback;
   usageMetadata?: GeminiUsageMetadata;
   modelVersion?: string;
   responseId?: string;
 }
+
+// ---------------------------------------------------------------------------
+// Token counting
+// ---------------------------------------------------------------------------
+
+/** The body of a Gemini `countTokens` request. */
+export interface GeminiCountTokensRequest {
+  generateContentRequest: GeminiGenerateContentRequest & { model: string };
+}
+
+/** The body of a Vertex AI `countTokens` request (no request wrapper). */
+export type VertexCountTokensRequest = Pick<
+  GeminiGenerateContentRequest,
+  "contents" | "systemInstruction" | "tools"
+>;
+
+/** The response from `countTokens`. */
+export interface GeminiCountTokensResponse {
+  totalTokens: number;
+  cachedContentTokenCount?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Context caching
+// ---------------------------------------------------------------------------
+
+/** The body of a `cachedContents.create` request. */
+export interface GeminiCreateCachedContentRequest {
+  /** Full model resource name (e.g. "models/gemini-3-flash-preview"). */
+  model: string;
+  contents?: GeminiContent[];
+  systemInstruction?: GeminiContent;
+  tools?: GeminiTool[];
+  toolConfig?: GeminiToolConfig;
+  /** Time to live, e.g. "300s". */
+  ttl: string;
+}
+
+/** A cached content resource. */
+export interface GeminiCachedContent {
+  /** Resource name used as `cachedContent` (e.g. "cachedContents/abc123"). */
+  name: string;
+  model?: string;
+  /** RFC 3339 timestamp. */
+  expireTime?: string;
+  usageMetadata?: { totalTokenCount?: number };
+}
@@ -0,0 +1,170 @@
+/**
+ * OpenAI Chat Completions API type definitions.
+ *
+ * These types cover the subset of the Chat Completions contract
+ * (`POST /v1/chat/completions`) that the proxy translates to Gemini:
+ * messages, function tools, tool calls, and streaming chunks.
+ *
+ * @see https://platform.openai.com/docs/api-reference/chat
+ */
+
+// ---------------------------------------------------------------------------
+// Content parts
+// ---------------------------------------------------------------------------
+
+/** A text content part. */
+export interface OpenAITextContentPart {
+  type: "text";
+  text: string;
+}
+
+/** An image content part (data URL or remote URL). */
+export interface OpenAIImageContentPart {
+  type: "image_url";
+  image_url: {
+    url: string;
+    detail?: "auto" | "low" | "high";
+  };
+}
+
+/** Union of supported content parts. */
+export type OpenAIContentPart = OpenAITextContentPart | OpenAIImageContentPart;
+
+// ---------------------------------------------------------------------------
+// Messages
+// ---------------------------------------------------------------------------
+
+/** A function tool call emitted by the assistant. */
+export interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    /** JSON-encoded arguments. */
+    arguments: string;
+  };
+}
+
+/** A single message in the conversation. */
+export interface OpenAIMessage {
+  role: "system" | "developer" | "user" | "assistant" | "tool";
+  content?: string | OpenAIContentPart[] | null;
+  name?: string;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Tools
+// ---------------------------------------------------------------------------
+
+/** A function tool definition. */
+export interface OpenAITool {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  };
+}
+
+/** How the model should choose which tool to use. */
+export type OpenAIToolChoice =
+  | "none"
+  | "auto"
+  | "required"
+  | { type: "function"; function: { name: string } };
+
+// ---------------------------------------------------------------------------
+// Request
+// ---------------------------------------------------------------------------
+
+/** The body of a `POST /v1/chat/completions` request. */
+export interface OpenAIChatCompletionRequest {
+  model: string;
+  messages: OpenAIMessage[];
+  tools?: OpenAITool[];
+  tool_choice?: OpenAIToolChoice;
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  stop?: string | string[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  n?: number;
+  reasoning_effort?: "minimal" | "low" | "medium" | "high";
+  response_format?:
+    | { type: "text" }
+    | { type: "json_object" }
+    | {
+        type: "json_schema";
+        json_schema: { name?: string; schema?: Record<string, unknown> };
+      };
+  user?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Response (non-streaming)
+// ---------------------------------------------------------------------------
+
+/** Why the model stopped generating. */
+export type OpenAIFinishReason = "stop" | "length" | "tool_calls" | "content_filter";
+
+/** Token usage information. */
+export interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/** The response from `POST /v1/chat/completions` (non-streaming). */
+export interface OpenAIChatCompletion {
+  id: string;
+  object: "chat.completion";
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: "assistant";
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    };
+    finish_reason: OpenAIFinishReason;
+  }>;
+  usage: OpenAIUsage;
+}
+
+// ---------------------------------------------------------------------------
+// Streaming
+// ---------------------------------------------------------------------------
+
+/** An incremental tool call inside a streaming delta. */
+export interface OpenAIToolCallDelta {
+  index: number;
+  id?: string;
+  type?: "function";
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+/** A single `chat.completion.chunk` SSE payload. */
+export interface OpenAIChatCompletionChunk {
+  id: string;
+  object: "chat.completion.chunk";
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: "assistant";
+      content?: string;
+      tool_calls?: OpenAIToolCallDelta[];
+    };
+    finish_reason: OpenAIFinishReason | null;
+  }>;
+  usage?: OpenAIUsage | null;
+}
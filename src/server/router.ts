@@ -3,33 +3,207 @@
  *
  * Maps incoming Anthropic API endpoints to the appropriate handler
  * functions. Currently supports:
- * - `POST /v1/messages` – Create a Message (main endpoint)
- * - `GET /v1/models`    – List available models (for discovery)
- * - `GET /health`       – Health check
+ * - `POST /v1/messages`              – Create a Message (main endpoint)
+ * - `POST /v1/messages/count_tokens` – Count prompt tokens
+ * - `/v1/messages/batches/*`         – Message Batches (create/list/retrieve/cancel/results)
+ * - `GET /v1/models`                 – List available models (for discovery)
+ * - `GET /v1/models/{id}`            – Describe a single model
+ * - `POST /v1/chat/completions`      – OpenAI-compatible Chat Completions
+ * - `GET /health`       – Health check (with per-key status)
  *
  * Also handles Anthropic server-side tools (`web_search`, `web_fetch`)
  * by delegating to Gemini's native web capabilities.
  */
 
 import type { Server } from "bun";
-import type { AnthropicMessagesRequest } from "../models/anthropic";
-import { ModelConfigService } from "../models/config";
-import { GeminiClient } from "../services/gemini-client";
+import { existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import type {
+  AnthropicMessage,
+  AnthropicMessagesRequest,
+  AnthropicMessagesResponse,
+  AnthropicCountTokensRequest,
+  AnthropicCountTokensResponse,
+  AnthropicCreateBatchRequest,
+  AnthropicListResponse,
+  AnthropicModelInfo,
+} from "../models/anthropic";
+import type { OpenAIChatCompletionRequest } from "../models/openai";
+import type {
+  GeminiGenerateContentRequest,
+  GeminiPart,
+  GeminiSafetySetting,
+} from "../models/gemini";
+import {
+  ModelConfigService,
+  type ModelCapabilities,
+  type ModelInfo,
+} from "../models/config";
+import {
+  GeminiClient,
+  type GeminiRequestStats,
+} from "../services/gemini-client";
 import { ThoughtSignatureService } from "../services/thought-signature";
+import { TokenCounter } from "../services/token-counter";
+import {
+  ContextCache,
+  type CacheBreakpoint,
+  type ContextCacheOptions,
+  type ContextCacheUsage,
+} from "../services/context-cache";
+import { MediaFetcher } from "../services/media-fetcher";
+import {
+  WebFetcher,
+  WebFetchError,
+  extractUrls,
+  toWebFetchResult,
+  type WebFetchMode,
+  type WebFetcherOptions,
+} from "../services/web-fetcher";
+import { BatchStore } from "../services/batch-store";
+import {
+  BatchService,
+  DEFAULT_BATCH_CONCURRENCY,
+} from "../services/batch-service";
 import {
   WebToolsService,
   type AnthropicServerTool,
 } from "../services/web-tools";
+import { WebToolPolicy } from "../services/web-tool-policy";
 import { RequestConverter } from "../converters/request-converter";
 import { ResponseConverter } from "../converters/response-converter";
-import { StreamConverter } from "../converters/stream-converter";
+import {
+  DEFAULT_STALL_TIMEOUT_MS,
+  StreamConverter,
+  type StreamTimingOptions,
+} from "../converters/stream-converter";
+import { OpenAIRequestConverter } from "../converters/openai-request-converter";
+import { OpenAIResponseConverter } from "../converters/openai-response-converter";
+import { OpenAIStreamConverter } from "../converters/openai-stream-converter";
+import {
+  generateServerToolUseId,
+  type ServerToolBlock,
+} from "../converters/grounding-converter";
 import {
   ProxyError,
   InvalidRequestError,
+  NotFoundError,
   AuthenticationError,
+  RateLimitError,
+  OverloadedError,
+  UpstreamError,
+  RequestCancelledError,
 } from "../utils/errors";
 import { Logger } from "../utils/logger";
 
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Optional Router settings. */
+export interface RouterOptions {
+  /** SQLite file used to persist message batches. */
+  batchDbPath?: string;
+
+  /** Maximum number of batch requests executed in parallel. */
+  batchConcurrency?: number;
+
+  /**
+   * How `web_fetch` is served: Gemini's `url_context` tool (default) or
+   * the proxy's own fetcher, with `url_context` as a fallback.
+   */
+  webFetchMode?: WebFetchMode;
+
+  /** Settings of the local web_fetch engine. */
+  webFetcher?: WebFetcherOptions;
+
+  /** Safety settings sent to Gemini (default: all filters off). */
+  safetySettings?: GeminiSafetySetting[];
+
+  /** Explicit context caching of `cache_control` prefixes. */
+  contextCache?: Omit<ContextCacheOptions, "now">;
+
+  /** Keepalive pings and stall timeout of streamed responses. */
+  streaming?: StreamTimingOptions;
+}
+
+/**
+ * A model object from `GET /v1/models/{id}`: the Anthropic schema plus
+ * the Gemini target and its capabilities.
+ */
+interface ModelDetails extends AnthropicModelInfo {
+  gemini_model: string;
+  capabilities: {
+    supports_thinking: boolean;
+    is_gemini_3: boolean;
+    default_thinking_level: string | null;
+    max_output_tokens: number;
+  };
+}
+
+/**
+ * Everything a configuration reload can change. Swapped as one unit, and
+ * captured by each request so requests in flight keep the snapshot they
+ * started with.
+ */
+interface RouterRuntime {
+  geminiClient: GeminiClient;
+  modelConfig: ModelConfigService;
+  tokenCounter: TokenCounter;
+  contextCache: ContextCache;
+  webFetcher: WebFetcher;
+  options: RouterOptions;
+}
+
+/** A converted request that can move down its model's fallback chain. */
+interface FallbackRequest {
+  /** Request and capabilities of the model being served (updated on fallback). */
+  geminiRequest: GeminiGenerateContentRequest;
+  capabilities: ModelCapabilities;
+  /** Models to fall back to, in order, on overload or rate limits. */
+  fallbacks: ModelCapabilities[];
+  /** Rebuilds the request as first converted for another model. */
+  adaptForModel: (
+    geminiRequest: GeminiGenerateContentRequest,
+    capabilities: ModelCapabilities
+  ) => GeminiGenerateContentRequest;
+}
+
+/** An Anthropic request converted and ready to be sent to Gemini. */
+interface PreparedRequest extends FallbackRequest {
+  /** Configuration snapshot the request was prepared with. */
+  runtime: RouterRuntime;
+  /** The Anthropic request body the Gemini request was built from. */
+  body: AnthropicMessagesRequest;
+  requestConverter: RequestConverter;
+  thoughtSignatures: ThoughtSignatureService;
+  requestedModel: string;
+  serverTools: AnthropicServerTool[];
+  webToolPolicy: WebToolPolicy;
+  /** web_fetch blocks for URLs the proxy fetched itself (local mode). */
+  prefetchedBlocks: ServerToolBlock[];
+  /** Retries of the Gemini call, reported in `X-Gemini-Retries`. */
+  stats: GeminiRequestStats;
+  /** `cache_control` markers, located in the Gemini contents. */
+  cacheBreakpoints: CacheBreakpoint[];
+  /** Cache tokens of the Gemini call, once it was made. */
+  cacheUsage: ContextCacheUsage | null;
+  /**
+   * Aborts the request when the client disconnects: the steps still to
+   * come (web prefetch, cache creation, the Gemini call) are skipped.
+   */
+  abort: AbortController;
+}
+
+/** Response header carrying the number of Gemini retries. */
+const RETRIES_HEADER = "X-Gemini-Retries";
+
+/** Response header carrying the Gemini model that served the request. */
+const MODEL_HEADER = "X-Gemini-Model";
+
+/** At most this many URLs of a message are fetched locally. */
+const MAX_PREFETCH_URLS = 5;
+
 // ---------------------------------------------------------------------------
 // Router
 // ---------------------------------------------------------------------------
@@ -48,16 +222,70 @@ import { Logger } from "../utils/logger";
  * 7. Converts Gemini response → Anthropic response (or streams SSE).
  */
 export class Router {
-  private readonly geminiClient: GeminiClient;
-  private readonly modelConfig: ModelConfigService;
+  private runtime: RouterRuntime;
+  private readonly mediaFetcher: MediaFetcher;
   private readonly logger: Logger;
 
-  constructor(geminiClient: GeminiClient, modelConfig: ModelConfigService) {
-    this.geminiClient = geminiClient;
-    this.modelConfig = modelConfig;
+  /** Lazily created so the batch database is only opened when used. */
+  private batchService: BatchService | null = null;
+
+  constructor(
+    geminiClient: GeminiClient,
+    modelConfig: ModelConfigService,
+    options: RouterOptions = {}
+  ) {
+    this.runtime = Router.buildRuntime(geminiClient, modelConfig, options);
+    this.mediaFetcher = new MediaFetcher();
     this.logger = Logger.getInstance();
   }
 
+  /**
+   * Switches to a new configuration. Requests that arrive afterwards use
+   * it; requests in flight finish with the previous one. Batch settings
+   * only take effect before the first batch is created. Known context
+   * caches are kept unless the client or cache settings changed.
+   */
+  reconfigure(
+    geminiClient: GeminiClient,
+    modelConfig: ModelConfigService,
+    options: RouterOptions
+  ): void {
+    this.runtime = Router.buildRuntime(geminiClient, modelConfig, options, this.runtime);
+  }
+
+  private static buildRuntime(
+    geminiClient: GeminiClient,
+    modelConfig: ModelConfigService,
+    options: RouterOptions,
+    previous?: RouterRuntime
+  ): RouterRuntime {
+    const keepCache =
+      previous?.geminiClient === geminiClient &&
+      JSON.stringify(previous.options.contextCache) === JSON.stringify(options.contextCache);
+
+    return {
+      geminiClient,
+      modelConfig,
+      tokenCounter: new TokenCounter(geminiClient),
+      contextCache: keepCache
+        ? previous.contextCache
+        : new ContextCache(geminiClient, options.contextCache),
+      webFetcher: new WebFetcher(options.webFetcher),
+      options,
+    };
+  }
+
+  /**
+   * Resumes message batches left unfinished by a previous run.
+   * No-op if no batch database exists yet.
+   */
+  resumeBatches(): void {
+    const path = this.runtime.options.batchDbPath;
+    if (path && path !== ":memory:" && existsSync(path)) {
+      this.getBatchService();
+    }
+  }
+
   /**
    * Handles an incoming HTTP request and returns the response.
    */
@@ -79,12 +307,32 @@ export class Router {
         return await this.handleMessages(request);
       }
 
+      if (path === "/v1/messages/count_tokens" && method === "POST") {
+        return await this.handleCountTokens(request);
+      }
+
+      if (path.startsWith("/v1/messages/batches")) {
+        const batchResponse = await this.handleBatches(request, url);
+        if (batchResponse) return batchResponse;
+      }
+
       if (path === "/v1/models" && method === "GET") {
-        return this.handleListModels();
+        return this.handleListModels(url);
+      }
+
+      if (path.startsWith("/v1/models/") && method === "GET") {
+        return this.handleGetModel(path.substring("/v1/models/".length));
+      }
+
+      if (path === "/v1/chat/completions" && method === "POST") {
+        return await this.handleChatCompletions(request);
       }
 
       if (path === "/health" && method === "GET") {
-        return this.jsonResponse({ status: "ok" });
+        return this.jsonResponse({
+          status: "ok",
+          keys: this.runtime.geminiClient.getKeyHealth(),
+        });
       }
 
       // 404 for unknown routes
@@ -119,6 +367,58 @@ export class Router {
     const body = (await request.json()) as AnthropicMessagesRequest;
 
     // Validate required fields
+    this.validateMessagesRequest(body);
+
+    // Stop the request when the client goes away (e.g. Esc in Claude Code),
+    // also while it is still being prepared
+    const abort = new AbortController();
+    request.signal.addEventListener("abort", () => abort.abort(), { once: true });
+
+    const prepared = await this.prepareRequest(body, abort);
+    const { capabilities, requestedModel, serverTools } = prepared;
+
+    this.logger.info(
+      `Request: ${requestedModel} → ${capabilities.geminiModel}`,
+      {
+        stream: body.stream ?? false,
+        messageCount: body.messages.length,
+        maxTokens: body.max_tokens,
+        hasTools: !!body.tools?.length,
+        hasServerTools: serverTools.length > 0,
+        thinking: body.thinking?.type ?? "default",
+      }
+    );
+
+    try {
+      const response = body.stream
+        ? await this.handleStreamingRequest(prepared)
+        : await this.handleSyncRequest(prepared);
+      return this.withServedModel(
+        this.withRetryCount(response, prepared.stats),
+        prepared.capabilities
+      );
+    } catch (error) {
+      if (prepared.abort.signal.aborted) {
+        this.logger.info("Request cancelled by the client before Gemini responded", {
+          model: prepared.capabilities.geminiModel,
+          retries: prepared.stats.retries,
+        });
+        return this.errorResponse(new RequestCancelledError());
+      }
+      if (error instanceof ProxyError) {
+        return this.withServedModel(
+          this.withRetryCount(this.errorResponse(error), prepared.stats),
+          prepared.capabilities
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Validates the required fields of a Messages request body.
+   */
+  private validateMessagesRequest(body: AnthropicMessagesRequest): void {
     if (!body.messages || !Array.isArray(body.messages)) {
       throw new InvalidRequestError(
         "'messages' is required and must be an array."
@@ -129,6 +429,37 @@ export class Router {
         "'max_tokens' is required and must be a number."
       );
     }
+  }
+
+  /**
+   * Runs an Anthropic request body through the shared conversion
+   * pipeline: URL image and PDF download, server-tool extraction, model
+   * resolution, Anthropic → Gemini conversion and web tool injection.
+   *
+   * Used by both `/v1/messages` and `/v1/messages/count_tokens` so that
+   * token counts reflect what would be sent to Gemini.
+   *
+   * Downloads already under way finish (they are shared through the
+   * fetchers' caches), but nothing new starts once `abort` fired.
+   *
+   * @param fetchContent - Whether URL media is downloaded and local
+   *                       web_fetch URLs are prefetched (false for
+   *                       count_tokens, which must not touch the network
+   *                       beyond Gemini).
+   * @throws {RequestCancelledError} If `abort` fired during preparation.
+   */
+  private async prepareRequest(
+    body: AnthropicMessagesRequest,
+    abort = new AbortController(),
+    fetchContent = true
+  ): Promise<PreparedRequest> {
+    const runtime = this.runtime;
+
+    // ── Download URL image and PDF sources so Gemini receives inline data
+    if (fetchContent) {
+      await this.mediaFetcher.resolveMediaSources(body.messages);
+      if (abort.signal.aborted) throw new RequestCancelledError();
+    }
 
     // ── Extract server-side tools (web_search, web_fetch) ──────────────
     let serverTools: AnthropicServerTool[] = [];
@@ -138,10 +469,10 @@ export class Router {
 
       if (serverTools.length > 0) {
         // Replace tools array with only the regular tools
-        body.tools = extracted.regularTools as any;
+        body.tools = extracted.regularTools;
         this.logger.info("Extracted server-side tools", {
           serverTools: serverTools.map((t) => t.name),
-          remainingTools: (body.tools as any[]).length,
+          remainingTools: body.tools.length,
         });
 
         // Log full server-side tool definitions
@@ -156,35 +487,27 @@ export class Router {
       }
 
       // Log regular tool names
-      if ((body.tools as any[]).length > 0) {
-        const toolNames = (body.tools as any[]).map(
-          (t: any) => t.name ?? t.type ?? "unknown"
-        );
+      if (body.tools.length > 0) {
+        const toolNames = body.tools.map((t) => t.name);
         this.logger.debug(`[TOOL-IN] Function declarations (${toolNames.length})`, {
           tools: toolNames,
         });
       }
     }
 
+    // Validate allowed/blocked domains and max_uses up front
+    const webToolPolicy = WebToolPolicy.fromServerTools(serverTools);
+
     // Resolve model
     const requestedModel = body.model || "gemini-3.0-flash";
-    const capabilities = this.modelConfig.resolve(requestedModel);
-
-    this.logger.info(
-      `Request: ${requestedModel} → ${capabilities.geminiModel}`,
-      {
-        stream: body.stream ?? false,
-        messageCount: body.messages.length,
-        maxTokens: body.max_tokens,
-        hasTools: !!body.tools?.length,
-        hasServerTools: serverTools.length > 0,
-        thinking: body.thinking?.type ?? "default",
-      }
-    );
+    const [capabilities, ...fallbacks] = runtime.modelConfig.resolveChain(requestedModel);
 
     // Create per-request services
     const thoughtSignatures = new ThoughtSignatureService();
-    const requestConverter = new RequestConverter(thoughtSignatures);
+    const requestConverter = new RequestConverter(
+      thoughtSignatures,
+      runtime.options.safetySettings
+    );
 
     // Build tool name map for resolving tool_use_id → name
     requestConverter.buildToolNameMap(body.messages);
@@ -192,26 +515,48 @@ export class Router {
     // Convert Anthropic → Gemini request
     const geminiRequest = requestConverter.convert(body, capabilities);
 
+    // ── Local web_fetch: fetch mentioned URLs on the proxy ─────────────
+    let prefetchedBlocks: ServerToolBlock[] = [];
+    let useUrlContext = true;
+    if (
+      fetchContent &&
+      runtime.options.webFetchMode === "local" &&
+      WebToolsService.hasWebFetch(serverTools)
+    ) {
+      const prefetch = await this.prefetchWebContent(
+        body.messages,
+        geminiRequest,
+        webToolPolicy,
+        runtime.webFetcher
+      );
+      prefetchedBlocks = prefetch.blocks;
+      useUrlContext = prefetch.needsUrlContext;
+      if (abort.signal.aborted) throw new RequestCancelledError();
+    }
+
     // ── Inject Gemini-native web tools if server-side tools detected ───
     if (serverTools.length > 0) {
-      this.injectGeminiWebTools(geminiRequest, serverTools);
+      this.injectGeminiWebTools(geminiRequest, serverTools, useUrlContext);
     }
 
-    if (body.stream) {
-      return await this.handleStreamingRequest(
-        geminiRequest,
-        capabilities,
-        thoughtSignatures,
-        requestedModel
-      );
-    } else {
-      return await this.handleSyncRequest(
-        geminiRequest,
-        capabilities,
-        thoughtSignatures,
-        requestedModel
-      );
-    }
+    return {
+      runtime,
+      body,
+      geminiRequest,
+      capabilities,
+      fallbacks,
+      adaptForModel: (original, next) => requestConverter.adaptForModel(original, body, next),
+      requestConverter,
+      thoughtSignatures,
+      requestedModel,
+      serverTools,
+      webToolPolicy,
+      prefetchedBlocks,
+      stats: { retries: 0 },
+      cacheBreakpoints: requestConverter.cacheBreakpoints(body),
+      cacheUsage: null,
+      abort,
+    };
   }
 
   /**
@@ -220,59 +565,178 @@ export class Router {
    *
    * This allows Gemini to use Google Search grounding and URL context
    * natively, producing responses that incorporate web data.
+   * `url_context` is left out when web_fetch was fully served locally.
    */
   private injectGeminiWebTools(
-    geminiRequest: any,
-    serverTools: AnthropicServerTool[]
+    geminiRequest: GeminiGenerateContentRequest,
+    serverTools: AnthropicServerTool[],
+    includeUrlContext = true
   ): void {
-    if (!geminiRequest.tools) {
-      geminiRequest.tools = [];
-    }
+    const tools = (geminiRequest.tools ??= []);
 
     const hasSearch = WebToolsService.hasWebSearch(serverTools);
     const hasFetch = WebToolsService.hasWebFetch(serverTools);
 
     if (hasSearch) {
-      geminiRequest.tools.push({ google_search: {} });
+      tools.push({ google_search: {} });
       this.logger.info("[TOOL-OUT] Injected Gemini google_search tool");
     }
 
-    if (hasFetch) {
-      geminiRequest.tools.push({ url_context: {} });
+    if (hasFetch && includeUrlContext) {
+      tools.push({ url_context: {} });
       this.logger.info("[TOOL-OUT] Injected Gemini url_context tool");
     }
 
     // Log the full tools array being sent to Gemini
     this.logger.debug("[TOOL-OUT] Gemini tools payload", {
-      toolCount: geminiRequest.tools.length,
-      tools: geminiRequest.tools.map((t: any) => {
+      toolCount: tools.length,
+      tools: tools.map((t) => {
         if (t.google_search) return "google_search";
         if (t.url_context) return "url_context";
         if (t.functionDeclarations) {
-          return `functionDeclarations(${t.functionDeclarations.map((fd: any) => fd.name).join(", ")})`;
+          return `functionDeclarations(${t.functionDeclarations.map((fd) => fd.name).join(", ")})`;
         }
         return JSON.stringify(Object.keys(t));
       }),
     });
   }
 
+  /**
+   * Local web_fetch mode: fetches the URLs mentioned in the last user
+   * message on the proxy and appends their content to the last Gemini
+   * turn, so the model reads the pages verbatim.
+   *
+   * URLs the policy rejects are reported as `url_not_allowed` /
+   * `max_uses_exceeded` and not fetched.
+   *
+   * @returns The web_fetch blocks to report, and whether Gemini's
+   *          url_context is still needed (no URL found, or a download
+   *          failed and should be retried by Gemini).
+   */
+  private async prefetchWebContent(
+    messages: AnthropicMessage[],
+    geminiRequest: GeminiGenerateContentRequest,
+    policy: WebToolPolicy,
+    webFetcher: WebFetcher
+  ): Promise<{ blocks: ServerToolBlock[]; needsUrlContext: boolean }> {
+    const lastMessage = messages[messages.length - 1];
+    const lastContent = geminiRequest.contents[geminiRequest.contents.length - 1];
+    if (lastMessage?.role !== "user" || lastContent?.role !== "user") {
+      return { blocks: [], needsUrlContext: true };
+    }
+
+    const text =
+      typeof lastMessage.content === "string"
+        ? lastMessage.content
+        : lastMessage.content
+            .map((block) => (block.type === "text" ? block.text : ""))
+            .join("\n");
+    const urls = extractUrls(text).slice(0, MAX_PREFETCH_URLS);
+    if (urls.length === 0) {
+      return { blocks: [], needsUrlContext: true };
+    }
+
+    // Check the policy in mention order before fetching in parallel;
+    // redirect hops are checked against it by the fetcher
+    const allowUrl = (url: string) => policy.isUrlAllowed("web_fetch", url);
+    const allowed = urls.map((url) =>
+      !allowUrl(url)
+        ? "url_not_allowed"
+        : !policy.tryUse("web_fetch")
+          ? "max_uses_exceeded"
+          : null
+    );
+    const results = await Promise.all(
+      urls.map((url, i) =>
+        allowed[i] ? Promise.resolve(null) : webFetcher.fetch(url, allowUrl).catch((e) => e)
+      )
+    );
+
+    const blocks: ServerToolBlock[] = [];
+    const parts: GeminiPart[] = [];
+    let needsUrlContext = false;
+
+    urls.forEach((url, i) => {
+      const id = generateServerToolUseId();
+      blocks.push({ type: "server_tool_use", id, name: "web_fetch", input: { url } });
+
+      const result = results[i];
+      if (result && !(result instanceof Error)) {
+        blocks.push({
+          type: "web_fetch_tool_result",
+          tool_use_id: id,
+          content: toWebFetchResult(result),
+        });
+        parts.push({ text: `[Fetched: ${result.title} (${url})]` });
+        parts.push(
+          result.mediaType === "application/pdf"
+            ? { inlineData: { mimeType: "application/pdf", data: result.data } }
+            : { text: result.data }
+        );
+        return;
+      }
+
+      if (result && !(result instanceof WebFetchError)) {
+        this.logger.error("Local WebFetch failed", { url, error: String(result) });
+      }
+      const errorCode =
+        allowed[i] ?? (result instanceof WebFetchError ? result.errorCode : "unavailable");
+      if (errorCode === "url_not_accessible" || errorCode === "unsupported_content_type") {
+        needsUrlContext = true;
+      }
+      blocks.push({
+        type: "web_fetch_tool_result",
+        tool_use_id: id,
+        content: { type: "web_fetch_tool_result_error", error_code: errorCode },
+      });
+      parts.push({ text: `[Fetch failed: ${url} (${errorCode})]` });
+    });
+
+    lastContent.parts.push(...parts);
+    this.logger.info("[TOOL-OUT] Prefetched web_fetch URLs locally", {
+      urls,
+      fallbackToUrlContext: needsUrlContext,
+    });
+
+    return { blocks, needsUrlContext };
+  }
+
   /**
    * Handles a synchronous (non-streaming) messages request.
    */
-  private async handleSyncRequest(
-    geminiRequest: any,
-    capabilities: any,
-    thoughtSignatures: ThoughtSignatureService,
-    modelName: string
-  ): Promise<Response> {
-    const geminiResponse = await this.geminiClient.generateContent(
-      capabilities.geminiModel,
-      geminiRequest
+  private async handleSyncRequest(prepared: PreparedRequest): Promise<Response> {
+    const anthropicResponse = await this.generateMessage(prepared);
+    return this.jsonResponse(anthropicResponse);
+  }
+
+  /**
+   * Calls `generateContent` for a prepared request and converts the
+   * result to an Anthropic Messages response.
+   */
+  private async generateMessage(
+    prepared: PreparedRequest
+  ): Promise<AnthropicMessagesResponse> {
+    const { thoughtSignatures } = prepared;
+    const modelName = prepared.requestedModel;
+
+    const geminiResponse = await this.withModelFallback(prepared, () =>
+      this.withContextCache(prepared, (request) =>
+        prepared.runtime.geminiClient.generateContent(
+          prepared.capabilities.geminiModel,
+          request,
+          prepared.stats,
+          prepared.abort.signal
+        )
+      )
     );
 
     const responseConverter = new ResponseConverter(
       thoughtSignatures,
-      modelName
+      modelName,
+      prepared.webToolPolicy,
+      prepared.prefetchedBlocks,
+      prepared.cacheUsage,
+      prepared.body.stop_sequences
     );
     const anthropicResponse = responseConverter.convert(geminiResponse);
 
@@ -282,25 +746,73 @@ export class Router {
       usage: anthropicResponse.usage,
     });
 
-    return this.jsonResponse(anthropicResponse);
+    return anthropicResponse;
   }
 
   /**
    * Handles a streaming messages request.
    */
   private async handleStreamingRequest(
-    geminiRequest: any,
-    capabilities: any,
-    thoughtSignatures: ThoughtSignatureService,
-    modelName: string
+    prepared: PreparedRequest
   ): Promise<Response> {
-    const geminiResponse = await this.geminiClient.streamGenerateContent(
-      capabilities.geminiModel,
-      geminiRequest
-    );
+    const { thoughtSignatures } = prepared;
+    const modelName = prepared.requestedModel;
 
-    const streamConverter = new StreamConverter(modelName, thoughtSignatures);
-    const sseStream = streamConverter.convertStream(geminiResponse);
+    // The status and headers wait for Gemini's first chunk, so failures
+    // before it are plain HTTP errors. One deadline bounds that wait
+    // across all retries and fallbacks.
+    const stallTimeoutMs =
+      prepared.runtime.options.streaming?.stallTimeoutMs ?? DEFAULT_STALL_TIMEOUT_MS;
+    const firstChunk = new AbortController();
+    const deadline =
+      stallTimeoutMs > 0
+        ? setTimeout(
+            () =>
+              firstChunk.abort(
+                new OverloadedError(
+                  `Gemini sent no data for ${stallTimeoutMs / 1000}s; the request was aborted.`
+                )
+              ),
+            stallTimeoutMs
+          )
+        : undefined;
+    const signal = AbortSignal.any([prepared.abort.signal, firstChunk.signal]);
+
+    let geminiResponse: Response;
+    try {
+      geminiResponse = await this.withModelFallback(
+        prepared,
+        () =>
+          this.withContextCache(prepared, (request) =>
+            prepared.runtime.geminiClient.streamGenerateContent(
+              prepared.capabilities.geminiModel,
+              request,
+              prepared.stats,
+              signal
+            )
+          ),
+        signal
+      );
+    } finally {
+      clearTimeout(deadline);
+    }
+
+    // message_start reports a local estimate of input_tokens; Gemini's
+    // usage metadata replaces it in message_delta. Counting upstream would
+    // hold up the stream and spend key quota on every request.
+    const inputTokens = TokenCounter.estimate(prepared.geminiRequest);
+
+    const streamConverter = new StreamConverter(
+      modelName,
+      thoughtSignatures,
+      inputTokens,
+      prepared.webToolPolicy,
+      prepared.prefetchedBlocks,
+      prepared.cacheUsage,
+      prepared.body.stop_sequences,
+      prepared.runtime.options.streaming
+    );
+    const sseStream = streamConverter.convertStream(geminiResponse, prepared.abort.signal);
 
     return new Response(sseStream, {
       status: 200,
@@ -314,22 +826,444 @@ export class Router {
     });
   }
 
+  /**
+   * Runs a Gemini call, moving down the model's fallback chain while the
+   * call fails with overload, rate limit or 5xx errors (after the
+   * client's own retries). Before each fallback the request is
+   * re-targeted at the next model, so the thinking config matches its
+   * capabilities and `request.capabilities` names the model that served
+   * the request. Once `signal` has aborted, the error is final.
+   */
+  private async withModelFallback<T>(
+    request: FallbackRequest,
+    call: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const original = request.geminiRequest;
+
+    for (let i = 0; ; i++) {
+      try {
+        return await call();
+      } catch (error) {
+        const next = request.fallbacks[i];
+        if (!next || signal?.aborted || !this.isFallbackError(error)) throw error;
+
+        this.logger.warn(
+          `Model downgrade: ${request.capabilities.geminiModel} → ${next.geminiModel}`,
+          { reason: (error as ProxyError).message }
+        );
+        request.geminiRequest = request.adaptForModel(original, next);
+        request.capabilities = next;
+      }
+    }
+  }
+
+  /**
+   * Runs a Gemini call through the context cache: the request's
+   * `cache_control` prefix is replaced by a Gemini cached content when
+   * one applies, and the cache tokens are recorded on the prepared
+   * request for the usage report.
+   */
+  private async withContextCache<T>(
+    prepared: PreparedRequest,
+    call: (request: GeminiGenerateContentRequest) => Promise<T>
+  ): Promise<T> {
+    // No cache is created for a client that already left
+    if (prepared.abort.signal.aborted) throw new RequestCancelledError();
+
+    const { result, usage } = await prepared.runtime.contextCache.run(
+      prepared.capabilities.geminiModel,
+      prepared.geminiRequest,
+      prepared.cacheBreakpoints,
+      call
+    );
+    prepared.cacheUsage = usage;
+    return result;
+  }
+
+  /** Whether an error means the model is unavailable rather than the request wrong. */
+  private isFallbackError(error: unknown): boolean {
+    return (
+      error instanceof RateLimitError ||
+      error instanceof OverloadedError ||
+      (error instanceof UpstreamError && error.upstreamStatus >= 500)
+    );
+  }
+
+  // -------------------------------------------------------------------------
+  // POST /v1/chat/completions
+  // -------------------------------------------------------------------------
+
+  /**
+   * Handles the OpenAI-compatible `/v1/chat/completions` endpoint.
+   *
+   * Shares model resolution, model fallbacks and the Gemini client with
+   * `/v1/messages`; errors are returned in OpenAI's `{ error: {...} }` shape.
+   */
+  private async handleChatCompletions(request: Request): Promise<Response> {
+    const { geminiClient, modelConfig, options } = this.runtime;
+    const stats: GeminiRequestStats = { retries: 0 };
+
+    // Stop the Gemini generation when the client goes away
+    const abort = new AbortController();
+    request.signal.addEventListener("abort", () => abort.abort(), { once: true });
+
+    try {
+      const body = (await request.json()) as OpenAIChatCompletionRequest;
+
+      if (!body.messages || !Array.isArray(body.messages)) {
+        throw new InvalidRequestError(
+          "'messages' is required and must be an array."
+        );
+      }
+
+      const requestedModel = body.model || "gemini-3.0-flash";
+      const [capabilities, ...fallbacks] = modelConfig.resolveChain(requestedModel);
+
+      const converter = new OpenAIRequestConverter(
+        new ThoughtSignatureService(),
+        options.safetySettings
+      );
+      const target: FallbackRequest = {
+        geminiRequest: converter.convert(body, capabilities),
+        capabilities,
+        fallbacks,
+        adaptForModel: (original, next) => converter.adaptForModel(original, body, next),
+      };
+
+      this.logger.info(
+        `Chat completion: ${requestedModel} → ${capabilities.geminiModel}`,
+        {
+          stream: body.stream ?? false,
+          messageCount: body.messages.length,
+          hasTools: !!body.tools?.length,
+          reasoningEffort: body.reasoning_effort ?? "default",
+        }
+      );
+
+      if (body.stream) {
+        const geminiResponse = await this.withModelFallback(target, () =>
+          geminiClient.streamGenerateContent(
+            target.capabilities.geminiModel,
+            target.geminiRequest,
+            stats,
+            abort.signal
+          )
+        );
+        const streamConverter = new OpenAIStreamConverter(
+          requestedModel,
+          body.stream_options?.include_usage ?? false
+        );
+        const sseStream = streamConverter.convertStream(geminiResponse, abort.signal);
+
+        const response = new Response(sseStream, {
+          status: 200,
+          headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            Connection: "keep-alive",
+            "Access-Control-Allow-Origin": "*",
+            "X-Accel-Buffering": "no",
+          },
+        });
+        return this.withServedModel(this.withRetryCount(response, stats), target.capabilities);
+      }
+
+      const geminiResponse = await this.withModelFallback(target, () =>
+        geminiClient.generateContent(
+          target.capabilities.geminiModel,
+          target.geminiRequest,
+          stats,
+          abort.signal
+        )
+      );
+      const completion = new OpenAIResponseConverter(requestedModel).convert(
+        geminiResponse
+      );
+
+      this.logger.info("Chat completion response", {
+        finishReason: completion.choices[0]?.finish_reason,
+        usage: completion.usage,
+      });
+
+      return this.withServedModel(
+        this.withRetryCount(this.jsonResponse(completion), stats),
+        target.capabilities
+      );
+    } catch (error) {
+      if (abort.signal.aborted) {
+        this.logger.info("Chat completion cancelled by the client before Gemini responded", {
+          retries: stats.retries,
+        });
+        const cancelled = new RequestCancelledError();
+        return this.jsonResponse(cancelled.toOpenAIResponse(), cancelled.statusCode);
+      }
+      if (error instanceof ProxyError) {
+        return this.withRetryCount(
+          this.withRetryAfter(
+            this.jsonResponse(error.toOpenAIResponse(), error.statusCode),
+            error
+          ),
+          stats
+        );
+      }
+      throw error;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // POST /v1/messages/count_tokens
+  // -------------------------------------------------------------------------
+
+  /**
+   * Handles the `/v1/messages/count_tokens` endpoint.
+   *
+   * Converts the body exactly like a Messages request and asks Gemini
+   * to count the resulting prompt, falling back to a local estimate.
+   */
+  private async handleCountTokens(request: Request): Promise<Response> {
+    const body = (await request.json()) as AnthropicCountTokensRequest;
+
+    if (!body.messages || !Array.isArray(body.messages)) {
+      throw new InvalidRequestError(
+        "'messages' is required and must be an array."
+      );
+    }
+
+    // URL sources stay references, estimated if Gemini cannot count them
+    const { runtime, geminiRequest, capabilities, requestedModel } =
+      await this.prepareRequest(body as AnthropicMessagesRequest, undefined, false);
+
+    const inputTokens = await runtime.tokenCounter.count(
+      capabilities.geminiModel,
+      geminiRequest
+    );
+
+    this.logger.debug(
+      `Count tokens: ${requestedModel} → ${capabilities.geminiModel}`,
+      { inputTokens }
+    );
+
+    const response: AnthropicCountTokensResponse = { input_tokens: inputTokens };
+    return this.jsonResponse(response);
+  }
+
+  // -------------------------------------------------------------------------
+  // /v1/messages/batches
+  // -------------------------------------------------------------------------
+
+  /**
+   * Dispatches Message Batches endpoints:
+   * - `POST /v1/messages/batches`              – Create a batch
+   * - `GET  /v1/messages/batches`              – List batches
+   * - `GET  /v1/messages/batches/{id}`         – Retrieve a batch
+   * - `POST /v1/messages/batches/{id}/cancel`  – Cancel a batch
+   * - `GET  /v1/messages/batches/{id}/results` – Stream results as JSONL
+   *
+   * @returns The response, or null if the path/method is not a batch route.
+   */
+  private async handleBatches(
+    request: Request,
+    url: URL
+  ): Promise<Response | null> {
+    const method = request.method;
+    const path = url.pathname.replace(/\/+$/, "");
+    const baseUrl = url.origin;
+
+    if (path === "/v1/messages/batches") {
+      if (method === "POST") {
+        const body = (await request.json()) as AnthropicCreateBatchRequest;
+        const batch = this.getBatchService().create(body?.requests, baseUrl);
+        return this.jsonResponse(batch);
+      }
+      if (method === "GET") {
+        const limit = this.parseLimit(url.searchParams.get("limit"));
+        const list = this.getBatchService().list(
+          {
+            limit,
+            beforeId: url.searchParams.get("before_id") ?? undefined,
+            afterId: url.searchParams.get("after_id") ?? undefined,
+          },
+          baseUrl
+        );
+        return this.jsonResponse(list);
+      }
+      return null;
+    }
+
+    const match = path.match(/^\/v1\/messages\/batches\/([^/]+)(?:\/(cancel|results))?$/);
+    if (!match) return null;
+
+    const [, batchId, action] = match;
+
+    if (!action && method === "GET") {
+      return this.jsonResponse(this.getBatchService().retrieve(batchId, baseUrl));
+    }
+
+    if (action === "cancel" && method === "POST") {
+      return this.jsonResponse(this.getBatchService().cancel(batchId, baseUrl));
+    }
+
+    if (action === "results" && method === "GET") {
+      return new Response(this.getBatchService().results(batchId), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/x-jsonl",
+          "Access-Control-Allow-Origin": "*",
+        },
+      });
+    }
+
+    return null;
+  }
+
+  /**
+   * Returns the batch service, opening the batch database on first use.
+   */
+  private getBatchService(): BatchService {
+    if (!this.batchService) {
+      const { options } = this.runtime;
+      const path = options.batchDbPath ?? ":memory:";
+      if (path !== ":memory:") {
+        mkdirSync(dirname(path), { recursive: true });
+      }
+
+      this.batchService = new BatchService(
+        new BatchStore(path),
+        (params) => this.executeBatchRequest(params),
+        options.batchConcurrency ?? DEFAULT_BATCH_CONCURRENCY
+      );
+      this.batchService.resume();
+    }
+    return this.batchService;
+  }
+
+  /**
+   * Executes one batch request through the regular Messages pipeline.
+   */
+  private async executeBatchRequest(
+    params: AnthropicMessagesRequest
+  ): Promise<AnthropicMessagesResponse> {
+    this.validateMessagesRequest(params);
+    const prepared = await this.prepareRequest(params);
+
+    this.logger.debug(
+      `Batch request: ${prepared.requestedModel} → ${prepared.capabilities.geminiModel}`
+    );
+
+    return this.generateMessage(prepared);
+  }
+
+  /**
+   * Parses a `limit` pagination query parameter (Anthropic: 1–1000, default 20).
+   */
+  private parseLimit(value: string | null): number {
+    if (value === null) return 20;
+    const limit = parseInt(value, 10);
+    if (!Number.isFinite(limit) || limit < 1 || limit > 1000) {
+      throw new InvalidRequestError("'limit' must be an integer between 1 and 1000.");
+    }
+    return limit;
+  }
+
   // -------------------------------------------------------------------------
   // GET /v1/models
   // -------------------------------------------------------------------------
 
   /**
-   * Lists available models in an Anthropic-compatible format.
+   * Lists available models in the Anthropic models schema, newest first,
+   * with `limit` / `before_id` / `after_id` pagination.
+   */
+  private handleListModels(url: URL): Response {
+    const { modelConfig } = this.runtime;
+    const models = modelConfig
+      .listModels()
+      .map((id) => modelConfig.describe(id))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((info) => this.toModelInfo(info));
+
+    const limit = this.parseLimit(url.searchParams.get("limit"));
+    const beforeId = url.searchParams.get("before_id");
+    const afterId = url.searchParams.get("after_id");
+
+    const cursor = (name: string, id: string) => {
+      const index = models.findIndex((m) => m.id === id);
+      if (index === -1) {
+        throw new InvalidRequestError(`'${name}' does not name a listed model: ${id}`);
+      }
+      return index;
+    };
+
+    let start = 0;
+    let end = models.length;
+    if (afterId) {
+      start = cursor("after_id", afterId) + 1;
+      end = start + limit;
+    } else if (beforeId) {
+      end = cursor("before_id", beforeId);
+      start = Math.max(end - limit, 0);
+    } else {
+      end = limit;
+    }
+
+    const data = models.slice(start, end);
+    const list: AnthropicListResponse<AnthropicModelInfo> = {
+      data,
+      has_more: beforeId ? start > 0 : end < models.length,
+      first_id: data[0]?.id ?? null,
+      last_id: data[data.length - 1]?.id ?? null,
+    };
+
+    return this.jsonResponse(list);
+  }
+
+  /**
+   * Describes a single model: the requested id is resolved through the
+   * model registry, so Claude aliases report the Gemini model they map to.
+   *
+   * @param encodedId - The model id as it appears in the URL path.
+   */
+  private handleGetModel(encodedId: string): Response {
+    let id: string;
+    try {
+      id = decodeURIComponent(encodedId);
+    } catch {
+      throw new InvalidRequestError(`Malformed model id in the URL: ${encodedId}`);
+    }
+    if (!id) {
+      throw new InvalidRequestError("Model id is required.");
+    }
+    if (!this.runtime.modelConfig.isKnown(id)) {
+      throw new NotFoundError(`model: ${id}`);
+    }
+
+    const info = this.runtime.modelConfig.describe(id);
+    const caps = info.capabilities;
+
+    const details: ModelDetails = {
+      ...this.toModelInfo(info),
+      gemini_model: caps.geminiModel,
+      capabilities: {
+        supports_thinking: caps.supportsThinking,
+        is_gemini_3: caps.isGemini3,
+        default_thinking_level: caps.defaultThinkingLevel ?? null,
+        max_output_tokens: caps.maxOutputTokens,
+      },
+    };
+
+    return this.jsonResponse(details);
+  }
+
+  /**
+   * Maps model metadata to the Anthropic model object.
    */
-  private handleListModels(): Response {
-    const models = this.modelConfig.listModels().map((id) => ({
-      id,
-      object: "model",
-      created: Date.now(),
-      owned_by: "google",
-    }));
-
-    return this.jsonResponse({ object: "list", data: models });
+  private toModelInfo(info: ModelInfo): AnthropicModelInfo {
+    return {
+      type: "model",
+      id: info.id,
+      display_name: info.displayName,
+      created_at: info.createdAt,
+    };
   }
 
   // -------------------------------------------------------------------------
@@ -355,7 +1289,37 @@ export class Router {
    * Converts a ProxyError into an Anthropic-formatted error response.
    */
   private errorResponse(error: ProxyError): Response {
-    return this.jsonResponse(error.toResponse(), error.statusCode);
+    return this.withRetryAfter(
+      this.jsonResponse(error.toResponse(), error.statusCode),
+      error
+    );
+  }
+
+  /**
+   * Adds `Retry-After` to rate limit error responses when the wait is known.
+   */
+  private withRetryAfter(response: Response, error: ProxyError): Response {
+    if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+      response.headers.set("Retry-After", String(error.retryAfter));
+    }
+    return response;
+  }
+
+  /**
+   * Reports how many times the Gemini call was retried.
+   */
+  private withRetryCount(response: Response, stats: GeminiRequestStats): Response {
+    response.headers.set(RETRIES_HEADER, String(stats.retries));
+    return response;
+  }
+
+  /**
+   * Reports which Gemini model served the request (differs from the
+   * requested one after a fallback).
+   */
+  private withServedModel(response: Response, capabilities: ModelCapabilities): Response {
+    response.headers.set(MODEL_HEADER, capabilities.geminiModel);
+    return response;
   }
 
   /**
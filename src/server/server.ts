@@ -5,9 +5,13 @@
  * incoming requests to the Router.
  */
 
-import { Router } from "./router";
-import { GeminiClient } from "../services/gemini-client";
-import { ModelConfigService } from "../models/config";
+import { Router, type RouterOptions } from "./router";
+import { GeminiClient, type VertexOptions } from "../services/gemini-client";
+import { KeyPool, type KeyRotationStrategy } from "../services/key-pool";
+import { ModelConfigService, type ModelRegistryOptions } from "../models/config";
+import type { GeminiSafetySetting } from "../models/gemini";
+import type { WebFetchMode } from "../services/web-fetcher";
+import { ServiceAccountAuth } from "../services/vertex-auth";
 import { Logger } from "../utils/logger";
 
 // ---------------------------------------------------------------------------
@@ -22,14 +26,85 @@ export interface ServerOptions {
   /** Host/address to bind to. */
   host: string;
 
-  /** Google AI API key for Gemini. */
+  /** Google AI API key for Gemini (empty when only Vertex AI is used). */
   apiKey: string;
 
+  /** All keys to rotate over (defaults to just `apiKey`). */
+  apiKeys?: string[];
+
+  /** How requests are spread over `apiKeys`. */
+  keyStrategy?: KeyRotationStrategy;
+
   /** Optional custom Gemini API base URL. */
   geminiBaseUrl?: string;
 
   /** Optional model name overrides (Anthropic name → Gemini name). */
   modelOverrides?: Record<string, string>;
+
+  /** Default model, custom registry entries and thinking defaults. */
+  models?: ModelRegistryOptions;
+
+  /** Safety settings sent to Gemini (default: all filters off). */
+  safetySettings?: GeminiSafetySetting[];
+
+  /** SQLite file used to persist message batches. */
+  batchDbPath?: string;
+
+  /** Maximum number of batch requests executed in parallel. */
+  batchConcurrency?: number;
+
+  /** How `web_fetch` is served: `url_context` (default) or `local`. */
+  webFetchMode?: WebFetchMode;
+
+  /** Download timeout of the local web_fetch engine, in milliseconds. */
+  webFetchTimeoutMs?: number;
+
+  /** Maximum download size of the local web_fetch engine, in bytes. */
+  webFetchMaxBytes?: number;
+
+  /** Whether `cache_control` prefixes become Gemini context caches (default: true). */
+  contextCacheEnabled?: boolean;
+
+  /** Minimum number of new prefix tokens worth creating a context cache for. */
+  contextCacheMinTokens?: number;
+
+  /** Idle time between keepalive pings on streams, in milliseconds. */
+  streamPingIntervalMs?: number;
+
+  /** Idle time after which a stream from Gemini is aborted, in milliseconds. */
+  streamStallTimeoutMs?: number;
+
+  /** Retries for transient Gemini errors (429, 5xx). */
+  maxRetries?: number;
+
+  /** Vertex AI project and credentials, for models served from Vertex. */
+  vertex?: VertexSettings;
+}
+
+/** Vertex AI settings as configured by the user. */
+export interface VertexSettings {
+  /** Google Cloud project (defaults to the service account's project). */
+  project?: string;
+
+  /** Region or "global". */
+  location: string;
+
+  /** Path to the service-account JSON key. */
+  credentialsFile: string;
+}
+
+/** API keys and Vertex AI credentials of the Gemini client. */
+interface GeminiCredentials {
+  keyPool: KeyPool | null;
+  vertex?: VertexOptions;
+}
+
+/** Everything a reload replaces, swapped as one unit. */
+interface ServerRuntime {
+  options: ServerOptions;
+  credentials: GeminiCredentials;
+  geminiClient: GeminiClient;
+  modelConfig: ModelConfigService;
 }
 
 // ---------------------------------------------------------------------------
@@ -43,19 +118,135 @@ export interface ServerOptions {
  * independently with its own thought-signature context.
  */
 export class ProxyServer {
-  private readonly options: ServerOptions;
+  private runtime: ServerRuntime;
   private readonly router: Router;
   private readonly logger: Logger;
   private server: ReturnType<typeof Bun.serve> | null = null;
 
   constructor(options: ServerOptions) {
-    this.options = options;
     this.logger = Logger.getInstance();
 
-    const geminiClient = new GeminiClient(options.apiKey, options.geminiBaseUrl);
-    const modelConfig = new ModelConfigService(options.modelOverrides);
+    const modelConfig = new ModelConfigService(options.modelOverrides, options.models);
+    const credentials = ProxyServer.createCredentials(options);
+    const geminiClient = ProxyServer.createGeminiClient(options, credentials, modelConfig);
+    this.runtime = { options, credentials, geminiClient, modelConfig };
+    this.router = new Router(geminiClient, modelConfig, ProxyServer.routerOptions(options));
+  }
 
-    this.router = new Router(geminiClient, modelConfig);
+  /**
+   * Applies new options to the running server. Requests that arrive
+   * afterwards use them; requests in flight finish with the old ones.
+   *
+   * The key pool is only rebuilt when key or Vertex settings changed, so
+   * cooldowns, disabled keys and cached access tokens survive unrelated
+   * reloads. The Gemini client is also rebuilt when the model registry
+   * changed, since it picks each model's backend from the registry.
+   * Port and host changes need a restart and are ignored.
+   *
+   * Nothing is applied unless every part of the new configuration could
+   * be built, so a rejected reload leaves the server as it was.
+   *
+   * @throws {Error} If the new Vertex credentials cannot be loaded or the
+   *         model registry is invalid.
+   */
+  reload(options: ServerOptions): void {
+    const previous = this.runtime.options;
+
+    if (options.port !== previous.port || options.host !== previous.host) {
+      this.logger.warn("Port and host changes take effect after a restart");
+    }
+
+    const keysChanged =
+      JSON.stringify(options.apiKeys ?? [options.apiKey]) !==
+        JSON.stringify(previous.apiKeys ?? [previous.apiKey]) ||
+      options.keyStrategy !== previous.keyStrategy ||
+      options.geminiBaseUrl !== previous.geminiBaseUrl ||
+      options.maxRetries !== previous.maxRetries ||
+      JSON.stringify(options.vertex) !== JSON.stringify(previous.vertex);
+    const modelsChanged = JSON.stringify(options.models) !== JSON.stringify(previous.models);
+
+    const modelConfig = new ModelConfigService(options.modelOverrides, options.models);
+    const credentials = keysChanged
+      ? ProxyServer.createCredentials(options)
+      : this.runtime.credentials;
+    const geminiClient =
+      keysChanged || modelsChanged
+        ? ProxyServer.createGeminiClient(options, credentials, modelConfig)
+        : this.runtime.geminiClient;
+
+    this.router.reconfigure(geminiClient, modelConfig, ProxyServer.routerOptions(options));
+    this.runtime = {
+      options: { ...options, port: previous.port, host: previous.host },
+      credentials,
+      geminiClient,
+      modelConfig,
+    };
+  }
+
+  /**
+   * Builds the key pool and loads the Vertex AI credentials.
+   *
+   * @throws {Error} If the Vertex credentials cannot be loaded.
+   */
+  private static createCredentials(options: ServerOptions): GeminiCredentials {
+    const keys = (options.apiKeys ?? [options.apiKey]).filter(Boolean);
+    return {
+      keyPool: keys.length > 0 ? new KeyPool(keys, { strategy: options.keyStrategy }) : null,
+      vertex: options.vertex ? ProxyServer.vertexOptions(options.vertex) : undefined,
+    };
+  }
+
+  /**
+   * Builds the Gemini client, taking the backend of each model from
+   * `modelConfig` (the config of the same runtime).
+   */
+  private static createGeminiClient(
+    options: ServerOptions,
+    credentials: GeminiCredentials,
+    modelConfig: ModelConfigService
+  ): GeminiClient {
+    return new GeminiClient(credentials.keyPool, options.geminiBaseUrl, {
+      maxRetries: options.maxRetries,
+      vertex: credentials.vertex,
+      backendFor: (model) => modelConfig.backendFor(model),
+    });
+  }
+
+  /**
+   * Loads the service account for Vertex AI.
+   *
+   * @throws {Error} If the key file is unusable or no project is known.
+   */
+  private static vertexOptions(settings: VertexSettings): VertexOptions {
+    const auth = ServiceAccountAuth.fromFile(settings.credentialsFile);
+    const project = settings.project ?? auth.projectId;
+    if (!project) {
+      throw new Error(
+        `No Vertex AI project configured and ${settings.credentialsFile} does not name one.`
+      );
+    }
+    return { project, location: settings.location, auth };
+  }
+
+  private static routerOptions(options: ServerOptions): RouterOptions {
+    return {
+      batchDbPath: options.batchDbPath,
+      batchConcurrency: options.batchConcurrency,
+      webFetchMode: options.webFetchMode,
+      webFetcher: {
+        timeoutMs: options.webFetchTimeoutMs,
+        maxBytes: options.webFetchMaxBytes,
+      },
+      safetySettings: options.safetySettings,
+      contextCache: {
+        enabled: options.contextCacheEnabled,
+        minTokens: options.contextCacheMinTokens,
+      },
+      streaming: {
+        pingIntervalMs: options.streamPingIntervalMs,
+        stallTimeoutMs: options.streamStallTimeoutMs,
+      },
+    };
   }
 
   /**
@@ -68,12 +259,17 @@ export class ProxyServer {
     const logger = this.logger;
 
     this.server = Bun.serve({
-      port: this.options.port,
-      hostname: this.options.host,
+      port: this.runtime.options.port,
+      hostname: this.runtime.options.host,
 
-      async fetch(request: Request): Promise<Response> {
+      async fetch(request: Request, server): Promise<Response> {
         const startTime = performance.now();
 
+        // Bun's default idle timeout (10 s) is shorter than a thinking
+        // model may stay silent. The router bounds Gemini waits with its
+        // own stall timeout instead.
+        server.timeout(request, 0);
+
         try {
           const response = await router.handle(request);
 
@@ -117,6 +313,8 @@ export class ProxyServer {
       },
     });
 
+    this.router.resumeBatches();
+
     return this.server;
   }
 
@@ -0,0 +1,389 @@
+/**
+ * Message Batches service.
+ *
+ * Implements the Anthropic Message Batches API (`/v1/messages/batches`)
+ * on top of the proxy: batches are persisted in a `BatchStore` and their
+ * requests are executed in the background, one regular Messages call per
+ * request, with a global concurrency limit.
+ *
+ * Execution itself is delegated to a `BatchExecutor` supplied by the
+ * Router, so batch requests go through exactly the same conversion
+ * pipeline as `POST /v1/messages`.
+ */
+
+import type {
+  AnthropicBatchRequest,
+  AnthropicBatchResult,
+  AnthropicBatchResultLine,
+  AnthropicListResponse,
+  AnthropicMessageBatch,
+  AnthropicMessagesRequest,
+  AnthropicMessagesResponse,
+} from "../models/anthropic";
+import {
+  BatchStore,
+  type BatchRecord,
+  type ClaimedBatchRequest,
+} from "./batch-store";
+import { InvalidRequestError, NotFoundError, ProxyError } from "../utils/errors";
+import { Logger } from "../utils/logger";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Batches expire 24 hours after creation, like Anthropic's. */
+const BATCH_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Maximum number of requests accepted in a single batch. */
+const MAX_BATCH_REQUESTS = 100_000;
+
+/** Default number of batch requests executed in parallel. */
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/** Valid `custom_id` format (Anthropic: 1–64 chars, alphanumerics, `-`, `_`). */
+const CUSTOM_ID_REGEX = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// ---------------------------------------------------------------------------
+// ID generation
+// ---------------------------------------------------------------------------
+
+function generateBatchId(): string {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  let result = "msgbatch_";
+  for (let i = 0; i < 24; i++) {
+    result += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Executes a single Messages request and returns the Anthropic response. */
+export type BatchExecutor = (
+  params: AnthropicMessagesRequest
+) => Promise<AnthropicMessagesResponse>;
+
+// ---------------------------------------------------------------------------
+// BatchService
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates, tracks and executes message batches.
+ *
+ * @example
+ * ```ts
+ * const batches = new BatchService(new BatchStore(path), executor, 4);
+ * batches.resume();
+ * const batch = batches.create(body.requests, "http://127.0.0.1:8082");
+ * ```
+ */
+export class BatchService {
+  private readonly store: BatchStore;
+  private readonly executor: BatchExecutor;
+  private readonly concurrency: number;
+  private readonly logger: Logger;
+
+  /** Number of requests currently executing. */
+  private active = 0;
+
+  /**
+   * @param store       - Persistent batch storage.
+   * @param executor    - Runs a single Messages request.
+   * @param concurrency - Maximum number of requests executed in parallel.
+   */
+  constructor(store: BatchStore, executor: BatchExecutor, concurrency: number) {
+    this.store = store;
+    this.executor = executor;
+    this.concurrency = Math.max(1, concurrency);
+    this.logger = Logger.getInstance();
+  }
+
+  // -------------------------------------------------------------------------
+  // Public API
+  // -------------------------------------------------------------------------
+
+  /**
+   * Re-queues work interrupted by a previous shutdown and starts
+   * processing any open batches.
+   */
+  resume(): void {
+    const requeued = this.store.requeueInterrupted();
+    const open = this.store.listOpenBatchIds();
+    if (open.length > 0) {
+      this.logger.info("Resuming message batches", {
+        batches: open.length,
+        requeued,
+      });
+    }
+    for (const id of open) {
+      this.store.finalizeBatch(id, new Date().toISOString());
+    }
+    this.pump();
+  }
+
+  /**
+   * Validates and persists a new batch, then starts processing it.
+   *
+   * @param requests - The `requests` array from the create body.
+   * @param baseUrl  - Origin used to build `results_url`.
+   * @throws {InvalidRequestError} If the batch is malformed.
+   */
+  create(requests: AnthropicBatchRequest[], baseUrl: string): AnthropicMessageBatch {
+    this.validateRequests(requests);
+
+    const id = generateBatchId();
+    const now = Date.now();
+    const createdAt = new Date(now).toISOString();
+    const expiresAt = new Date(now + BATCH_TTL_MS).toISOString();
+
+    this.store.createBatch(id, requests, createdAt, expiresAt);
+
+    this.logger.info(`Batch created: ${id}`, { requests: requests.length });
+
+    this.pump();
+    return this.retrieve(id, baseUrl);
+  }
+
+  /**
+   * Returns the current state of a batch.
+   *
+   * @throws {NotFoundError} If the batch does not exist.
+   */
+  retrieve(id: string, baseUrl: string): AnthropicMessageBatch {
+    this.expireOverdue();
+    return this.toMessageBatch(this.getRecord(id), baseUrl);
+  }
+
+  /**
+   * Lists batches, most recent first.
+   */
+  list(
+    options: { limit: number; beforeId?: string; afterId?: string },
+    baseUrl: string
+  ): AnthropicListResponse<AnthropicMessageBatch> {
+    this.expireOverdue();
+
+    const { batches, hasMore } = this.store.listBatches(options);
+    const data = batches.map((b) => this.toMessageBatch(b, baseUrl));
+
+    return {
+      data,
+      has_more: hasMore,
+      first_id: data[0]?.id ?? null,
+      last_id: data[data.length - 1]?.id ?? null,
+    };
+  }
+
+  /**
+   * Cancels a batch. Requests that have not started are canceled
+   * immediately; in-flight requests are allowed to finish.
+   *
+   * @throws {NotFoundError} If the batch does not exist.
+   */
+  cancel(id: string, baseUrl: string): AnthropicMessageBatch {
+    const record = this.getRecord(id);
+
+    if (record.processingStatus === "in_progress") {
+      const now = new Date().toISOString();
+      this.store.cancelBatch(id, now);
+      this.store.finalizeBatch(id, now);
+      this.logger.info(`Batch cancel initiated: ${id}`);
+    }
+
+    return this.retrieve(id, baseUrl);
+  }
+
+  /**
+   * Returns the results of an ended batch as Anthropic-format JSONL.
+   *
+   * @throws {NotFoundError}       If the batch does not exist.
+   * @throws {InvalidRequestError} If the batch is still processing.
+   */
+  results(id: string): string {
+    this.expireOverdue();
+    const record = this.getRecord(id);
+
+    if (record.processingStatus !== "ended") {
+      throw new InvalidRequestError(
+        `Message batch ${id} is still processing; results are available once processing_status is "ended".`
+      );
+    }
+
+    return this.store
+      .getResults(id)
+      .map((row) => {
+        const line: AnthropicBatchResultLine = {
+          custom_id: row.customId,
+          result: row.result ?? { type: "expired" },
+        };
+        return JSON.stringify(line);
+      })
+      .join("\n")
+      .concat("\n");
+  }
+
+  // -------------------------------------------------------------------------
+  // Execution
+  // -------------------------------------------------------------------------
+
+  /**
+   * Starts as many queued requests as the concurrency limit allows.
+   */
+  private pump(): void {
+    this.expireOverdue();
+
+    while (this.active < this.concurrency) {
+      const next = this.store.claimNextRequest();
+      if (!next) return;
+
+      this.active++;
+      this.execute(next).finally(() => {
+        this.active--;
+        this.pump();
+      });
+    }
+  }
+
+  /**
+   * Executes a single claimed request and stores its outcome.
+   */
+  private async execute(claimed: ClaimedBatchRequest): Promise<void> {
+    let result: AnthropicBatchResult;
+
+    try {
+      const message = await this.executor(claimed.params);
+      result = { type: "succeeded", message };
+    } catch (error) {
+      const proxyError =
+        error instanceof ProxyError
+          ? error
+          : new ProxyError(
+              error instanceof Error ? error.message : String(error),
+              500,
+              "api_error"
+            );
+      result = { type: "errored", error: proxyError.toResponse() };
+      this.logger.warn(`Batch request errored: ${claimed.batchId}/${claimed.customId}`, {
+        error: proxyError.message,
+      });
+    }
+
+    try {
+      this.store.completeRequest(
+        claimed.batchId,
+        claimed.position,
+        result.type === "succeeded" ? "succeeded" : "errored",
+        result
+      );
+
+      if (this.store.finalizeBatch(claimed.batchId, new Date().toISOString())) {
+        this.logger.info(`Batch ended: ${claimed.batchId}`);
+      }
+    } catch (error) {
+      this.logger.error("Failed to record batch result", error);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Helpers
+  // -------------------------------------------------------------------------
+
+  /**
+   * Expires pending requests of overdue batches and ends those batches.
+   */
+  private expireOverdue(): void {
+    const now = new Date().toISOString();
+    for (const id of this.store.expireBatches(now)) {
+      this.store.finalizeBatch(id, now);
+    }
+  }
+
+  /**
+   * Loads a batch record or throws a NotFoundError.
+   */
+  private getRecord(id: string): BatchRecord {
+    const record = this.store.getBatch(id);
+    if (!record) {
+      throw new NotFoundError(`Message batch not found: ${id}`);
+    }
+    return record;
+  }
+
+  /**
+   * Validates the `requests` array of a create-batch body.
+   */
+  private validateRequests(requests: AnthropicBatchRequest[]): void {
+    if (!Array.isArray(requests) || requests.length === 0) {
+      throw new InvalidRequestError(
+        "'requests' is required and must be a non-empty array."
+      );
+    }
+    if (requests.length > MAX_BATCH_REQUESTS) {
+      throw new InvalidRequestError(
+        `A batch may contain at most ${MAX_BATCH_REQUESTS} requests.`
+      );
+    }
+
+    const seen = new Set<string>();
+    requests.forEach((req, i) => {
+      const where = `requests[${i}]`;
+
+      if (typeof req?.custom_id !== "string" || !CUSTOM_ID_REGEX.test(req.custom_id)) {
+        throw new InvalidRequestError(
+          `${where}.custom_id must be 1-64 characters of letters, digits, '-' or '_'.`
+        );
+      }
+      if (seen.has(req.custom_id)) {
+        throw new InvalidRequestError(
+          `${where}.custom_id '${req.custom_id}' is not unique within the batch.`
+        );
+      }
+      seen.add(req.custom_id);
+
+      const params = req.params;
+      if (!params || typeof params !== "object") {
+        throw new InvalidRequestError(`${where}.params is required.`);
+      }
+      if (!Array.isArray(params.messages)) {
+        throw new InvalidRequestError(
+          `${where}.params.messages is required and must be an array.`
+        );
+      }
+      if (typeof params.max_tokens !== "number") {
+        throw new InvalidRequestError(
+          `${where}.params.max_tokens is required and must be a number.`
+        );
+      }
+      if (params.stream) {
+        throw new InvalidRequestError(
+          `${where}.params.stream is not supported for batch requests.`
+        );
+      }
+    });
+  }
+
+  /**
+   * Builds the Anthropic message batch object for a stored record.
+   */
+  private toMessageBatch(record: BatchRecord, baseUrl: string): AnthropicMessageBatch {
+    const ended = record.processingStatus === "ended";
+
+    return {
+      id: record.id,
+      type: "message_batch",
+      processing_status: record.processingStatus,
+      request_counts: this.store.countRequests(record.id),
+      ended_at: record.endedAt,
+      created_at: record.createdAt,
+      expires_at: record.expiresAt,
+      archived_at: null,
+      cancel_initiated_at: record.cancelInitiatedAt,
+      results_url: ended
+        ? `${baseUrl}/v1/messages/batches/${record.id}/results`
+        : null,
+    };
+  }
+}
@@ -0,0 +1,459 @@
+/**
+ * Persistent storage for Message Batches.
+ *
+ * Batches and their individual requests are stored in a local SQLite
+ * database (via `bun:sqlite`) so that queued work survives proxy
+ * restarts. The store is purely a data layer — scheduling and execution
+ * live in `BatchService`.
+ */
+
+import { Database } from "bun:sqlite";
+import type {
+  AnthropicBatchProcessingStatus,
+  AnthropicBatchRequest,
+  AnthropicBatchRequestCounts,
+  AnthropicBatchResult,
+  AnthropicMessagesRequest,
+} from "../models/anthropic";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Lifecycle status of a single request within a batch. */
+export type BatchRequestStatus =
+  | "pending"
+  | "processing"
+  | "succeeded"
+  | "errored"
+  | "canceled"
+  | "expired";
+
+/** A persisted batch row. */
+export interface BatchRecord {
+  id: string;
+  createdAt: string;
+  expiresAt: string;
+  endedAt: string | null;
+  cancelInitiatedAt: string | null;
+  processingStatus: AnthropicBatchProcessingStatus;
+}
+
+/** A request claimed for execution. */
+export interface ClaimedBatchRequest {
+  batchId: string;
+  position: number;
+  customId: string;
+  params: AnthropicMessagesRequest;
+}
+
+/** A stored request outcome, in submission order. */
+export interface BatchResultRecord {
+  customId: string;
+  status: BatchRequestStatus;
+  result: AnthropicBatchResult | null;
+}
+
+/** Pagination options for listing batches. */
+export interface BatchListOptions {
+  limit: number;
+  beforeId?: string;
+  afterId?: string;
+}
+
+/** Raw row shape returned by SQLite for the batches table. */
+interface BatchRow {
+  id: string;
+  created_at: string;
+  expires_at: string;
+  ended_at: string | null;
+  cancel_initiated_at: string | null;
+  processing_status: AnthropicBatchProcessingStatus;
+}
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS message_batches (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    ended_at TEXT,
+    cancel_initiated_at TEXT,
+    processing_status TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS message_batch_requests (
+    batch_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    custom_id TEXT NOT NULL,
+    params TEXT NOT NULL,
+    status TEXT NOT NULL,
+    result TEXT,
+    PRIMARY KEY (batch_id, position)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_message_batch_requests_status
+    ON message_batch_requests (status);
+`;
+
+// ---------------------------------------------------------------------------
+// BatchStore
+// ---------------------------------------------------------------------------
+
+/**
+ * SQLite-backed repository for batches and batch requests.
+ *
+ * @example
+ * ```ts
+ * const store = new BatchStore(":memory:");
+ * store.createBatch("msgbatch_123", requests, createdAt, expiresAt);
+ * ```
+ */
+export class BatchStore {
+  private readonly db: Database;
+
+  /**
+   * @param path - SQLite file path, or `":memory:"` for an ephemeral store.
+   */
+  constructor(path: string) {
+    this.db = new Database(path, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * Inserts a new batch and all of its requests in a single transaction.
+   */
+  createBatch(
+    id: string,
+    requests: AnthropicBatchRequest[],
+    createdAt: string,
+    expiresAt: string
+  ): void {
+    const insertBatch = this.db.query(
+      `INSERT INTO message_batches (id, created_at, expires_at, processing_status)
+       VALUES (?, ?, ?, 'in_progress')`
+    );
+    const insertRequest = this.db.query(
+      `INSERT INTO message_batch_requests (batch_id, position, custom_id, params, status)
+       VALUES (?, ?, ?, ?, 'pending')`
+    );
+
+    this.db.transaction(() => {
+      insertBatch.run(id, createdAt, expiresAt);
+      requests.forEach((req, position) => {
+        insertRequest.run(id, position, req.custom_id, JSON.stringify(req.params));
+      });
+    })();
+  }
+
+  /**
+   * Returns a batch by id, or null if it does not exist.
+   */
+  getBatch(id: string): BatchRecord | null {
+    const row = this.db
+      .query("SELECT * FROM message_batches WHERE id = ?")
+      .get(id) as BatchRow | null;
+    return row ? this.toRecord(row) : null;
+  }
+
+  /**
+   * Lists batches, most recent first.
+   *
+   * `afterId` returns the page immediately after (older than) the given
+   * batch; `beforeId` returns the page immediately before (newer than) it.
+   */
+  listBatches(options: BatchListOptions): {
+    batches: BatchRecord[];
+    hasMore: boolean;
+  } {
+    const fetchLimit = options.limit + 1;
+    let rows: BatchRow[];
+
+    if (options.beforeId) {
+      rows = this.db
+        .query(
+          `SELECT * FROM message_batches
+           WHERE seq > (SELECT seq FROM message_batches WHERE id = ?)
+           ORDER BY seq ASC LIMIT ?`
+        )
+        .all(options.beforeId, fetchLimit) as BatchRow[];
+      const hasMore = rows.length > options.limit;
+      rows = rows.slice(0, options.limit).reverse();
+      return { batches: rows.map((r) => this.toRecord(r)), hasMore };
+    }
+
+    if (options.afterId) {
+      rows = this.db
+        .query(
+          `SELECT * FROM message_batches
+           WHERE seq < (SELECT seq FROM message_batches WHERE id = ?)
+           ORDER BY seq DESC LIMIT ?`
+        )
+        .all(options.afterId, fetchLimit) as BatchRow[];
+    } else {
+      rows = this.db
+        .query("SELECT * FROM message_batches ORDER BY seq DESC LIMIT ?")
+        .all(fetchLimit) as BatchRow[];
+    }
+
+    const hasMore = rows.length > options.limit;
+    return {
+      batches: rows.slice(0, options.limit).map((r) => this.toRecord(r)),
+      hasMore,
+    };
+  }
+
+  /**
+   * Tallies a batch's requests by status, in the Anthropic counts shape.
+   * Pending and in-flight requests are both reported as `processing`.
+   */
+  countRequests(batchId: string): AnthropicBatchRequestCounts {
+    const rows = this.db
+      .query(
+        `SELECT status, COUNT(*) AS count FROM message_batch_requests
+         WHERE batch_id = ? GROUP BY status`
+      )
+      .all(batchId) as Array<{ status: BatchRequestStatus; count: number }>;
+
+    const counts: AnthropicBatchRequestCounts = {
+      processing: 0,
+      succeeded: 0,
+      errored: 0,
+      canceled: 0,
+      expired: 0,
+    };
+
+    for (const row of rows) {
+      if (row.status === "pending" || row.status === "processing") {
+        counts.processing += row.count;
+      } else {
+        counts[row.status] += row.count;
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Atomically claims the oldest pending request of an in-progress batch
+   * and marks it as `processing`.
+   *
+   * @returns The claimed request, or null when the queue is empty.
+   */
+  claimNextRequest(): ClaimedBatchRequest | null {
+    return this.db.transaction(() => {
+      const row = this.db
+        .query(
+          `SELECT r.batch_id, r.position, r.custom_id, r.params
+           FROM message_batch_requests r
+           JOIN message_batches b ON b.id = r.batch_id
+           WHERE r.status = 'pending' AND b.processing_status = 'in_progress'
+           ORDER BY b.seq ASC, r.position ASC
+           LIMIT 1`
+        )
+        .get() as {
+        batch_id: string;
+        position: number;
+        custom_id: string;
+        params: string;
+      } | null;
+
+      if (!row) return null;
+
+      this.db
+        .query(
+          `UPDATE message_batch_requests SET status = 'processing'
+           WHERE batch_id = ? AND position = ?`
+        )
+        .run(row.batch_id, row.position);
+
+      return {
+        batchId: row.batch_id,
+        position: row.position,
+        customId: row.custom_id,
+        params: JSON.parse(row.params) as AnthropicMessagesRequest,
+      };
+    })();
+  }
+
+  /**
+   * Records the outcome of an executed request.
+   */
+  completeRequest(
+    batchId: string,
+    position: number,
+    status: BatchRequestStatus,
+    result: AnthropicBatchResult
+  ): void {
+    this.db
+      .query(
+        `UPDATE message_batch_requests SET status = ?, result = ?
+         WHERE batch_id = ? AND position = ?`
+      )
+      .run(status, JSON.stringify(result), batchId, position);
+  }
+
+  /**
+   * Moves a batch into `canceling` and cancels every request that has
+   * not started yet. In-flight requests are left to finish.
+   */
+  cancelBatch(id: string, at: string): void {
+    this.db.transaction(() => {
+      this.db
+        .query(
+          `UPDATE message_batches
+           SET processing_status = 'canceling', cancel_initiated_at = ?
+           WHERE id = ? AND processing_status = 'in_progress'`
+        )
+        .run(at, id);
+      this.db
+        .query(
+          `UPDATE message_batch_requests SET status = 'canceled', result = ?
+           WHERE batch_id = ? AND status = 'pending'`
+        )
+        .run(JSON.stringify({ type: "canceled" }), id);
+    })();
+  }
+
+  /**
+   * Expires the pending requests of every batch past its `expires_at`.
+   *
+   * @returns The ids of batches that had requests expired.
+   */
+  expireBatches(now: string): string[] {
+    const rows = this.db
+      .query(
+        `SELECT id FROM message_batches
+         WHERE processing_status != 'ended' AND expires_at <= ?`
+      )
+      .all(now) as Array<{ id: string }>;
+
+    const expire = this.db.query(
+      `UPDATE message_batch_requests SET status = 'expired', result = ?
+       WHERE batch_id = ? AND status = 'pending'`
+    );
+    const expiredResult = JSON.stringify({ type: "expired" });
+
+    this.db.transaction(() => {
+      for (const row of rows) {
+        expire.run(expiredResult, row.id);
+      }
+    })();
+
+    return rows.map((r) => r.id);
+  }
+
+  /**
+   * Marks a batch as ended if it has no pending or in-flight requests.
+   *
+   * @returns True if the batch transitioned to `ended`.
+   */
+  finalizeBatch(id: string, at: string): boolean {
+    const remaining = this.db
+      .query(
+        `SELECT COUNT(*) AS count FROM message_batch_requests
+         WHERE batch_id = ? AND status IN ('pending', 'processing')`
+      )
+      .get(id) as { count: number };
+
+    if (remaining.count > 0) return false;
+
+    const result = this.db
+      .query(
+        `UPDATE message_batches SET processing_status = 'ended', ended_at = ?
+         WHERE id = ? AND processing_status != 'ended'`
+      )
+      .run(at, id);
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Returns all request outcomes of a batch, in submission order.
+   */
+  getResults(batchId: string): BatchResultRecord[] {
+    const rows = this.db
+      .query(
+        `SELECT custom_id, status, result FROM message_batch_requests
+         WHERE batch_id = ? ORDER BY position ASC`
+      )
+      .all(batchId) as Array<{
+      custom_id: string;
+      status: BatchRequestStatus;
+      result: string | null;
+    }>;
+
+    return rows.map((row) => ({
+      customId: row.custom_id,
+      status: row.status,
+      result: row.result ? (JSON.parse(row.result) as AnthropicBatchResult) : null,
+    }));
+  }
+
+  /**
+   * Returns requests left `processing` by a previous process to the
+   * pending queue. Called once at startup.
+   *
+   * Requests of a batch that was being canceled are canceled instead:
+   * only in-progress batches are worked on, so they would never run.
+   *
+   * @returns The number of requests re-queued.
+   */
+  requeueInterrupted(): number {
+    return this.db.transaction(() => {
+      this.db
+        .query(
+          `UPDATE message_batch_requests SET status = 'canceled', result = ?
+           WHERE status = 'processing' AND batch_id IN (
+             SELECT id FROM message_batches WHERE processing_status = 'canceling'
+           )`
+        )
+        .run(JSON.stringify({ type: "canceled" }));
+
+      return this.db
+        .query(
+          `UPDATE message_batch_requests SET status = 'pending'
+           WHERE status = 'processing'`
+        )
+        .run().changes;
+    })();
+  }
+
+  /**
+   * Returns the ids of batches that have not ended yet.
+   */
+  listOpenBatchIds(): string[] {
+    const rows = this.db
+      .query(
+        "SELECT id FROM message_batches WHERE processing_status != 'ended'"
+      )
+      .all() as Array<{ id: string }>;
+    return rows.map((r) => r.id);
+  }
+
+  /**
+   * Closes the underlying database handle.
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Maps a raw SQLite row to a BatchRecord.
+   */
+  private toRecord(row: BatchRow): BatchRecord {
+    return {
+      id: row.id,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+      endedAt: row.ended_at,
+      cancelInitiatedAt: row.cancel_initiated_at,
+      processingStatus: row.processing_status,
+    };
+  }
+}
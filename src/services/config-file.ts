@@ -0,0 +1,906 @@
+/**
+ * Declarative configuration file.
+ *
+ * Settings can be kept in `gemini-claude-code.config.json` or
+ * `gemini-claude-code.config.toml` instead of (or in addition to) CLI
+ * flags and environment variables. The file is looked up in:
+ *
+ * 1. The path given with `--config` (must exist).
+ * 2. The current working directory.
+ * 3. `$XDG_CONFIG_HOME/gemini-claude-code/` (default `~/.config/gemini-claude-code/`).
+ *
+ * The file is validated against a fixed schema; every problem is reported
+ * with its path (e.g. `server.port must be an integer between 1 and
+ * 65535, got "80a"`). Relative paths inside the file are resolved against
+ * the file's directory.
+ *
+ * `ConfigWatcher` reloads the file when it or its API keys file changes
+ * (or on demand, e.g. on SIGHUP), logging what changed and keeping the previous config when
+ * the new one is invalid.
+ */
+
+import { existsSync, readFileSync, watch, type FSWatcher } from "fs";
+import { homedir } from "os";
+import { basename, dirname, extname, join, resolve } from "path";
+import {
+  ModelConfigService,
+  type GeminiBackend,
+  type ModelDefinition,
+  type ModelRoute,
+  type ThinkingLevel,
+} from "../models/config";
+import type {
+  GeminiHarmBlockThreshold,
+  GeminiHarmCategory,
+  GeminiSafetySetting,
+} from "../models/gemini";
+import { KeyPool, type KeyRotationStrategy } from "./key-pool";
+import type { WebFetchMode } from "./web-fetcher";
+import { Logger } from "../utils/logger";
+
+// ---------------------------------------------------------------------------
+// Types & constants
+// ---------------------------------------------------------------------------
+
+/** The contents of a validated config file. Every section is optional. */
+export interface FileConfig {
+  server?: {
+    port?: number;
+    host?: string;
+  };
+
+  gemini?: {
+    /** API keys to rotate over. */
+    apiKeys?: string[];
+    /** File with one API key per line. */
+    apiKeysFile?: string;
+    keyStrategy?: KeyRotationStrategy;
+    baseUrl?: string;
+    maxRetries?: number;
+  };
+
+  vertex?: {
+    /** Google Cloud project (defaults to the service account's project). */
+    project?: string;
+    /** Region (e.g. "us-central1") or "global". */
+    location?: string;
+    /** Service-account JSON key (`$GOOGLE_APPLICATION_CREDENTIALS` overrides it). */
+    credentialsFile?: string;
+  };
+
+  models?: {
+    /** Model every `claude-*` name resolves to. */
+    default?: string;
+    /** Backend for models that don't declare their own. */
+    defaultBackend?: GeminiBackend;
+    /** Model name → Gemini model (or registry alias). */
+    aliases?: Record<string, string>;
+    /** Ordered glob/regex routing rules. */
+    routes?: ModelRoute[];
+    /** Additional or replacement registry entries. */
+    registry?: Record<string, ModelDefinition>;
+  };
+
+  thinking?: {
+    /** Thinking level for Gemini 3 models that don't declare their own. */
+    defaultLevel?: ThinkingLevel;
+  };
+
+  /** Safety settings sent with every request (default: all filters off). */
+  safetySettings?: GeminiSafetySetting[];
+
+  caching?: {
+    /** Turn `cache_control` prefixes into Gemini context caches. */
+    enabled?: boolean;
+    /** Minimum number of new prefix tokens worth creating a cache for. */
+    minTokens?: number;
+  };
+
+  streaming?: {
+    /** Idle time between keepalive pings, in milliseconds (0 turns them off). */
+    pingIntervalMs?: number;
+    /** Idle time after which a stream is aborted, in milliseconds (0 waits forever). */
+    stallTimeoutMs?: number;
+  };
+
+  webTools?: {
+    fetchMode?: WebFetchMode;
+    /** Download timeout of the local fetcher, in milliseconds. */
+    fetchTimeoutMs?: number;
+    /** Maximum download size of the local fetcher, in bytes. */
+    fetchMaxBytes?: number;
+  };
+
+  batches?: {
+    concurrency?: number;
+    dbPath?: string;
+  };
+
+  logging?: {
+    level?: ConfigLogLevel;
+  };
+}
+
+/** Log levels accepted in the config file. */
+export type ConfigLogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+/** A config file found on disk. */
+export interface LoadedConfig {
+  path: string;
+  config: FileConfig;
+}
+
+/** File names looked up in each search directory, in order. */
+export const CONFIG_FILE_NAMES = [
+  "gemini-claude-code.config.json",
+  "gemini-claude-code.config.toml",
+];
+
+/** Quiet period after a file change before reloading (editors write in bursts). */
+const RELOAD_DEBOUNCE_MS = 200;
+
+const LOG_LEVELS: ConfigLogLevel[] = ["debug", "info", "warn", "error", "silent"];
+
+const THINKING_LEVELS: ThinkingLevel[] = ["MINIMAL", "LOW", "MEDIUM", "HIGH"];
+
+const BACKENDS: GeminiBackend[] = ["gemini", "vertex"];
+
+const HARM_CATEGORIES: GeminiHarmCategory[] = [
+  "HARM_CATEGORY_HARASSMENT",
+  "HARM_CATEGORY_HATE_SPEECH",
+  "HARM_CATEGORY_SEXUALLY_EXPLICIT",
+  "HARM_CATEGORY_DANGEROUS_CONTENT",
+  "HARM_CATEGORY_CIVIC_INTEGRITY",
+];
+
+const HARM_THRESHOLDS: GeminiHarmBlockThreshold[] = [
+  "BLOCK_NONE",
+  "BLOCK_LOW_AND_ABOVE",
+  "BLOCK_MEDIUM_AND_ABOVE",
+  "BLOCK_ONLY_HIGH",
+];
+
+/** An invalid or unreadable config file. */
+export class ConfigError extends Error {
+  /** One entry per problem, each starting with the offending path. */
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid config file ${source}:\n  - ${issues.join("\n  - ")}`);
+    this.name = "ConfigError";
+    this.issues = issues;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Lookup & parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Finds and loads the config file.
+ *
+ * @param explicitPath - Path from `--config`; an error if it doesn't exist.
+ * @param cwd          - Directory searched first.
+ * @param env          - Environment (for `XDG_CONFIG_HOME`).
+ * @returns The loaded config, or `null` if no file was found.
+ * @throws {ConfigError} If the file cannot be read, parsed or validated.
+ */
+export function loadConfigFile(
+  explicitPath?: string,
+  cwd: string = process.cwd(),
+  env: Record<string, string | undefined> = process.env
+): LoadedConfig | null {
+  const path = explicitPath ? resolve(cwd, explicitPath) : findConfigFile(cwd, env);
+  if (!path) return null;
+
+  if (!existsSync(path)) {
+    throw new ConfigError(path, ["file not found"]);
+  }
+
+  let text: string;
+  try {
+    text = readFileSync(path, "utf-8");
+  } catch (error) {
+    throw new ConfigError(path, [error instanceof Error ? error.message : String(error)]);
+  }
+
+  return { path, config: parseConfig(text, path) };
+}
+
+/**
+ * Returns the first config file in the search directories, if any.
+ */
+export function findConfigFile(
+  cwd: string,
+  env: Record<string, string | undefined>
+): string | null {
+  const xdgHome = env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  const directories = [cwd, join(xdgHome, "gemini-claude-code")];
+
+  for (const directory of directories) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(directory, name);
+      if (existsSync(candidate)) return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parses and validates a config file's text. The format is taken from the
+ * extension of `source` (`.toml`, anything else is JSON).
+ *
+ * @throws {ConfigError} On syntax errors and schema violations.
+ */
+export function parseConfig(text: string, source: string): FileConfig {
+  let raw: unknown;
+  try {
+    raw = extname(source) === ".toml" ? Bun.TOML.parse(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(source, [
+      `syntax error: ${error instanceof Error ? error.message : String(error)}`,
+    ]);
+  }
+
+  const validator = new ConfigValidator();
+  const config = validator.validate(raw);
+  if (validator.issues.length > 0) {
+    throw new ConfigError(source, validator.issues);
+  }
+
+  // Resolve paths relative to the config file
+  const baseDir = dirname(resolve(source));
+  if (config.gemini?.apiKeysFile) {
+    config.gemini.apiKeysFile = resolve(baseDir, config.gemini.apiKeysFile);
+  }
+  if (config.vertex?.credentialsFile) {
+    config.vertex.credentialsFile = resolve(baseDir, config.vertex.credentialsFile);
+  }
+  if (config.batches?.dbPath && config.batches.dbPath !== ":memory:") {
+    config.batches.dbPath = resolve(baseDir, config.batches.dbPath);
+  }
+
+  return config;
+}
+
+/**
+ * Lists the settings that differ between two configs, one line per
+ * setting (`server.port: 8082 → 9000`). API keys are reported by their
+ * last four characters only.
+ */
+export function diffConfig(previous: FileConfig, next: FileConfig): string[] {
+  const before = flattenConfig(previous);
+  const after = flattenConfig(next);
+  const paths = [...new Set([...before.keys(), ...after.keys()])].sort();
+
+  return paths
+    .filter((path) => before.get(path) !== after.get(path))
+    .map((path) => `${path}: ${before.get(path) ?? "(unset)"} → ${after.get(path) ?? "(unset)"}`);
+}
+
+/** Lists API keys by their last four characters only. */
+function maskKeys(keys: string[]): string {
+  return keys.map((key) => `****${key.slice(-4)}`).join(", ");
+}
+
+/** Flattens a config into `dotted.path → printable value`. */
+function flattenConfig(value: unknown, prefix = "", out = new Map<string, string>()) {
+  if (value === undefined) return out;
+
+  if (prefix === "gemini.apiKeys" && Array.isArray(value)) {
+    out.set(prefix, maskKeys(value));
+  } else if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flattenConfig(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else {
+    out.set(prefix, JSON.stringify(value));
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Vertex AI
+// ---------------------------------------------------------------------------
+
+/** Vertex AI settings, from the config file or the environment. */
+export type VertexConfig = NonNullable<FileConfig["vertex"]>;
+
+/**
+ * Resolves the Vertex AI settings. The environment
+ * (`GOOGLE_APPLICATION_CREDENTIALS`, `GOOGLE_CLOUD_PROJECT`,
+ * `GOOGLE_CLOUD_LOCATION`) overrides the file, like flags and
+ * environment variables do for every other setting; the location
+ * defaults to `global`.
+ *
+ * @returns The settings, or `undefined` if Vertex AI is not used.
+ * @throws {Error} If Vertex AI is used without a service-account key.
+ */
+export function resolveVertexConfig(
+  file: FileConfig,
+  env: VertexConfig
+): (VertexConfig & { location: string; credentialsFile: string }) | undefined {
+  const usesVertex =
+    file.models?.defaultBackend === "vertex" ||
+    Object.values(file.models?.registry ?? {}).some((m) => m.backend === "vertex");
+  if (!file.vertex && !usesVertex) return undefined;
+
+  const credentialsFile = env.credentialsFile ?? file.vertex?.credentialsFile;
+  if (!credentialsFile) {
+    throw new Error(
+      "Vertex AI needs a service account: set vertex.credentialsFile or GOOGLE_APPLICATION_CREDENTIALS."
+    );
+  }
+  return {
+    project: env.project ?? file.vertex?.project,
+    location: env.location ?? file.vertex?.location ?? "global",
+    credentialsFile,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// ConfigWatcher
+// ---------------------------------------------------------------------------
+
+/** Optional ConfigWatcher settings. */
+export interface ConfigWatcherOptions {
+  /**
+   * API keys file given outside the config file (e.g. `--api-keys-file`),
+   * used instead of the file's `gemini.apiKeysFile`.
+   */
+  apiKeysFile?: string;
+}
+
+/**
+ * Watches a config file, and the API keys file it uses, and hands every
+ * valid new version to a callback.
+ *
+ * A reload compares the config and the keys read from the keys file, so
+ * rotating keys in that file is picked up like any config edit.
+ * Invalid versions (syntax or schema errors, or a callback that throws)
+ * are logged and ignored, so the previous config stays active.
+ *
+ * @example
+ * ```ts
+ * const watcher = new ConfigWatcher(path, config, (next) => server.reload(toOptions(next)));
+ * watcher.start();
+ * process.on("SIGHUP", () => watcher.reload({ force: true }));
+ * ```
+ */
+export class ConfigWatcher {
+  private readonly path: string;
+  private readonly onChange: (config: FileConfig, previous: FileConfig) => void;
+  private readonly options: ConfigWatcherOptions;
+  private readonly logger: Logger;
+  private current: FileConfig;
+
+  /** Keys read from the keys file of the current config. */
+  private currentKeys: string[];
+
+  private watchers: FSWatcher[] = [];
+  private watching = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    path: string,
+    initial: FileConfig,
+    onChange: (config: FileConfig, previous: FileConfig) => void,
+    options: ConfigWatcherOptions = {}
+  ) {
+    this.path = path;
+    this.current = initial;
+    this.onChange = onChange;
+    this.options = options;
+    this.logger = Logger.getInstance();
+    this.currentKeys = this.readKeys(initial);
+  }
+
+  /** The config currently in effect. */
+  get config(): FileConfig {
+    return this.current;
+  }
+
+  /**
+   * Starts watching. Directories are watched rather than the files so
+   * editors that save by replacing a file are picked up too.
+   */
+  start(): void {
+    if (this.watching) return;
+    this.watching = true;
+    this.watchFiles();
+  }
+
+  /** Stops watching. */
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.watching = false;
+    this.closeWatchers();
+  }
+
+  /**
+   * Re-reads the config and keys files and applies them if they are
+   * valid and changed.
+   *
+   * @param options - `force` applies the config even if nothing changed
+   *                  (e.g. on SIGHUP).
+   * @returns Whether a new config was applied.
+   */
+  reload(options: { force?: boolean } = {}): boolean {
+    let next: FileConfig;
+    try {
+      next = loadConfigFile(this.path)!.config;
+    } catch (error) {
+      this.logger.error(
+        "Config reload rejected, keeping the previous config",
+        error instanceof ConfigError ? error.issues : String(error)
+      );
+      return false;
+    }
+
+    const nextKeys = this.readKeys(next);
+    const changes = diffConfig(this.current, next);
+    if (maskKeys(nextKeys) !== maskKeys(this.currentKeys)) {
+      changes.push(
+        `API keys file: ${maskKeys(this.currentKeys) || "(none)"} → ${maskKeys(nextKeys) || "(none)"}`
+      );
+    }
+    if (changes.length === 0 && !options.force) {
+      this.logger.debug(`Config file ${this.path} reloaded, nothing changed`);
+      return false;
+    }
+
+    try {
+      this.onChange(next, this.current);
+    } catch (error) {
+      this.logger.error(
+        "Config reload rejected, keeping the previous config",
+        error instanceof Error ? error.message : String(error)
+      );
+      return false;
+    }
+
+    const previousKeysFile = this.keysFile(this.current);
+    this.current = next;
+    this.currentKeys = nextKeys;
+    if (this.watching && this.keysFile(next) !== previousKeysFile) {
+      this.watchFiles();
+    }
+    this.logger.info(
+      `Config reloaded from ${this.path}`,
+      changes.length > 0 ? changes : "nothing changed"
+    );
+    return true;
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  /** The API keys file in effect for a config, if any. */
+  private keysFile(config: FileConfig): string | undefined {
+    return this.options.apiKeysFile ?? config.gemini?.apiKeysFile;
+  }
+
+  /** Reads the keys of a config's keys file (none if it cannot be read). */
+  private readKeys(config: FileConfig): string[] {
+    const file = this.keysFile(config);
+    if (!file) return [];
+    try {
+      return KeyPool.parseKeys(readFileSync(file, "utf-8"));
+    } catch {
+      return [];
+    }
+  }
+
+  /** (Re)creates the watchers of the config file and the keys file. */
+  private watchFiles(): void {
+    this.closeWatchers();
+
+    const files = [this.path, this.keysFile(this.current)].filter(
+      (file): file is string => !!file
+    );
+    for (const dir of new Set(files.map((file) => dirname(file)))) {
+      const names = new Set(files.filter((file) => dirname(file) === dir).map((f) => basename(f)));
+      try {
+        this.watchers.push(
+          watch(dir, (_event, filename) => {
+            if (filename && names.has(filename)) this.scheduleReload();
+          })
+        );
+      } catch (error) {
+        this.logger.warn(`Cannot watch ${dir} for changes`, String(error));
+      }
+    }
+  }
+
+  private scheduleReload(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.reload();
+    }, RELOAD_DEBOUNCE_MS);
+  }
+
+  private closeWatchers(): void {
+    for (const watcher of this.watchers) watcher.close();
+    this.watchers = [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Schema validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Checks a parsed config object against the schema, collecting every
+ * problem instead of stopping at the first one.
+ */
+class ConfigValidator {
+  readonly issues: string[] = [];
+
+  validate(raw: unknown): FileConfig {
+    const root = this.object(raw, "(root)");
+    if (!root) return {};
+
+    this.keys(root, "", [
+      "server",
+      "gemini",
+      "vertex",
+      "models",
+      "thinking",
+      "safetySettings",
+      "caching",
+      "streaming",
+      "webTools",
+      "batches",
+      "logging",
+    ]);
+    const config: FileConfig = {};
+
+    const server = this.section(root, "server", ["port", "host"]);
+    if (server) {
+      config.server = {
+        port: this.integer(server.port, "server.port", 1, 65_535),
+        host: this.string(server.host, "server.host"),
+      };
+    }
+
+    const gemini = this.section(root, "gemini", [
+      "apiKeys",
+      "apiKeysFile",
+      "keyStrategy",
+      "baseUrl",
+      "maxRetries",
+    ]);
+    if (gemini) {
+      config.gemini = {
+        apiKeys:
+          typeof gemini.apiKeys === "string"
+            ? [gemini.apiKeys]
+            : this.stringArray(gemini.apiKeys, "gemini.apiKeys"),
+        apiKeysFile: this.string(gemini.apiKeysFile, "gemini.apiKeysFile"),
+        keyStrategy: this.oneOf(gemini.keyStrategy, "gemini.keyStrategy", [
+          "round-robin",
+          "least-recently-limited",
+        ]),
+        baseUrl: this.url(gemini.baseUrl, "gemini.baseUrl"),
+        maxRetries: this.integer(gemini.maxRetries, "gemini.maxRetries", 0, 10),
+      };
+    }
+
+    const vertex = this.section(root, "vertex", ["project", "location", "credentialsFile"]);
+    if (vertex) {
+      config.vertex = {
+        project: this.string(vertex.project, "vertex.project"),
+        location: this.string(vertex.location, "vertex.location"),
+        credentialsFile: this.string(vertex.credentialsFile, "vertex.credentialsFile"),
+      };
+    }
+
+    const models = this.section(root, "models", [
+      "default",
+      "defaultBackend",
+      "aliases",
+      "routes",
+      "registry",
+    ]);
+    if (models) {
+      config.models = {
+        default: this.string(models.default, "models.default"),
+        defaultBackend: this.oneOf(models.defaultBackend, "models.defaultBackend", BACKENDS),
+        aliases: this.stringRecord(models.aliases, "models.aliases"),
+        routes: this.routes(models.routes, "models.routes"),
+        registry: this.registry(models.registry, "models.registry"),
+      };
+    }
+
+    const thinking = this.section(root, "thinking", ["defaultLevel"]);
+    if (thinking) {
+      config.thinking = {
+        defaultLevel: this.oneOf(thinking.defaultLevel, "thinking.defaultLevel", THINKING_LEVELS),
+      };
+    }
+
+    if (root.safetySettings !== undefined) {
+      config.safetySettings = this.safetySettings(root.safetySettings, "safetySettings");
+    }
+
+    const caching = this.section(root, "caching", ["enabled", "minTokens"]);
+    if (caching) {
+      config.caching = {
+        enabled: this.boolean(caching.enabled, "caching.enabled"),
+        minTokens: this.integer(caching.minTokens, "caching.minTokens", 1),
+      };
+    }
+
+    const streaming = this.section(root, "streaming", ["pingIntervalMs", "stallTimeoutMs"]);
+    if (streaming) {
+      config.streaming = {
+        pingIntervalMs: this.integer(streaming.pingIntervalMs, "streaming.pingIntervalMs", 0),
+        stallTimeoutMs: this.integer(streaming.stallTimeoutMs, "streaming.stallTimeoutMs", 0),
+      };
+    }
+
+    const webTools = this.section(root, "webTools", [
+      "fetchMode",
+      "fetchTimeoutMs",
+      "fetchMaxBytes",
+    ]);
+    if (webTools) {
+      config.webTools = {
+        fetchMode: this.oneOf(webTools.fetchMode, "webTools.fetchMode", ["url_context", "local"]),
+        fetchTimeoutMs: this.integer(webTools.fetchTimeoutMs, "webTools.fetchTimeoutMs", 1),
+        fetchMaxBytes: this.integer(webTools.fetchMaxBytes, "webTools.fetchMaxBytes", 1),
+      };
+    }
+
+    const batches = this.section(root, "batches", ["concurrency", "dbPath"]);
+    if (batches) {
+      config.batches = {
+        concurrency: this.integer(batches.concurrency, "batches.concurrency", 1),
+        dbPath: this.string(batches.dbPath, "batches.dbPath"),
+      };
+    }
+
+    const logging = this.section(root, "logging", ["level"]);
+    if (logging) {
+      config.logging = { level: this.oneOf(logging.level, "logging.level", LOG_LEVELS) };
+    }
+
+    return config;
+  }
+
+  // ── Composite values ─────────────────────────────────────────────────
+
+  private registry(value: unknown, path: string): Record<string, ModelDefinition> | undefined {
+    if (value === undefined) return undefined;
+    const entries = this.object(value, path);
+    if (!entries) return undefined;
+
+    const registry: Record<string, ModelDefinition> = {};
+    for (const [alias, entry] of Object.entries(entries)) {
+      const entryPath = `${path}.${alias}`;
+      const definition = this.object(entry, entryPath);
+      if (!definition) continue;
+
+      this.keys(definition, entryPath, [
+        "geminiModel",
+        "supportsThinking",
+        "isGemini3",
+        "defaultThinkingLevel",
+        "maxOutputTokens",
+        "fallbacks",
+        "backend",
+        "streamsFunctionCallArguments",
+        "displayName",
+      ]);
+      registry[alias] = {
+        geminiModel: this.string(definition.geminiModel, `${entryPath}.geminiModel`),
+        supportsThinking: this.boolean(
+          definition.supportsThinking,
+          `${entryPath}.supportsThinking`
+        ),
+        isGemini3: this.boolean(definition.isGemini3, `${entryPath}.isGemini3`),
+        defaultThinkingLevel: this.oneOf(
+          definition.defaultThinkingLevel,
+          `${entryPath}.defaultThinkingLevel`,
+          THINKING_LEVELS
+        ),
+        maxOutputTokens: this.integer(
+          definition.maxOutputTokens,
+          `${entryPath}.maxOutputTokens`,
+          1
+        ),
+        fallbacks: this.stringArray(definition.fallbacks, `${entryPath}.fallbacks`),
+        backend: this.oneOf(definition.backend, `${entryPath}.backend`, BACKENDS),
+        streamsFunctionCallArguments: this.boolean(
+          definition.streamsFunctionCallArguments,
+          `${entryPath}.streamsFunctionCallArguments`
+        ),
+        displayName: this.string(definition.displayName, `${entryPath}.displayName`),
+      };
+    }
+    return registry;
+  }
+
+  private routes(value: unknown, path: string): ModelRoute[] | undefined {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value)) {
+      this.issues.push(`${path} must be an array of { match, model }, got ${describe(value)}`);
+      return undefined;
+    }
+
+    const routes: ModelRoute[] = [];
+    value.forEach((entry, i) => {
+      const entryPath = `${path}[${i}]`;
+      const route = this.object(entry, entryPath);
+      if (!route) return;
+
+      this.keys(route, entryPath, ["match", "model", "thinkingLevel"]);
+      const match = this.string(route.match, `${entryPath}.match`);
+      const model = this.string(route.model, `${entryPath}.model`);
+      const thinkingLevel = this.oneOf(
+        route.thinkingLevel,
+        `${entryPath}.thinkingLevel`,
+        THINKING_LEVELS
+      );
+      if (route.match === undefined) this.issues.push(`${entryPath}.match is required`);
+      if (route.model === undefined) this.issues.push(`${entryPath}.model is required`);
+      if (match === undefined || model === undefined) return;
+
+      try {
+        ModelConfigService.compilePattern(match);
+      } catch (error) {
+        this.issues.push(
+          `${entryPath}.match is not a valid regular expression: ${error instanceof Error ? error.message : error}`
+        );
+        return;
+      }
+      routes.push({ match, model, ...(thinkingLevel ? { thinkingLevel } : {}) });
+    });
+    return routes;
+  }
+
+  private safetySettings(value: unknown, path: string): GeminiSafetySetting[] | undefined {
+    if (!Array.isArray(value)) {
+      this.issues.push(`${path} must be an array of { category, threshold }, got ${describe(value)}`);
+      return undefined;
+    }
+
+    const settings: GeminiSafetySetting[] = [];
+    value.forEach((entry, i) => {
+      const entryPath = `${path}[${i}]`;
+      const setting = this.object(entry, entryPath);
+      if (!setting) return;
+
+      this.keys(setting, entryPath, ["category", "threshold"]);
+      const category = this.oneOf(setting.category, `${entryPath}.category`, HARM_CATEGORIES);
+      const threshold = this.oneOf(setting.threshold, `${entryPath}.threshold`, HARM_THRESHOLDS);
+      if (category === undefined || threshold === undefined) {
+        if (setting.category === undefined) this.issues.push(`${entryPath}.category is required`);
+        if (setting.threshold === undefined) this.issues.push(`${entryPath}.threshold is required`);
+        return;
+      }
+      settings.push({ category, threshold });
+    });
+    return settings;
+  }
+
+  // ── Sections & objects ───────────────────────────────────────────────
+
+  /** Returns a top-level section after checking its keys. */
+  private section(
+    root: Record<string, unknown>,
+    name: string,
+    allowed: string[]
+  ): Record<string, unknown> | undefined {
+    if (root[name] === undefined) return undefined;
+    const section = this.object(root[name], name);
+    if (section) this.keys(section, name, allowed);
+    return section;
+  }
+
+  private object(value: unknown, path: string): Record<string, unknown> | undefined {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      this.issues.push(`${path} must be an object, got ${describe(value)}`);
+      return undefined;
+    }
+    return value as Record<string, unknown>;
+  }
+
+  /** Reports keys that are not part of the schema (usually typos). */
+  private keys(value: Record<string, unknown>, path: string, allowed: string[]): void {
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key)) {
+        const at = path ? `${path}.${key}` : key;
+        this.issues.push(`${at} is not a known setting (expected one of: ${allowed.join(", ")})`);
+      }
+    }
+  }
+
+  // ── Scalars ──────────────────────────────────────────────────────────
+
+  private string(value: unknown, path: string): string | undefined {
+    if (value === undefined) return undefined;
+    if (typeof value !== "string" || value.trim() === "") {
+      this.issues.push(`${path} must be a non-empty string, got ${describe(value)}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  private boolean(value: unknown, path: string): boolean | undefined {
+    if (value === undefined) return undefined;
+    if (typeof value !== "boolean") {
+      this.issues.push(`${path} must be true or false, got ${describe(value)}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  private integer(
+    value: unknown,
+    path: string,
+    min: number,
+    max = Number.MAX_SAFE_INTEGER
+  ): number | undefined {
+    if (value === undefined) return undefined;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+      const range = max === Number.MAX_SAFE_INTEGER ? `>= ${min}` : `between ${min} and ${max}`;
+      this.issues.push(`${path} must be an integer ${range}, got ${describe(value)}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  private oneOf<T extends string>(value: unknown, path: string, allowed: T[]): T | undefined {
+    if (value === undefined) return undefined;
+    if (typeof value !== "string" || !allowed.includes(value as T)) {
+      this.issues.push(`${path} must be one of ${allowed.join(", ")}, got ${describe(value)}`);
+      return undefined;
+    }
+    return value as T;
+  }
+
+  private url(value: unknown, path: string): string | undefined {
+    const text = this.string(value, path);
+    if (text === undefined) return undefined;
+    if (!URL.canParse(text) || !/^https?:$/.test(new URL(text).protocol)) {
+      this.issues.push(`${path} must be an http(s) URL, got ${describe(value)}`);
+      return undefined;
+    }
+    return text;
+  }
+
+  private stringArray(value: unknown, path: string): string[] | undefined {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value)) {
+      this.issues.push(`${path} must be an array of strings, got ${describe(value)}`);
+      return undefined;
+    }
+    const items = value.map((item, i) => this.string(item, `${path}[${i}]`));
+    return items.every((item) => item !== undefined) ? (items as string[]) : undefined;
+  }
+
+  private stringRecord(value: unknown, path: string): Record<string, string> | undefined {
+    if (value === undefined) return undefined;
+    const entries = this.object(value, path);
+    if (!entries) return undefined;
+
+    const record: Record<string, string> = {};
+    for (const [key, target] of Object.entries(entries)) {
+      const text = this.string(target, `${path}.${key}`);
+      if (text !== undefined) record[key] = text;
+    }
+    return record;
+  }
+}
+
+/** Short description of a value for error messages. */
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "object") return "an object";
+  return JSON.stringify(value);
+}
@@ -0,0 +1,415 @@
+/**
+ * Explicit context caching.
+ *
+ * Translates Anthropic `cache_control` breakpoints into Gemini
+ * `cachedContents`: the request prefix up to a breakpoint (system
+ * instruction, tools and early history) is stored once and referenced by
+ * later requests, which then only send the remaining turns.
+ *
+ * Caches are keyed by a hash of the model and the prefix. A request uses
+ * the longest live cache that is a prefix of it; a new cache is created
+ * at its last breakpoint once enough uncached tokens have accumulated
+ * since, so a conversation does not create a cache on every turn.
+ * Cache hits extend the cache's lifetime like Anthropic's TTL refresh.
+ */
+
+import { createHash, type Hash } from "crypto";
+import type { AnthropicCacheControl, AnthropicUsage } from "../models/anthropic";
+import type { GeminiGenerateContentRequest } from "../models/gemini";
+import { GeminiClient } from "./gemini-client";
+import { TokenCounter } from "./token-counter";
+import {
+  AuthenticationError,
+  InvalidRequestError,
+  NotFoundError,
+} from "../utils/errors";
+import { Logger } from "../utils/logger";
+
+// ---------------------------------------------------------------------------
+// Types & constants
+// ---------------------------------------------------------------------------
+
+/** A `cache_control` marker, located in the converted Gemini request. */
+export interface CacheBreakpoint {
+  /**
+   * Number of Gemini contents the cached prefix covers (0 when the
+   * marker is on the system prompt or a tool).
+   */
+  contentCount: number;
+
+  ttl: NonNullable<AnthropicCacheControl["ttl"]>;
+}
+
+/** Cache tokens of one request, reported in the Anthropic usage. */
+export interface ContextCacheUsage {
+  /** Tokens written to a cache created for this request. */
+  creationTokens: number;
+
+  /** Tokens read from an existing cache. */
+  readTokens: number;
+}
+
+/** Optional ContextCache settings. */
+export interface ContextCacheOptions {
+  /** Whether breakpoints are turned into caches (default `true`). */
+  enabled?: boolean;
+
+  /** Minimum number of new prefix tokens worth creating a cache for. */
+  minTokens?: number;
+
+  /** Clock (overridable for tests). */
+  now?: () => number;
+}
+
+/** A live cache created by this proxy. */
+interface CacheEntry {
+  name: string;
+  model: string;
+  /** Prompt tokens held by the cache. */
+  tokens: number;
+  ttlSeconds: number;
+  expiresAt: number;
+}
+
+/** A request rewritten to use a cache. */
+interface CachePlan {
+  request: GeminiGenerateContentRequest;
+  entry: CacheEntry;
+  usage: ContextCacheUsage;
+}
+
+const TTL_SECONDS: Record<CacheBreakpoint["ttl"], number> = { "5m": 300, "1h": 3600 };
+
+/**
+ * Gemini's smallest explicit cache is 1,024 tokens for Flash and
+ * 4,096 for Pro models; smaller prefixes are not worth a round trip.
+ */
+const DEFAULT_MIN_TOKENS = 4096;
+
+/** Caches this close to expiry are not used anymore. */
+const EXPIRY_MARGIN_MS = 15_000;
+
+// ---------------------------------------------------------------------------
+// Usage
+// ---------------------------------------------------------------------------
+
+/**
+ * Splits Gemini's prompt token count, which includes cached tokens, into
+ * Anthropic's uncached `input_tokens` and cache token fields.
+ *
+ * Gemini's `cachedContentTokenCount` covers explicit caches and its
+ * implicit caching alike; tokens of a cache created for this very
+ * request count as cache creation rather than as a cache read.
+ *
+ * @param promptTokens - Gemini `promptTokenCount` (or a local count).
+ * @param cachedTokens - Gemini `cachedContentTokenCount`, if reported.
+ * @param cache        - Explicit cache tokens of the request, if a cache was used.
+ */
+export function splitPromptUsage(
+  promptTokens: number,
+  cachedTokens: number | undefined,
+  cache: ContextCacheUsage | null
+): Pick<AnthropicUsage, "input_tokens" | "cache_creation_input_tokens" | "cache_read_input_tokens"> {
+  const creation = cache?.creationTokens ?? 0;
+  const read =
+    cachedTokens !== undefined ? Math.max(0, cachedTokens - creation) : cache?.readTokens ?? 0;
+  if (!cache && read === 0) return { input_tokens: promptTokens };
+
+  return {
+    input_tokens: Math.max(0, promptTokens - creation - read),
+    cache_creation_input_tokens: creation,
+    cache_read_input_tokens: read,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// ContextCache
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates, reuses and refreshes Gemini cached contents for requests
+ * with `cache_control` breakpoints.
+ *
+ * @example
+ * ```ts
+ * const cache = new ContextCache(geminiClient);
+ * const { result, usage } = await cache.run(model, request, breakpoints, (req) =>
+ *   geminiClient.generateContent(model, req)
+ * );
+ * ```
+ */
+export class ContextCache {
+  private readonly geminiClient: GeminiClient;
+  private readonly enabled: boolean;
+  private readonly minTokens: number;
+  private readonly now: () => number;
+  private readonly logger: Logger;
+
+  /** Live caches by prefix hash. */
+  private readonly entries = new Map<string, CacheEntry>();
+  /** Cache creations in progress, shared by concurrent requests. */
+  private readonly pending = new Map<string, Promise<CacheEntry | null>>();
+  /** Prefixes Gemini refused to cache, and until when not to retry. */
+  private readonly refused = new Map<string, number>();
+
+  constructor(geminiClient: GeminiClient, options: ContextCacheOptions = {}) {
+    this.geminiClient = geminiClient;
+    this.enabled = options.enabled ?? true;
+    this.minTokens = options.minTokens ?? DEFAULT_MIN_TOKENS;
+    this.now = options.now ?? Date.now;
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Runs a Gemini call with the request rewritten to use a cache, if one
+   * applies. If Gemini rejects the cache (e.g. it was deleted), the call
+   * is repeated with the original request.
+   *
+   * @param model       - The Gemini model identifier.
+   * @param request     - The full Gemini request.
+   * @param breakpoints - Cache breakpoints of the request, in prefix order.
+   * @param call        - Sends a request to Gemini.
+   * @returns The call's result and the cache tokens to report.
+   */
+  async run<T>(
+    model: string,
+    request: GeminiGenerateContentRequest,
+    breakpoints: CacheBreakpoint[],
+    call: (request: GeminiGenerateContentRequest) => Promise<T>
+  ): Promise<{ result: T; usage: ContextCacheUsage | null }> {
+    const plan =
+      this.enabled && breakpoints.length > 0
+        ? await this.plan(model, request, breakpoints)
+        : null;
+    if (!plan) return { result: await call(request), usage: null };
+
+    try {
+      return { result: await call(plan.request), usage: plan.usage };
+    } catch (error) {
+      if (!ContextCache.isCacheError(error)) throw error;
+
+      this.logger.warn("Cached content rejected, retrying without it", {
+        name: plan.entry.name,
+        error: (error as Error).message,
+      });
+      this.forget(plan.entry.name);
+      return { result: await call(request), usage: null };
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Planning
+  // -------------------------------------------------------------------------
+
+  /**
+   * Picks the cache for a request: the longest live cached prefix, or a
+   * new cache at the last breakpoint when enough tokens would be added.
+   */
+  private async plan(
+    model: string,
+    request: GeminiGenerateContentRequest,
+    breakpoints: CacheBreakpoint[]
+  ): Promise<CachePlan | null> {
+    this.prune();
+
+    // The request has to keep at least one content of its own
+    const last = breakpoints[breakpoints.length - 1];
+    const target = Math.min(last.contentCount, request.contents.length - 1);
+    if (target === 0 && !request.systemInstruction && !request.tools?.length) {
+      return null;
+    }
+
+    const hashes = ContextCache.prefixHashes(model, request, target);
+
+    let hit: { entry: CacheEntry; contentCount: number } | null = null;
+    for (let n = target; n >= 0 && !hit; n--) {
+      const entry = this.entries.get(hashes[n]);
+      if (entry) hit = { entry, contentCount: n };
+    }
+
+    if (hit?.contentCount !== target) {
+      const uncached = TokenCounter.estimate({
+        contents: request.contents.slice(hit?.contentCount ?? 0, target),
+        ...(hit ? {} : { systemInstruction: request.systemInstruction, tools: request.tools }),
+      });
+      if (uncached >= this.minTokens) {
+        const entry = await this.create(model, request, target, hashes[target], last.ttl);
+        if (entry) {
+          return this.use(request, entry, target, { creationTokens: entry.tokens, readTokens: 0 });
+        }
+      }
+    }
+
+    if (!hit) return null;
+    this.refresh(hit.entry, TTL_SECONDS[last.ttl]);
+    return this.use(request, hit.entry, hit.contentCount, {
+      creationTokens: 0,
+      readTokens: hit.entry.tokens,
+    });
+  }
+
+  /** Rewrites a request to reference a cache instead of sending its prefix. */
+  private use(
+    request: GeminiGenerateContentRequest,
+    entry: CacheEntry,
+    contentCount: number,
+    usage: ContextCacheUsage
+  ): CachePlan {
+    // Gemini rejects system instruction, tools and tool config next to a cache
+    const { systemInstruction: _s, tools: _t, toolConfig: _c, ...rest } = request;
+    return {
+      request: { ...rest, contents: request.contents.slice(contentCount), cachedContent: entry.name },
+      entry,
+      usage,
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Cache lifecycle
+  // -------------------------------------------------------------------------
+
+  /** Creates a cache for a prefix; `null` if Gemini refuses it. */
+  private create(
+    model: string,
+    request: GeminiGenerateContentRequest,
+    contentCount: number,
+    hash: string,
+    ttl: CacheBreakpoint["ttl"]
+  ): Promise<CacheEntry | null> {
+    const refusedUntil = this.refused.get(hash);
+    if (refusedUntil !== undefined && refusedUntil > this.now()) {
+      return Promise.resolve(null);
+    }
+
+    const existing = this.pending.get(hash);
+    if (existing) return existing;
+
+    const ttlSeconds = TTL_SECONDS[ttl];
+    const prefix = {
+      contents: request.contents.slice(0, contentCount),
+      ...(request.systemInstruction ? { systemInstruction: request.systemInstruction } : {}),
+      ...(request.tools?.length ? { tools: request.tools } : {}),
+      ...(request.toolConfig ? { toolConfig: request.toolConfig } : {}),
+    };
+
+    const creation = this.geminiClient
+      .createCachedContent(model, prefix, ttlSeconds)
+      .then((cached): CacheEntry => {
+        const entry: CacheEntry = {
+          name: cached.name,
+          model,
+          tokens: cached.usageMetadata?.totalTokenCount ?? TokenCounter.estimate(prefix),
+          ttlSeconds,
+          expiresAt: ContextCache.expiry(cached.expireTime) ?? this.now() + ttlSeconds * 1000,
+        };
+        this.entries.set(hash, entry);
+        this.logger.info("Created context cache", {
+          model,
+          name: entry.name,
+          tokens: entry.tokens,
+          ttl,
+        });
+        return entry;
+      })
+      .catch((error) => {
+        // Usually a prefix below the model's minimum; don't ask again soon
+        this.refused.set(hash, this.now() + ttlSeconds * 1000);
+        this.logger.warn("Context cache creation failed, continuing without it", {
+          model,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return null;
+      })
+      .finally(() => this.pending.delete(hash));
+
+    this.pending.set(hash, creation);
+    return creation;
+  }
+
+  /**
+   * Extends a cache's lifetime in the background once half of it has
+   * passed, so caches in active use don't expire.
+   */
+  private refresh(entry: CacheEntry, ttlSeconds: number): void {
+    const ttl = Math.max(entry.ttlSeconds, ttlSeconds);
+    if (entry.expiresAt - this.now() > (ttl * 1000) / 2) return;
+
+    this.geminiClient
+      .updateCachedContentTtl(entry.model, entry.name, ttl)
+      .then((cached) => {
+        entry.ttlSeconds = ttl;
+        entry.expiresAt = ContextCache.expiry(cached.expireTime) ?? this.now() + ttl * 1000;
+      })
+      .catch((error) => {
+        this.logger.warn("Context cache refresh failed", {
+          name: entry.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        this.forget(entry.name);
+      });
+  }
+
+  /** Drops a cache from the index. */
+  private forget(name: string): void {
+    for (const [hash, entry] of this.entries) {
+      if (entry.name === name) this.entries.delete(hash);
+    }
+  }
+
+  /** Drops expired caches and refusals. */
+  private prune(): void {
+    const now = this.now();
+    for (const [hash, entry] of this.entries) {
+      if (entry.expiresAt - EXPIRY_MARGIN_MS <= now) this.entries.delete(hash);
+    }
+    for (const [hash, until] of this.refused) {
+      if (until <= now) this.refused.delete(hash);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Helpers
+  // -------------------------------------------------------------------------
+
+  /**
+   * Hashes of every prefix of a request: `hashes[n]` covers the model,
+   * system instruction, tools, tool config and the first `n` contents.
+   */
+  private static prefixHashes(
+    model: string,
+    request: GeminiGenerateContentRequest,
+    maxContents: number
+  ): string[] {
+    const hash: Hash = createHash("sha256");
+    hash.update(
+      JSON.stringify([
+        model,
+        request.systemInstruction ?? null,
+        request.tools ?? null,
+        request.toolConfig ?? null,
+      ])
+    );
+
+    const hashes = [hash.copy().digest("hex")];
+    for (let n = 0; n < maxContents; n++) {
+      hash.update(JSON.stringify(request.contents[n]));
+      hashes.push(hash.copy().digest("hex"));
+    }
+    return hashes;
+  }
+
+  /** Parses an RFC 3339 `expireTime`. */
+  private static expiry(expireTime: string | undefined): number | null {
+    const time = expireTime ? Date.parse(expireTime) : NaN;
+    return Number.isNaN(time) ? null : time;
+  }
+
+  /** Whether an error means the referenced cache is gone or unusable. */
+  private static isCacheError(error: unknown): boolean {
+    if (error instanceof NotFoundError) return true;
+    return (
+      (error instanceof InvalidRequestError || error instanceof AuthenticationError) &&
+      /cached ?content/i.test(error.message)
+    );
+  }
+}
@@ -7,13 +7,38 @@
  * This client operates at the HTTP level using `fetch`, avoiding
  * any Google SDK dependency for maximum performance and minimal
  * bundle size in the Bun runtime.
+ *
+ * Transient failures (429, 5xx, network errors) of `generateContent`
+ * and `streamGenerateContent` are retried with exponential backoff and
+ * jitter, honouring Gemini's `RetryInfo.retryDelay` and `Retry-After`.
+ * Requests rotate over a `KeyPool`; a rate-limited or rejected key is
+ * swapped for another one without waiting.
+ *
+ * Models can instead be served from Vertex AI, which uses per-project
+ * URLs and OAuth bearer tokens minted from a service account.
+ *
+ * Cached contents belong to the project of the key that created them,
+ * so requests using one are always sent with that key.
  */
 
 import type {
   GeminiGenerateContentRequest,
   GeminiGenerateContentResponse,
+  GeminiCountTokensRequest,
+  GeminiCountTokensResponse,
+  GeminiCachedContent,
+  GeminiCreateCachedContentRequest,
+  VertexCountTokensRequest,
 } from "../models/gemini";
-import { mapGeminiError, type ProxyError } from "../utils/errors";
+import type { GeminiBackend } from "../models/config";
+import { KeyPool, type KeyHealth } from "./key-pool";
+import type { AccessTokenProvider } from "./vertex-auth";
+import {
+  AuthenticationError,
+  RequestCancelledError,
+  mapGeminiError,
+  ProxyError,
+} from "../utils/errors";
 import { Logger } from "../utils/logger";
 
 // ---------------------------------------------------------------------------
@@ -22,6 +47,81 @@ import { Logger } from "../utils/logger";
 
 const GEMINI_API_BASE = "https://generativelanguage.googleapis.com/v1beta";
 
+/** Upstream statuses worth retrying. */
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+const DEFAULT_MAX_RETRIES = 2;
+
+const DEFAULT_INITIAL_DELAY_MS = 1000;
+
+const DEFAULT_MAX_DELAY_MS = 30_000;
+
+const RETRY_INFO_TYPE = "type.googleapis.com/google.rpc.RetryInfo";
+
+/** Vertex AI API version used for publisher models. */
+const VERTEX_API_VERSION = "v1";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Optional GeminiClient settings. */
+export interface GeminiClientOptions {
+  /** Retries after the first attempt (0 disables retrying). */
+  maxRetries?: number;
+
+  /** Backoff delay before the first retry, in milliseconds. */
+  initialDelayMs?: number;
+
+  /**
+   * Longest delay to wait between attempts. A server-suggested delay
+   * beyond this fails the request instead of retrying.
+   */
+  maxDelayMs?: number;
+
+  /** Fetch implementation (overridable for tests). */
+  fetch?: typeof fetch;
+
+  /** Sleep implementation (overridable for tests). */
+  sleep?: (ms: number) => Promise<void>;
+
+  /** Vertex AI settings, needed for models served from Vertex. */
+  vertex?: VertexOptions;
+
+  /** Picks the backend of each Gemini model (default: always the Gemini API). */
+  backendFor?: (model: string) => GeminiBackend;
+}
+
+/** Where and how to reach Vertex AI. */
+export interface VertexOptions {
+  /** Google Cloud project ID. */
+  project: string;
+
+  /** Region (e.g. "us-central1") or "global". */
+  location: string;
+
+  /** Source of OAuth access tokens. */
+  auth: AccessTokenProvider;
+
+  /** Custom endpoint root (for proxies / testing), e.g. "https://host/v1". */
+  baseUrl?: string;
+}
+
+/** A resolved endpoint: the URL and headers of one upstream call. */
+interface Endpoint {
+  url: string;
+  headers: Record<string, string>;
+
+  /** The API key used, or `null` for Vertex AI (bearer token). */
+  key: string | null;
+}
+
+/** Per-call information reported back to the caller. */
+export interface GeminiRequestStats {
+  /** Number of retries the call needed. */
+  retries: number;
+}
+
 // ---------------------------------------------------------------------------
 // GeminiClient
 // ---------------------------------------------------------------------------
@@ -32,6 +132,10 @@ const GEMINI_API_BASE = "https://generativelanguage.googleapis.com/v1beta";
  * Supports:
  * - `generateContent` (synchronous, complete response)
  * - `streamGenerateContent` (streaming, chunked response)
+ * - `countTokens` (prompt sizing, no generation)
+ * - `cachedContents` (explicit context caching)
+ *
+ * against either the Gemini API or Vertex AI, chosen per model.
  *
  * @example
  * ```ts
@@ -40,17 +144,41 @@ const GEMINI_API_BASE = "https://generativelanguage.googleapis.com/v1beta";
  * ```
  */
 export class GeminiClient {
-  private readonly apiKey: string;
+  private readonly keyPool: KeyPool | null;
   private readonly baseUrl: string;
+  private readonly vertex: VertexOptions | undefined;
+  private readonly backendFor: (model: string) => GeminiBackend;
+  /** API key each cached content was created with. */
+  private readonly cacheOwners = new Map<string, string>();
+  private readonly maxRetries: number;
+  private readonly initialDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly fetchFn: typeof fetch;
+  private readonly sleep: (ms: number) => Promise<void>;
   private readonly logger: Logger;
 
   /**
-   * @param apiKey  - Google AI API key.
+   * @param apiKey  - Google AI API key, or a pool of keys to rotate over
+   *                  (`null` when every model is served from Vertex AI).
    * @param baseUrl - Optional custom base URL (for proxies / testing).
+   * @param options - Retry and backend settings.
    */
-  constructor(apiKey: string, baseUrl?: string) {
-    this.apiKey = apiKey;
+  constructor(
+    apiKey: string | KeyPool | null,
+    baseUrl?: string,
+    options: GeminiClientOptions = {}
+  ) {
+    this.keyPool = typeof apiKey === "string" ? new KeyPool([apiKey]) : apiKey;
     this.baseUrl = baseUrl ?? GEMINI_API_BASE;
+    this.vertex = options.vertex;
+    this.backendFor = options.backendFor ?? (() => "gemini");
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.maxRetries =
+      Number.isInteger(maxRetries) && maxRetries >= 0 ? maxRetries : DEFAULT_MAX_RETRIES;
+    this.initialDelayMs = options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    this.fetchFn = options.fetch ?? fetch;
+    this.sleep = options.sleep ?? ((ms) => Bun.sleep(ms));
     this.logger = Logger.getInstance();
   }
 
@@ -59,37 +187,33 @@ export class GeminiClient {
    *
    * @param model   - The Gemini model identifier (e.g. "gemini-3-flash-preview").
    * @param request - The Gemini request body.
+   * @param stats   - Optional record filled in with the retry count.
+   * @param signal  - Aborts the request, e.g. when the client disconnects.
    * @returns The parsed Gemini response.
-   * @throws {ProxyError} If the request fails.
+   * @throws {RequestCancelledError} If `signal` aborted the request.
+   * @throws {ProxyError} If the request fails after all retries.
    */
   async generateContent(
     model: string,
-    request: GeminiGenerateContentRequest
+    request: GeminiGenerateContentRequest,
+    stats?: GeminiRequestStats,
+    signal?: AbortSignal
   ): Promise<GeminiGenerateContentResponse> {
-    const url = `${this.baseUrl}/models/${model}:generateContent?key=${this.apiKey}`;
-
     this.logger.debug("Gemini generateContent request", {
       model,
       contentCount: request.contents.length,
       hasTools: !!request.tools,
     });
 
-    const response = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(request),
-    });
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      this.logger.error("Gemini API error", {
-        status: response.status,
-        body: errorBody.substring(0, 500),
-      });
-      throw mapGeminiError(response.status, errorBody);
-    }
-
-    const data = (await response.json()) as GeminiGenerateContentResponse;
+    const data = await this.postWithRetry(
+      "generateContent",
+      model,
+      `${this.modelPath(model)}:generateContent`,
+      request,
+      stats,
+      (res) => res.json() as Promise<GeminiGenerateContentResponse>,
+      signal
+    );
 
     this.logger.debug("Gemini generateContent response", {
       candidateCount: data.candidates?.length ?? 0,
@@ -103,40 +227,524 @@ export class GeminiClient {
    * Sends a streaming `streamGenerateContent` request.
    *
    * Returns the raw `Response` object so the caller can process
-   * the stream incrementally.
+   * the stream incrementally. The first chunk is read before returning,
+   * so a stream that fails before producing any data is retried too;
+   * once bytes have been handed to the caller, failures are final.
    *
    * @param model   - The Gemini model identifier.
    * @param request - The Gemini request body.
+   * @param stats   - Optional record filled in with the retry count.
+   * @param signal  - Aborts the request and its body stream, e.g. when
+   *                  the client disconnects.
    * @returns The raw fetch Response (with readable body stream).
-   * @throws {ProxyError} If the initial request fails.
+   * @throws {RequestCancelledError} If `signal` aborted the request.
+   * @throws {ProxyError} If the initial request fails after all retries.
    */
   async streamGenerateContent(
     model: string,
-    request: GeminiGenerateContentRequest
+    request: GeminiGenerateContentRequest,
+    stats?: GeminiRequestStats,
+    signal?: AbortSignal
   ): Promise<Response> {
-    const url = `${this.baseUrl}/models/${model}:streamGenerateContent?alt=sse&key=${this.apiKey}`;
-
     this.logger.debug("Gemini streamGenerateContent request", {
       model,
       contentCount: request.contents.length,
       hasTools: !!request.tools,
     });
 
-    const response = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(request),
+    return this.postWithRetry(
+      "streamGenerateContent",
+      model,
+      `${this.modelPath(model)}:streamGenerateContent?alt=sse`,
+      request,
+      stats,
+      (res) => this.peekFirstChunk(res),
+      signal
+    );
+  }
+
+  /**
+   * Sends a `countTokens` request for the prompt portion of a
+   * generateContent request.
+   *
+   * Generation config is intentionally left out — it does not affect the
+   * prompt size and some fields (e.g. `thinkingConfig`) are rejected by
+   * the countTokens endpoint. Not retried: callers fall back to a local
+   * estimate instead of waiting. A 429 here does not put the key on
+   * cooldown, since countTokens has a quota of its own.
+   *
+   * @param model   - The Gemini model identifier.
+   * @param request - The Gemini request body whose prompt should be counted.
+   * @returns The total number of prompt tokens.
+   * @throws {ProxyError} If the request fails.
+   */
+  async countTokens(
+    model: string,
+    request: GeminiGenerateContentRequest
+  ): Promise<number> {
+    const endpoint = await this.endpoint(model, `${this.modelPath(model)}:countTokens`);
+    const systemInstruction = request.systemInstruction
+      ? { systemInstruction: request.systemInstruction }
+      : {};
+    const tools = request.tools ? { tools: request.tools } : {};
+
+    // Vertex takes the prompt fields directly, without the wrapper
+    const body: GeminiCountTokensRequest | VertexCountTokensRequest =
+      endpoint.key === null
+        ? { contents: request.contents, ...systemInstruction, ...tools }
+        : {
+            generateContentRequest: {
+              model: `models/${model}`,
+              contents: request.contents,
+              ...systemInstruction,
+              ...tools,
+              ...(request.toolConfig ? { toolConfig: request.toolConfig } : {}),
+            },
+          };
+
+    this.logger.debug("Gemini countTokens request", {
+      model,
+      contentCount: request.contents.length,
+    });
+
+    const data = await this.send<GeminiCountTokensResponse>(
+      "countTokens",
+      model,
+      endpoint,
+      "POST",
+      body,
+      false
+    );
+    return data.totalTokens ?? 0;
+  }
+
+  /**
+   * Creates a cached content holding a request prefix. Not retried:
+   * callers go on without the cache instead.
+   *
+   * @param model      - The Gemini model the cache is created for.
+   * @param prefix     - Contents, system instruction, tools and tool config to cache.
+   * @param ttlSeconds - Time to live.
+   * @returns The created resource (its `name` goes into `cachedContent`).
+   * @throws {ProxyError} If the request fails.
+   */
+  async createCachedContent(
+    model: string,
+    prefix: Omit<GeminiCreateCachedContentRequest, "model" | "ttl">,
+    ttlSeconds: number
+  ): Promise<GeminiCachedContent> {
+    const endpoint = await this.endpoint(model, `${this.parentPath(model)}cachedContents`);
+    const body: GeminiCreateCachedContentRequest = {
+      model: this.modelPath(model),
+      ...prefix,
+      ttl: `${ttlSeconds}s`,
+    };
+
+    const cached = await this.send<GeminiCachedContent>(
+      "cachedContents.create",
+      model,
+      endpoint,
+      "POST",
+      body
+    );
+    if (endpoint.key !== null) this.cacheOwners.set(cached.name, endpoint.key);
+
+    this.logger.debug("Gemini cached content created", {
+      name: cached.name,
+      tokens: cached.usageMetadata?.totalTokenCount,
+      expireTime: cached.expireTime,
+    });
+    return cached;
+  }
+
+  /**
+   * Extends the lifetime of a cached content.
+   *
+   * @param model      - The Gemini model the cache was created for.
+   * @param name       - Resource name returned by `createCachedContent`.
+   * @param ttlSeconds - New time to live, counted from now.
+   * @throws {ProxyError} If the request fails.
+   */
+  async updateCachedContentTtl(
+    model: string,
+    name: string,
+    ttlSeconds: number
+  ): Promise<GeminiCachedContent> {
+    const endpoint = await this.endpoint(model, `${name}?updateMask=ttl`, {
+      key: this.cacheOwners.get(name),
+    });
+    return this.send<GeminiCachedContent>("cachedContents.patch", model, endpoint, "PATCH", {
+      ttl: `${ttlSeconds}s`,
+    });
+  }
+
+  /** Per-key health and request counts of the key pool. */
+  getKeyHealth(): KeyHealth[] {
+    return this.keyPool?.health() ?? [];
+  }
+
+  // -------------------------------------------------------------------------
+  // Retries
+  // -------------------------------------------------------------------------
+
+  /**
+   * POSTs a request, retrying transient failures with backoff. A key
+   * that was rate limited or rejected is replaced by another available
+   * key of the pool without waiting.
+   *
+   * @param path   - Endpoint path relative to the API root, with any query.
+   * @param accept - Turns a successful response into the result; errors
+   *                 it throws are retried like network errors.
+   * @param signal - Aborts the request; an aborted request is not retried.
+   *                 A `ProxyError` abort reason is thrown as is.
+   */
+  private async postWithRetry<T>(
+    operation: string,
+    model: string,
+    path: string,
+    request: GeminiGenerateContentRequest,
+    stats: GeminiRequestStats | undefined,
+    accept: (response: Response) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const body = JSON.stringify(request);
+    // A cached content only exists in the project of its key
+    const pinnedKey = request.cachedContent
+      ? this.cacheOwners.get(request.cachedContent)
+      : undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) throw GeminiClient.abortError(signal);
+      if (stats) stats.retries = attempt;
+      this.logger.debug(`Gemini ${operation} attempt ${attempt + 1}/${this.maxRetries + 1}`);
+
+      // After a backoff wait, a key still cooling down is used anyway.
+      const endpoint = await this.endpoint(model, path, {
+        ignoreCooldown: attempt > 0,
+        key: pinnedKey,
+      });
+      const key = endpoint.key;
+
+      let response: Response;
+      try {
+        response = await this.fetchFn(endpoint.url, {
+          method: "POST",
+          headers: endpoint.headers,
+          body,
+          signal,
+        });
+        if (response.ok) {
+          const result = await accept(response);
+          if (key !== null) this.keyPool?.markSucceeded(key, model);
+          return result;
+        }
+      } catch (error) {
+        if (signal?.aborted) throw GeminiClient.abortError(signal);
+        if (attempt >= this.maxRetries) throw error;
+
+        const delay = this.backoffDelay(attempt);
+        this.logger.warn(`Gemini ${operation} failed, retrying in ${delay}ms`, {
+          attempt: attempt + 1,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await this.pause(delay, signal);
+        continue;
+      }
+
+      const errorBody = GeminiClient.unwrapErrorBody(await response.text());
+      const rotated =
+        this.reportKeyFailure(key, model, response, errorBody, attempt) && !pinnedKey;
+      const delay = rotated
+        ? 0
+        : RETRYABLE_STATUSES.has(response.status)
+          ? this.retryDelay(response, errorBody, attempt)
+          : null;
+
+      if (delay === null || attempt >= this.maxRetries) {
+        this.logger.error(`Gemini ${operation} error`, {
+          status: response.status,
+          attempts: attempt + 1,
+          body: errorBody.substring(0, 500),
+        });
+        const suggested = this.suggestedDelay(response, errorBody);
+        throw mapGeminiError(
+          response.status,
+          errorBody,
+          suggested === null ? undefined : Math.ceil(suggested / 1000)
+        );
+      }
+
+      if (rotated) {
+        this.logger.warn(`Gemini ${operation} returned ${response.status}, retrying with new credentials`, {
+          attempt: attempt + 1,
+        });
+        continue;
+      }
+
+      this.logger.warn(`Gemini ${operation} returned ${response.status}, retrying in ${delay}ms`, {
+        attempt: attempt + 1,
+      });
+      await this.pause(delay, signal);
+    }
+  }
+
+  /**
+   * Waits out a backoff delay, returning early when `signal` aborts so a
+   * deadline is not overshot by the wait.
+   */
+  private async pause(ms: number, signal?: AbortSignal): Promise<void> {
+    if (!signal) return this.sleep(ms);
+
+    let onAbort = () => {};
+    const aborted = new Promise<void>((resolve) => {
+      onAbort = resolve;
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+    try {
+      await Promise.race([this.sleep(ms), aborted]);
+    } finally {
+      signal.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * The error for an aborted request: the abort reason when the caller
+   * gave a proxy error (e.g. a deadline), a client cancellation otherwise.
+   */
+  private static abortError(signal: AbortSignal): ProxyError {
+    return signal.reason instanceof ProxyError ? signal.reason : new RequestCancelledError();
+  }
+
+  /**
+   * Updates the key pool after a failed response: 429 puts the key on
+   * cooldown for the model, 401/403 disables it. For Vertex AI, a 401
+   * drops the cached access token instead.
+   *
+   * @returns Whether other credentials are available to retry with right away.
+   */
+  private reportKeyFailure(
+    key: string | null,
+    model: string,
+    response: Response,
+    errorBody: string,
+    attempt: number
+  ): boolean {
+    if (key === null || !this.keyPool) {
+      if (response.status !== 401) return false;
+      this.vertex?.auth.invalidate();
+      return true;
+    }
+
+    if (response.status === 429) {
+      this.keyPool.markRateLimited(
+        key,
+        model,
+        this.suggestedDelay(response, errorBody) ?? this.backoffDelay(attempt)
+      );
+    } else if (response.status === 401 || response.status === 403) {
+      this.keyPool.markInvalid(key);
+    } else {
+      return false;
+    }
+    return this.keyPool.hasAvailableKey(model);
+  }
+
+  /**
+   * The delay before retrying a failed response: the server's suggestion
+   * (`RetryInfo.retryDelay`, then `Retry-After`) or exponential backoff.
+   *
+   * @returns `null` if the server asks to wait longer than `maxDelayMs`.
+   */
+  private retryDelay(response: Response, errorBody: string, attempt: number): number | null {
+    const suggested = this.suggestedDelay(response, errorBody);
+
+    if (suggested === null) return this.backoffDelay(attempt);
+    return suggested <= this.maxDelayMs ? suggested : null;
+  }
+
+  /** The server's `RetryInfo.retryDelay` or `Retry-After`, in milliseconds. */
+  private suggestedDelay(response: Response, errorBody: string): number | null {
+    return (
+      GeminiClient.parseRetryInfo(errorBody) ??
+      GeminiClient.parseRetryAfter(response.headers.get("retry-after"))
+    );
+  }
+
+  /**
+   * Sends a single (not retried) JSON request and parses the response,
+   * reporting key failures to the pool. With `rateLimitsKey` off, a 429
+   * leaves the key usable: it only concerns this endpoint's own quota.
+   */
+  private async send<T>(
+    operation: string,
+    model: string,
+    endpoint: Endpoint,
+    method: string,
+    body: unknown,
+    rateLimitsKey = true
+  ): Promise<T> {
+    const response = await this.fetchFn(endpoint.url, {
+      method,
+      headers: endpoint.headers,
+      body: JSON.stringify(body),
     });
 
     if (!response.ok) {
-      const errorBody = await response.text();
-      this.logger.error("Gemini streaming API error", {
+      const errorBody = GeminiClient.unwrapErrorBody(await response.text());
+      this.logger.warn(`Gemini ${operation} error`, {
         status: response.status,
         body: errorBody.substring(0, 500),
       });
+      if (rateLimitsKey || response.status !== 429) {
+        this.reportKeyFailure(endpoint.key, model, response, errorBody, 0);
+      }
       throw mapGeminiError(response.status, errorBody);
     }
 
-    return response;
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Resolves the URL and headers for a path on the model's backend: an
+   * API key from the pool for the Gemini API, a bearer token for Vertex AI.
+   *
+   * @param path    - Path relative to the API root, with any query.
+   * @param options - `key` pins the API key instead of taking one from the pool.
+   * @throws {AuthenticationError} If the backend has no credentials configured.
+   */
+  private async endpoint(
+    model: string,
+    path: string,
+    options: { ignoreCooldown?: boolean; key?: string } = {}
+  ): Promise<Endpoint> {
+    if (this.backendFor(model) === "vertex") {
+      const { location, auth } = this.requireVertex(model);
+      const host =
+        location === "global" ? "aiplatform.googleapis.com" : `${location}-aiplatform.googleapis.com`;
+      const root = this.vertex?.baseUrl ?? `https://${host}/${VERTEX_API_VERSION}`;
+
+      return {
+        url: `${root}/${path}`,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${await auth.getAccessToken()}`,
+        },
+        key: null,
+      };
+    }
+
+    if (!this.keyPool) {
+      throw new AuthenticationError(`Model ${model} needs a Gemini API key, but none is configured.`);
+    }
+    const key = options.key ?? this.keyPool.acquire(model, options.ignoreCooldown ?? false);
+    return {
+      url: `${this.baseUrl}/${path}${path.includes("?") ? "&" : "?"}key=${key}`,
+      headers: { "Content-Type": "application/json" },
+      key,
+    };
+  }
+
+  /** The resource name of a model on its backend. */
+  private modelPath(model: string): string {
+    return `${this.parentPath(model)}${
+      this.backendFor(model) === "vertex" ? "publishers/google/" : ""
+    }models/${model}`;
+  }
+
+  /** The parent of per-project resources (empty for the Gemini API). */
+  private parentPath(model: string): string {
+    if (this.backendFor(model) !== "vertex") return "";
+    const { project, location } = this.requireVertex(model);
+    return `projects/${project}/locations/${location}/`;
+  }
+
+  private requireVertex(model: string): VertexOptions {
+    if (!this.vertex) {
+      throw new AuthenticationError(`Model ${model} is served from Vertex AI, which is not configured.`);
+    }
+    return this.vertex;
+  }
+
+  /** Exponential backoff with jitter (50–100% of the nominal delay). */
+  private backoffDelay(attempt: number): number {
+    const nominal = Math.min(this.maxDelayMs, this.initialDelayMs * 2 ** attempt);
+    return Math.round(nominal * (0.5 + Math.random() * 0.5));
+  }
+
+  /**
+   * Reads `retryDelay` (e.g. `"37s"`, `"1.5s"`) from the
+   * `google.rpc.RetryInfo` entry of a Gemini error body.
+   */
+  private static parseRetryInfo(errorBody: string): number | null {
+    try {
+      const details = JSON.parse(errorBody)?.error?.details;
+      if (!Array.isArray(details)) return null;
+
+      const info = details.find((d) => d?.["@type"] === RETRY_INFO_TYPE);
+      const match = /^(\d+(?:\.\d+)?)s$/.exec(String(info?.retryDelay ?? ""));
+      return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Vertex AI wraps some error bodies in an array (`[{"error": {...}}]`);
+   * returns the first element so they read like Gemini API errors.
+   */
+  private static unwrapErrorBody(errorBody: string): string {
+    if (!errorBody.trimStart().startsWith("[")) return errorBody;
+    try {
+      const parsed = JSON.parse(errorBody);
+      return Array.isArray(parsed) && parsed[0]?.error ? JSON.stringify(parsed[0]) : errorBody;
+    } catch {
+      return errorBody;
+    }
+  }
+
+  /** Parses a `Retry-After` header (seconds or an HTTP date). */
+  private static parseRetryAfter(header: string | null): number | null {
+    if (!header) return null;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Waits for the first chunk of a streaming response and returns an
+   * equivalent response that replays it, so a stream failing before any
+   * data arrives can still be retried.
+   */
+  private async peekFirstChunk(response: Response): Promise<Response> {
+    if (!response.body) return response;
+
+    const reader = response.body.getReader();
+    const first = await reader.read();
+
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (first.done) {
+          controller.close();
+        } else {
+          controller.enqueue(first.value);
+        }
+      },
+      async pull(controller) {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    });
+
+    return new Response(body, { status: response.status, headers: response.headers });
   }
 }
@@ -0,0 +1,282 @@
+/**
+ * Gemini API key pool.
+ *
+ * Spreads requests over several API keys so a team can share quotas:
+ *
+ * - keys are handed out round-robin, or least-recently-rate-limited first
+ * - a key answered with 429 is put on cooldown for that model (Gemini
+ *   quotas are per model, so the key stays usable for other models)
+ * - a key answered with 401/403 is disabled for the rest of the run
+ *
+ * When every usable key is cooling down the pool refuses to hand one out
+ * and reports how long to wait instead.
+ */
+
+import { AuthenticationError, RateLimitError } from "../utils/errors";
+import { Logger } from "../utils/logger";
+
+// ---------------------------------------------------------------------------
+// Types & constants
+// ---------------------------------------------------------------------------
+
+/** How the next key is chosen. */
+export type KeyRotationStrategy = "round-robin" | "least-recently-limited";
+
+/** Per-key health as reported by `/health`. */
+export interface KeyHealth {
+  /** The key with all but its last four characters masked. */
+  key: string;
+  status: "active" | "cooldown" | "disabled";
+  requests: number;
+  rate_limited: number;
+  /** Models the key is cooling down for (status `cooldown` only). */
+  cooldown_models?: string[];
+  /** Seconds left on the longest cooldown (status `cooldown` only). */
+  cooldown_remaining?: number;
+}
+
+/** Optional KeyPool settings. */
+export interface KeyPoolOptions {
+  strategy?: KeyRotationStrategy;
+
+  /** Clock (overridable for tests). */
+  now?: () => number;
+}
+
+/** Mutable state of one key. */
+interface KeyState {
+  key: string;
+  disabled: boolean;
+  /** Model → end of its cooldown. */
+  cooldownUntil: Map<string, number>;
+  lastLimitedAt: number;
+  requests: number;
+  rateLimited: number;
+}
+
+// ---------------------------------------------------------------------------
+// KeyPool
+// ---------------------------------------------------------------------------
+
+/**
+ * Rotates requests over a set of Gemini API keys.
+ *
+ * @example
+ * ```ts
+ * const pool = new KeyPool(["AIza…1", "AIza…2"], { strategy: "round-robin" });
+ * const key = pool.acquire("gemini-3-flash-preview");
+ * // … on 429:
+ * pool.markRateLimited(key, "gemini-3-flash-preview", 30_000);
+ * ```
+ */
+export class KeyPool {
+  private readonly states: KeyState[];
+  private readonly strategy: KeyRotationStrategy;
+  private readonly now: () => number;
+  private readonly logger: Logger;
+
+  /** Index of the next key to try in round-robin order. */
+  private cursor = 0;
+
+  /**
+   * @throws {Error} If no key is given.
+   */
+  constructor(keys: string[], options: KeyPoolOptions = {}) {
+    const unique = [...new Set(keys.map((k) => k.trim()).filter(Boolean))];
+    if (unique.length === 0) {
+      throw new Error("KeyPool requires at least one API key.");
+    }
+
+    this.states = unique.map((key) => ({
+      key,
+      disabled: false,
+      cooldownUntil: new Map(),
+      lastLimitedAt: 0,
+      requests: 0,
+      rateLimited: 0,
+    }));
+    this.strategy = options.strategy ?? "round-robin";
+    this.now = options.now ?? Date.now;
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Splits a list of keys separated by commas, whitespace or newlines
+   * (as found in `--api-key`, `GEMINI_API_KEY` or a key file). Lines
+   * starting with `#` are ignored.
+   */
+  static parseKeys(text: string): string[] {
+    return text
+      .split("\n")
+      .filter((line) => !line.trim().startsWith("#"))
+      .flatMap((line) => line.split(/[\s,]+/))
+      .filter(Boolean);
+  }
+
+  /** Number of keys in the pool. */
+  get size(): number {
+    return this.states.length;
+  }
+
+  // -------------------------------------------------------------------------
+  // Selection
+  // -------------------------------------------------------------------------
+
+  /**
+   * Picks the key for the next request to a model.
+   *
+   * @param model          - The Gemini model the request goes to.
+   * @param ignoreCooldown - Pick the key whose cooldown ends first when
+   *                         none is available (the caller already waited).
+   * @throws {AuthenticationError} If every key has been disabled.
+   * @throws {RateLimitError}      If every usable key is cooling down.
+   */
+  acquire(model: string, ignoreCooldown = false): string {
+    const enabled = this.states.filter((s) => !s.disabled);
+    if (enabled.length === 0) {
+      throw new AuthenticationError("All Gemini API keys were rejected (401/403).");
+    }
+
+    const now = this.now();
+    const available = enabled.filter((s) => KeyPool.cooldownEnd(s, model) <= now);
+    let state: KeyState;
+
+    if (available.length > 0) {
+      state = this.strategy === "least-recently-limited"
+        ? this.leastRecentlyLimited(available)
+        : this.nextRoundRobin(available);
+    } else if (ignoreCooldown) {
+      state = enabled.reduce((a, b) =>
+        KeyPool.cooldownEnd(b, model) < KeyPool.cooldownEnd(a, model) ? b : a
+      );
+    } else {
+      const retryAfter = Math.ceil(this.cooldownRemaining(model) / 1000);
+      throw new RateLimitError(
+        `All Gemini API keys are rate limited for ${model}. Retry after ${retryAfter}s.`,
+        retryAfter
+      );
+    }
+
+    state.requests++;
+    return state.key;
+  }
+
+  /** Whether a key is available for a model right now. */
+  hasAvailableKey(model: string): boolean {
+    const now = this.now();
+    return this.states.some((s) => !s.disabled && KeyPool.cooldownEnd(s, model) <= now);
+  }
+
+  /**
+   * Milliseconds until some enabled key leaves its cooldown for a model
+   * (0 if one is available).
+   */
+  cooldownRemaining(model: string): number {
+    const now = this.now();
+    const enabled = this.states.filter((s) => !s.disabled);
+    if (enabled.length === 0) return 0;
+    return Math.max(0, Math.min(...enabled.map((s) => KeyPool.cooldownEnd(s, model))) - now);
+  }
+
+  // -------------------------------------------------------------------------
+  // Feedback
+  // -------------------------------------------------------------------------
+
+  /** Puts a key on cooldown for a model after a 429. */
+  markRateLimited(key: string, model: string, cooldownMs: number): void {
+    const state = this.find(key);
+    if (!state) return;
+
+    const now = this.now();
+    state.rateLimited++;
+    state.lastLimitedAt = now;
+    state.cooldownUntil.set(model, now + cooldownMs);
+
+    this.logger.warn(`Gemini API key ${KeyPool.mask(key)} rate limited, cooling down`, {
+      model,
+      cooldownMs,
+    });
+  }
+
+  /** Ends a key's cooldown for a model once a request with it succeeded. */
+  markSucceeded(key: string, model: string): void {
+    this.find(key)?.cooldownUntil.delete(model);
+  }
+
+  /** Disables a key the API rejected (401/403). */
+  markInvalid(key: string): void {
+    const state = this.find(key);
+    if (!state || state.disabled) return;
+
+    state.disabled = true;
+    this.logger.warn(`Gemini API key ${KeyPool.mask(key)} rejected, disabling it`, {
+      remainingKeys: this.states.filter((s) => !s.disabled).length,
+    });
+  }
+
+  // -------------------------------------------------------------------------
+  // Health
+  // -------------------------------------------------------------------------
+
+  /** Per-key status and counters, with masked keys. */
+  health(): KeyHealth[] {
+    const now = this.now();
+
+    return this.states.map((s) => {
+      const cooling = s.disabled
+        ? []
+        : [...s.cooldownUntil].filter(([, until]) => until > now);
+      return {
+        key: KeyPool.mask(s.key),
+        status: s.disabled ? "disabled" : cooling.length > 0 ? "cooldown" : "active",
+        requests: s.requests,
+        rate_limited: s.rateLimited,
+        ...(cooling.length > 0
+          ? {
+              cooldown_models: cooling.map(([model]) => model),
+              cooldown_remaining: Math.ceil(
+                (Math.max(...cooling.map(([, until]) => until)) - now) / 1000
+              ),
+            }
+          : {}),
+      };
+    });
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private nextRoundRobin(available: KeyState[]): KeyState {
+    for (let i = 0; i < this.states.length; i++) {
+      const state = this.states[(this.cursor + i) % this.states.length];
+      if (available.includes(state)) {
+        this.cursor = (this.states.indexOf(state) + 1) % this.states.length;
+        return state;
+      }
+    }
+    return available[0];
+  }
+
+  /** The key limited longest ago (never-limited keys first), then the least used. */
+  private leastRecentlyLimited(available: KeyState[]): KeyState {
+    return available.reduce((a, b) =>
+      b.lastLimitedAt < a.lastLimitedAt ||
+      (b.lastLimitedAt === a.lastLimitedAt && b.requests < a.requests)
+        ? b
+        : a
+    );
+  }
+
+  private static cooldownEnd(state: KeyState, model: string): number {
+    return state.cooldownUntil.get(model) ?? 0;
+  }
+
+  private find(key: string): KeyState | undefined {
+    return this.states.find((s) => s.key === key);
+  }
+
+  private static mask(key: string): string {
+    return key.length <= 4 ? "****" : `****${key.slice(-4)}`;
+  }
+}
@@ -0,0 +1,384 @@
+/**
+ * Remote media fetching service.
+ *
+ * Anthropic image and PDF document blocks may reference a URL
+ * (`source.type: "url"`), but Gemini only sees media that is sent inline
+ * (`fileData` only takes its own Files API and Cloud Storage URIs). This
+ * service downloads such files on the proxy side so they can be
+ * forwarded as `inlineData`.
+ *
+ * Downloads are:
+ * - bounded by a size cap and a timeout
+ * - limited to public addresses: the client picks the URL, so loopback,
+ *   private and link-local targets (e.g. cloud metadata endpoints) are
+ *   refused, also when reached through a redirect
+ * - typed by sniffing the leading bytes (the Content-Type header of many
+ *   CDNs is missing or generic)
+ * - cached per URL for a while, within a total size budget
+ *
+ * Any failure surfaces as an `InvalidRequestError` naming the URL.
+ */
+
+import type {
+  AnthropicMessage,
+  AnthropicContentBlockParam,
+  AnthropicDocumentBlockParam,
+  AnthropicImageBlockParam,
+} from "../models/anthropic";
+import { fetchPublic, resolveWithDns } from "./public-fetch";
+import { InvalidRequestError } from "../utils/errors";
+import { Logger } from "../utils/logger";
+
+// ---------------------------------------------------------------------------
+// Types & constants
+// ---------------------------------------------------------------------------
+
+/** A downloaded media file, ready to be sent as Gemini inline data. */
+export interface FetchedMedia {
+  mimeType: string;
+  /** Base64-encoded payload. */
+  data: string;
+}
+
+/** Optional MediaFetcher settings. */
+export interface MediaFetcherOptions {
+  /** Maximum download size in bytes. */
+  maxBytes?: number;
+
+  /** Download timeout in milliseconds. */
+  timeoutMs?: number;
+
+  /** Maximum number of cached URLs. */
+  maxCacheEntries?: number;
+
+  /** Maximum total size of the cached downloads, in bytes. */
+  maxCacheBytes?: number;
+
+  /** How long a download is served from the cache, in milliseconds. */
+  cacheTtlMs?: number;
+
+  /** Fetch implementation (overridable for tests). */
+  fetch?: typeof fetch;
+
+  /** Resolves a host name to its IP addresses (overridable for tests). */
+  resolveHost?: (hostname: string) => Promise<string[]>;
+}
+
+/** Gemini rejects inline payloads above ~20 MB per request. */
+const DEFAULT_MAX_BYTES = 20 * 1024 * 1024;
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+const DEFAULT_MAX_CACHE_ENTRIES = 100;
+
+/** Base64 is a third larger than the download, so this holds ~48 MB of media. */
+const DEFAULT_MAX_CACHE_BYTES = 64 * 1024 * 1024;
+
+const DEFAULT_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/** Magic byte signatures of the image and document formats Gemini accepts. */
+const MEDIA_SIGNATURES: Array<{ mimeType: string; matches: (b: Uint8Array) => boolean }> = [
+  {
+    mimeType: "application/pdf",
+    matches: (b) => ascii(b, 0, 5) === "%PDF-",
+  },
+  {
+    mimeType: "image/png",
+    matches: (b) => b[0] === 0x89 && b[1] === 0x50 && b[2] === 0x4e && b[3] === 0x47,
+  },
+  {
+    mimeType: "image/jpeg",
+    matches: (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff,
+  },
+  {
+    mimeType: "image/gif",
+    matches: (b) => ascii(b, 0, 4) === "GIF8",
+  },
+  {
+    mimeType: "image/webp",
+    matches: (b) => ascii(b, 0, 4) === "RIFF" && ascii(b, 8, 12) === "WEBP",
+  },
+  {
+    mimeType: "image/heic",
+    matches: (b) => ascii(b, 4, 8) === "ftyp" && /^hei[cs]|^hevc/.test(ascii(b, 8, 12)),
+  },
+  {
+    mimeType: "image/heif",
+    matches: (b) => ascii(b, 4, 8) === "ftyp" && /^mif1|^msf1/.test(ascii(b, 8, 12)),
+  },
+];
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+// ---------------------------------------------------------------------------
+// MediaFetcher
+// ---------------------------------------------------------------------------
+
+/**
+ * Downloads and caches remote images and PDFs referenced by URL.
+ *
+ * @example
+ * ```ts
+ * const fetcher = new MediaFetcher();
+ * await fetcher.resolveMediaSources(body.messages);
+ * // every { type: "url" } image and document source is now { type: "base64" }
+ * ```
+ */
+export class MediaFetcher {
+  private readonly maxBytes: number;
+  private readonly timeoutMs: number;
+  private readonly maxCacheEntries: number;
+  private readonly maxCacheBytes: number;
+  private readonly cacheTtlMs: number;
+  private readonly fetchFn: typeof fetch;
+  private readonly resolveHost: (hostname: string) => Promise<string[]>;
+  private readonly logger: Logger;
+
+  /**
+   * URL → in-flight or completed download, its size once known and its
+   * expiry time (insertion-ordered for eviction).
+   */
+  private readonly cache = new Map<
+    string,
+    { media: Promise<FetchedMedia>; bytes: number; expiresAt: number }
+  >();
+
+  /** Total size of the completed downloads in the cache. */
+  private cacheBytes = 0;
+
+  constructor(options: MediaFetcherOptions = {}) {
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxCacheEntries = options.maxCacheEntries ?? DEFAULT_MAX_CACHE_ENTRIES;
+    this.maxCacheBytes = options.maxCacheBytes ?? DEFAULT_MAX_CACHE_BYTES;
+    this.cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.fetchFn = options.fetch ?? fetch;
+    this.resolveHost = options.resolveHost ?? resolveWithDns;
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Replaces every URL image and PDF document source in the messages
+   * (including blocks nested in tool results and custom-content
+   * documents) with a base64 source, downloading in parallel. Mutates
+   * the messages in place.
+   *
+   * @throws {InvalidRequestError} If any file cannot be downloaded.
+   */
+  async resolveMediaSources(messages: AnthropicMessage[]): Promise<void> {
+    const blocks: Array<AnthropicImageBlockParam | AnthropicDocumentBlockParam> = [];
+    for (const message of messages) {
+      if (typeof message.content !== "string") {
+        this.collectUrlSources(message.content, blocks);
+      }
+    }
+
+    if (blocks.length === 0) return;
+
+    await Promise.all(
+      blocks.map(async (block) => {
+        const url = (block.source as { url: string }).url;
+        if (block.type === "image") {
+          const media = await this.fetchImage(url);
+          block.source = { type: "base64", media_type: media.mimeType, data: media.data };
+        } else {
+          const media = await this.fetchPdf(url);
+          block.source = { type: "base64", media_type: "application/pdf", data: media.data };
+        }
+      })
+    );
+  }
+
+  /**
+   * Downloads an image, returning a cached result when the URL was
+   * fetched before.
+   *
+   * @throws {InvalidRequestError} If the download fails or is not an image.
+   */
+  async fetchImage(url: string): Promise<FetchedMedia> {
+    const media = await this.fetchMedia(url);
+    if (!media.mimeType.startsWith("image/")) {
+      throw new InvalidRequestError(
+        `URL does not point to a supported image (png, jpeg, gif, webp, heic): ${url}`
+      );
+    }
+    return media;
+  }
+
+  /**
+   * Downloads a PDF, returning a cached result when the URL was fetched
+   * before.
+   *
+   * @throws {InvalidRequestError} If the download fails or is not a PDF.
+   */
+  async fetchPdf(url: string): Promise<FetchedMedia> {
+    const media = await this.fetchMedia(url);
+    if (media.mimeType !== "application/pdf") {
+      throw new InvalidRequestError(`URL does not point to a PDF document: ${url}`);
+    }
+    return media;
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  /**
+   * Downloads a file of any supported type, through the cache.
+   */
+  private fetchMedia(url: string): Promise<FetchedMedia> {
+    const cached = this.cache.get(url);
+    if (cached && cached.expiresAt > Date.now()) return cached.media;
+    if (cached) this.evict(url);
+
+    const pending = this.download(url);
+    const entry = { media: pending, bytes: 0, expiresAt: Date.now() + this.cacheTtlMs };
+    this.cache.set(url, entry);
+
+    pending.then(
+      (media) => {
+        if (this.cache.get(url) !== entry) return;
+        entry.bytes = media.data.length;
+        this.cacheBytes += entry.bytes;
+        this.trimCache();
+      },
+      // Failed downloads are not cached so the client can retry.
+      () => {
+        if (this.cache.get(url) === entry) this.evict(url);
+      }
+    );
+    this.trimCache();
+    return pending;
+  }
+
+  /** Evicts the oldest entries until the cache is within its limits. */
+  private trimCache(): void {
+    while (this.cache.size > this.maxCacheEntries || this.cacheBytes > this.maxCacheBytes) {
+      this.evict(this.cache.keys().next().value!);
+    }
+  }
+
+  private evict(url: string): void {
+    const entry = this.cache.get(url);
+    if (!entry) return;
+    this.cacheBytes -= entry.bytes;
+    this.cache.delete(url);
+  }
+
+  private collectUrlSources(
+    blocks: AnthropicContentBlockParam[],
+    found: Array<AnthropicImageBlockParam | AnthropicDocumentBlockParam>
+  ): void {
+    for (const block of blocks) {
+      if ((block.type === "image" || block.type === "document") && block.source.type === "url") {
+        found.push(block);
+      } else if (block.type === "tool_result" && Array.isArray(block.content)) {
+        this.collectUrlSources(block.content, found);
+      } else if (
+        block.type === "document" &&
+        block.source.type === "content" &&
+        Array.isArray(block.source.content)
+      ) {
+        this.collectUrlSources(block.source.content, found);
+      }
+    }
+  }
+
+  private async download(url: string): Promise<FetchedMedia> {
+    let response: Response;
+    try {
+      response = await fetchPublic(url, {
+        fetch: this.fetchFn,
+        resolveHost: this.resolveHost,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      const reason =
+        error instanceof Error && error.name === "TimeoutError"
+          ? `timed out after ${this.timeoutMs}ms`
+          : error instanceof Error
+            ? error.message
+            : String(error);
+      throw new InvalidRequestError(`Unable to download ${url}: ${reason}`);
+    }
+
+    if (!response.ok) {
+      throw new InvalidRequestError(
+        `Unable to download ${url}: HTTP ${response.status}`
+      );
+    }
+
+    const declaredLength = Number(response.headers.get("content-length") ?? 0);
+    if (declaredLength > this.maxBytes) {
+      throw this.tooLarge(url);
+    }
+
+    let bytes: Uint8Array;
+    try {
+      bytes = await this.readBody(response, url);
+    } catch (error) {
+      if (error instanceof InvalidRequestError) throw error;
+      throw new InvalidRequestError(
+        `Unable to download ${url}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    const mimeType = this.sniffMimeType(bytes);
+    if (!mimeType) {
+      throw new InvalidRequestError(
+        `URL does not point to a supported image (png, jpeg, gif, webp, heic) or PDF: ${url}`
+      );
+    }
+
+    this.logger.debug("Downloaded media", { url, mimeType, bytes: bytes.length });
+
+    return { mimeType, data: Buffer.from(bytes).toString("base64") };
+  }
+
+  /**
+   * Reads the response body, aborting as soon as the size cap is exceeded.
+   */
+  private async readBody(response: Response, url: string): Promise<Uint8Array> {
+    if (!response.body) return new Uint8Array(0);
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      total += value.length;
+      if (total > this.maxBytes) {
+        await reader.cancel();
+        throw this.tooLarge(url);
+      }
+      chunks.push(value);
+    }
+
+    const bytes = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return bytes;
+  }
+
+  /**
+   * Detects the media type from its magic bytes. The declared
+   * Content-Type is ignored: it is often missing or generic, and an
+   * HTML error page served with `image/*` must not reach Gemini.
+   */
+  private sniffMimeType(bytes: Uint8Array): string | null {
+    return MEDIA_SIGNATURES.find((sig) => sig.matches(bytes))?.mimeType ?? null;
+  }
+
+  private tooLarge(url: string): InvalidRequestError {
+    return new InvalidRequestError(
+      `File at ${url} exceeds the ${Math.floor(this.maxBytes / (1024 * 1024))} MB limit.`
+    );
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Fetching of client-chosen URLs.
+ *
+ * Media downloads and the local web_fetch engine fetch URLs picked by the
+ * client, so only public addresses may be reached: loopback, private and
+ * link-local targets (e.g. cloud metadata endpoints) are refused, also
+ * when reached through a redirect. Redirects are therefore followed by
+ * hand, checking every hop before it is fetched.
+ */
+
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+
+// ---------------------------------------------------------------------------
+// Types & constants
+// ---------------------------------------------------------------------------
+
+/** A URL that may not be fetched, or a redirect chain that was given up. */
+export class BlockedUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BlockedUrlError";
+  }
+}
+
+/** A public URL refused by the caller's `allowUrl` check. */
+export class DisallowedUrlError extends BlockedUrlError {
+  constructor(url: string) {
+    super(`${url} is not allowed.`);
+    this.name = "DisallowedUrlError";
+  }
+}
+
+/** Settings of a `fetchPublic` call. */
+export interface PublicFetchOptions {
+  /** Fetch implementation. */
+  fetch: typeof fetch;
+
+  /** Resolves a host name to its IP addresses. */
+  resolveHost: (hostname: string) => Promise<string[]>;
+
+  /** Aborts the request, e.g. on a timeout. */
+  signal?: AbortSignal;
+
+  /** Request headers, sent on every hop. */
+  headers?: Record<string, string>;
+
+  /** Further restricts the URLs of all hops, e.g. to allowed domains. */
+  allowUrl?: (url: string) => boolean;
+}
+
+/** Redirects followed before a fetch is given up. */
+const MAX_REDIRECTS = 5;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether an IP address is not publicly routable: unspecified, loopback,
+ * private, carrier-grade NAT, link-local, multicast or reserved ranges,
+ * including IPv4 addresses mapped into IPv6.
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    );
+  }
+
+  const ip = address.toLowerCase();
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(ip);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  // The URL parser writes mapped addresses in hex: ::ffff:c0a8:101
+  const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(ip);
+  if (mappedHex) {
+    const high = parseInt(mappedHex[1], 16);
+    const low = parseInt(mappedHex[2], 16);
+    return isPrivateAddress(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`);
+  }
+  return (
+    ip === "::" ||
+    ip === "::1" ||
+    /^f[cd]/.test(ip) ||
+    /^fe[89ab]/.test(ip) ||
+    /^ff/.test(ip)
+  );
+}
+
+/** Resolves a host name through the system resolver. */
+export async function resolveWithDns(hostname: string): Promise<string[]> {
+  const addresses = await lookup(hostname, { all: true });
+  return addresses.map((a) => a.address);
+}
+
+// ---------------------------------------------------------------------------
+// Fetching
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetches a URL, following redirects by hand so that every hop is
+ * checked to point at a public address and to pass `allowUrl`.
+ *
+ * @returns The response of the last hop.
+ * @throws {DisallowedUrlError} If `allowUrl` refused a hop.
+ * @throws {BlockedUrlError} If a hop's URL is invalid or not public, or
+ *         the redirects do not end.
+ */
+export async function fetchPublic(url: string, options: PublicFetchOptions): Promise<Response> {
+  let current = url;
+
+  for (let redirects = 0; ; redirects++) {
+    if (options.allowUrl && !options.allowUrl(current)) {
+      throw new DisallowedUrlError(current);
+    }
+    await assertPublicUrl(current, options.resolveHost);
+
+    const response = await options.fetch(current, {
+      signal: options.signal,
+      headers: options.headers,
+      redirect: "manual",
+    });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    if (redirects === MAX_REDIRECTS) {
+      throw new BlockedUrlError("too many redirects");
+    }
+    current = new URL(location, current).href;
+  }
+}
+
+/**
+ * @throws {BlockedUrlError} If the URL is not http(s) or its host
+ *         resolves to a loopback, private or link-local address.
+ */
+export async function assertPublicUrl(
+  target: string,
+  resolveHost: (hostname: string) => Promise<string[]>
+): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(target);
+  } catch {
+    throw new BlockedUrlError(`invalid URL ${target}`);
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new BlockedUrlError(`unsupported URL scheme ${parsed.protocol}`);
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname) ? [hostname] : await resolveHost(hostname);
+  } catch (error) {
+    throw new BlockedUrlError(
+      `cannot resolve ${hostname} (${error instanceof Error ? error.message : String(error)})`
+    );
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new BlockedUrlError(`${hostname} is not a public address.`);
+  }
+}
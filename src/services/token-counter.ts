@@ -0,0 +1,145 @@
+/**
+ * Token counting service.
+ *
+ * Sizes a converted Gemini request using the Gemini `countTokens`
+ * endpoint, falling back to a local character-based estimate when the
+ * upstream call fails (network issues, unsupported model, quota, …).
+ *
+ * Used by:
+ * - `POST /v1/messages/count_tokens`
+ * - The streaming `message_start` event (estimate only), whose
+ *   `input_tokens` would otherwise be 0 until Gemini reports usage at
+ *   the end of the stream.
+ */
+
+import type {
+  GeminiGenerateContentRequest,
+  GeminiContent,
+  GeminiPart,
+} from "../models/gemini";
+import { GeminiClient } from "./gemini-client";
+import { Logger } from "../utils/logger";
+
+// ---------------------------------------------------------------------------
+// Estimation constants
+// ---------------------------------------------------------------------------
+
+/** Average number of characters per token for mixed prose and code. */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Flat token cost charged for a single inline media part.
+ * Gemini bills a standard-resolution image at 258 tokens.
+ */
+const INLINE_DATA_TOKENS = 258;
+
+/** Per-turn overhead for role markers and separators. */
+const CONTENT_OVERHEAD_TOKENS = 4;
+
+// ---------------------------------------------------------------------------
+// TokenCounter
+// ---------------------------------------------------------------------------
+
+/**
+ * Counts prompt tokens for Gemini requests.
+ *
+ * @example
+ * ```ts
+ * const counter = new TokenCounter(geminiClient);
+ * const tokens = await counter.count("gemini-3-flash-preview", geminiRequest);
+ * ```
+ */
+export class TokenCounter {
+  private readonly geminiClient: GeminiClient;
+  private readonly logger: Logger;
+
+  constructor(geminiClient: GeminiClient) {
+    this.geminiClient = geminiClient;
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Counts the prompt tokens of a Gemini request.
+   *
+   * Never throws: if the upstream `countTokens` call fails, the local
+   * estimate is returned instead.
+   *
+   * @param model   - The Gemini model identifier.
+   * @param request - The converted Gemini request.
+   * @returns The number of prompt tokens.
+   */
+  async count(
+    model: string,
+    request: GeminiGenerateContentRequest
+  ): Promise<number> {
+    try {
+      return await this.geminiClient.countTokens(model, request);
+    } catch (error) {
+      const estimate = TokenCounter.estimate(request);
+      this.logger.warn("countTokens failed, using local estimate", {
+        model,
+        estimate,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return estimate;
+    }
+  }
+
+  /**
+   * Estimates the prompt tokens of a Gemini request without any
+   * network call.
+   *
+   * The estimate is deliberately simple (characters / 4 plus flat costs
+   * for media and turn overhead); it only needs to be in the right
+   * ballpark for context-window sizing.
+   */
+  static estimate(request: GeminiGenerateContentRequest): number {
+    let tokens = 0;
+
+    if (request.systemInstruction) {
+      tokens += TokenCounter.estimateContent(request.systemInstruction);
+    }
+
+    for (const content of request.contents) {
+      tokens += TokenCounter.estimateContent(content);
+    }
+
+    if (request.tools && request.tools.length > 0) {
+      tokens += Math.ceil(JSON.stringify(request.tools).length / CHARS_PER_TOKEN);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Estimates the tokens of a single content turn.
+   */
+  private static estimateContent(content: GeminiContent): number {
+    let tokens = CONTENT_OVERHEAD_TOKENS;
+    for (const part of content.parts) {
+      tokens += TokenCounter.estimatePart(part);
+    }
+    return tokens;
+  }
+
+  /**
+   * Estimates the tokens of a single part.
+   */
+  private static estimatePart(part: GeminiPart): number {
+    if ("text" in part) {
+      return Math.ceil((part.text?.length ?? 0) / CHARS_PER_TOKEN);
+    }
+    if ("inlineData" in part || "fileData" in part) {
+      return INLINE_DATA_TOKENS;
+    }
+    if ("functionCall" in part) {
+      return Math.ceil(JSON.stringify(part.functionCall).length / CHARS_PER_TOKEN);
+    }
+    if ("functionResponse" in part) {
+      return Math.ceil(
+        JSON.stringify(part.functionResponse).length / CHARS_PER_TOKEN
+      );
+    }
+    return 0;
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Vertex AI authentication with a service account.
+ *
+ * Mints OAuth 2.0 access tokens from a service-account JSON key without
+ * any Google SDK: a JWT assertion is signed locally (RS256, WebCrypto)
+ * and exchanged at the key's `token_uri`. Tokens are cached and
+ * refreshed shortly before they expire; concurrent callers share one
+ * refresh.
+ */
+
+import { readFileSync } from "fs";
+import { AuthenticationError } from "../utils/errors";
+import { Logger } from "../utils/logger";
+
+// ---------------------------------------------------------------------------
+// Types & constants
+// ---------------------------------------------------------------------------
+
+/** The fields of a service-account key file the proxy needs. */
+export interface ServiceAccountCredentials {
+  client_email: string;
+  private_key: string;
+  token_uri?: string;
+  project_id?: string;
+}
+
+/** Something that hands out OAuth access tokens. */
+export interface AccessTokenProvider {
+  /** Returns a valid access token, minting a new one if needed. */
+  getAccessToken(): Promise<string>;
+
+  /** Drops the cached token (e.g. after the API rejected it). */
+  invalidate(): void;
+}
+
+/** Optional ServiceAccountAuth settings. */
+export interface ServiceAccountAuthOptions {
+  /** Fetch implementation (overridable for tests). */
+  fetch?: typeof fetch;
+
+  /** Clock (overridable for tests). */
+  now?: () => number;
+}
+
+const DEFAULT_TOKEN_URI = "https://oauth2.googleapis.com/token";
+
+const CLOUD_PLATFORM_SCOPE = "https://www.googleapis.com/auth/cloud-platform";
+
+/** Lifetime requested for each assertion (the maximum Google accepts). */
+const ASSERTION_LIFETIME_S = 3600;
+
+/** Tokens are refreshed when less than this much lifetime is left. */
+const REFRESH_MARGIN_MS = 5 * 60_000;
+
+// ---------------------------------------------------------------------------
+// ServiceAccountAuth
+// ---------------------------------------------------------------------------
+
+/**
+ * Access token provider for a Google service account.
+ *
+ * @example
+ * ```ts
+ * const auth = ServiceAccountAuth.fromFile("service-account.json");
+ * const token = await auth.getAccessToken();
+ * ```
+ */
+export class ServiceAccountAuth implements AccessTokenProvider {
+  private readonly credentials: ServiceAccountCredentials;
+  private readonly fetchFn: typeof fetch;
+  private readonly now: () => number;
+  private readonly logger: Logger;
+
+  private token: { value: string; expiresAt: number } | null = null;
+  private pending: Promise<string> | null = null;
+  private signingKey: Promise<CryptoKey> | null = null;
+
+  /**
+   * @throws {Error} If `client_email` or `private_key` is missing.
+   */
+  constructor(credentials: ServiceAccountCredentials, options: ServiceAccountAuthOptions = {}) {
+    if (!credentials.client_email || !credentials.private_key) {
+      throw new Error("Service account credentials need client_email and private_key.");
+    }
+    this.credentials = credentials;
+    this.fetchFn = options.fetch ?? fetch;
+    this.now = options.now ?? Date.now;
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Reads a service-account key file (as downloaded from the Cloud console).
+   *
+   * @throws {Error} If the file cannot be read or is not a service-account key.
+   */
+  static fromFile(path: string, options: ServiceAccountAuthOptions = {}): ServiceAccountAuth {
+    let credentials: ServiceAccountCredentials;
+    try {
+      credentials = JSON.parse(readFileSync(path, "utf-8"));
+    } catch (error) {
+      throw new Error(
+        `Cannot read service account file ${path}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    return new ServiceAccountAuth(credentials, options);
+  }
+
+  /** The project the service account belongs to, if the key names it. */
+  get projectId(): string | undefined {
+    return this.credentials.project_id;
+  }
+
+  async getAccessToken(): Promise<string> {
+    if (this.token && this.token.expiresAt - REFRESH_MARGIN_MS > this.now()) {
+      return this.token.value;
+    }
+
+    this.pending ??= this.mintToken().finally(() => {
+      this.pending = null;
+    });
+    return this.pending;
+  }
+
+  invalidate(): void {
+    this.token = null;
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  /** Exchanges a freshly signed assertion for an access token. */
+  private async mintToken(): Promise<string> {
+    const tokenUri = this.credentials.token_uri ?? DEFAULT_TOKEN_URI;
+    const response = await this.fetchFn(tokenUri, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+        assertion: await this.signAssertion(),
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new AuthenticationError(
+        `Vertex AI token request failed (${response.status}): ${body.substring(0, 300)}`
+      );
+    }
+
+    const data = (await response.json()) as { access_token?: string; expires_in?: number };
+    if (!data.access_token) {
+      throw new AuthenticationError("Vertex AI token response has no access_token.");
+    }
+
+    this.token = {
+      value: data.access_token,
+      expiresAt: this.now() + (data.expires_in ?? ASSERTION_LIFETIME_S) * 1000,
+    };
+    this.logger.debug("Minted Vertex AI access token", {
+      serviceAccount: this.credentials.client_email,
+      expiresIn: data.expires_in,
+    });
+    return data.access_token;
+  }
+
+  /** Builds and signs the JWT bearer assertion (RS256). */
+  private async signAssertion(): Promise<string> {
+    const issuedAt = Math.floor(this.now() / 1000);
+    const header = { alg: "RS256", typ: "JWT" };
+    const claims = {
+      iss: this.credentials.client_email,
+      scope: CLOUD_PLATFORM_SCOPE,
+      aud: this.credentials.token_uri ?? DEFAULT_TOKEN_URI,
+      iat: issuedAt,
+      exp: issuedAt + ASSERTION_LIFETIME_S,
+    };
+
+    const unsigned = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(claims))}`;
+    this.signingKey ??= ServiceAccountAuth.importKey(this.credentials.private_key);
+    let signature: ArrayBuffer;
+    try {
+      signature = await crypto.subtle.sign(
+        "RSASSA-PKCS1-v1_5",
+        await this.signingKey,
+        new TextEncoder().encode(unsigned)
+      );
+    } catch (error) {
+      this.signingKey = null;
+      throw new AuthenticationError(
+        `Invalid service account private key: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    return `${unsigned}.${base64Url(new Uint8Array(signature))}`;
+  }
+
+  /** Imports a PEM-encoded PKCS#8 private key for RS256 signing. */
+  private static importKey(pem: string): Promise<CryptoKey> {
+    const der = Buffer.from(
+      pem.replace(/-----(BEGIN|END) PRIVATE KEY-----/g, "").replace(/\s+/g, ""),
+      "base64"
+    );
+    return crypto.subtle.importKey(
+      "pkcs8",
+      der,
+      { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+      false,
+      ["sign"]
+    );
+  }
+}
+
+/** Base64url without padding, as used by JWTs. */
+function base64Url(data: string | Uint8Array): string {
+  return Buffer.from(data).toString("base64url");
+}
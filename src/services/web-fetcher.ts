@@ -0,0 +1,448 @@
+/**
+ * Local web fetch engine.
+ *
+ * An alternative to Gemini's `url_context` tool for the Anthropic
+ * `web_fetch` server tool: pages are downloaded by the proxy itself and
+ * handed to the model (and back to the client) verbatim, instead of
+ * relying on Gemini to reach and summarize the page.
+ *
+ * - HTTP GET following redirects, bounded by a size cap and a timeout
+ * - limited to public addresses on every hop, like media downloads
+ * - HTML → readable text (scripts, styles and markup stripped)
+ * - text / JSON / markdown passed through as-is
+ * - PDF passed through as a base64 document
+ * - results cached per URL with a TTL
+ */
+
+import type { AnthropicWebFetchResult } from "../models/anthropic";
+import { DisallowedUrlError, fetchPublic, resolveWithDns } from "./public-fetch";
+import { Logger } from "../utils/logger";
+
+// ---------------------------------------------------------------------------
+// Types & constants
+// ---------------------------------------------------------------------------
+
+/** How `web_fetch` server tool calls are served. */
+export type WebFetchMode = "url_context" | "local";
+
+/** A fetched page, ready to be wrapped in a `web_fetch_tool_result`. */
+export interface FetchedPage {
+  /** The requested URL. */
+  url: string;
+  title: string;
+  /** `text/plain` for text content, `application/pdf` for PDFs. */
+  mediaType: "text/plain" | "application/pdf";
+  /** Page text, or base64 data for PDFs. */
+  data: string;
+  retrievedAt: string;
+}
+
+/** Anthropic `web_fetch_tool_result_error` codes a fetch can fail with. */
+export type WebFetchErrorCode =
+  | "url_too_long"
+  | "url_not_allowed"
+  | "url_not_accessible"
+  | "unsupported_content_type";
+
+/** A failed fetch, carrying the Anthropic error code to report. */
+export class WebFetchError extends Error {
+  readonly errorCode: WebFetchErrorCode;
+
+  constructor(message: string, errorCode: WebFetchErrorCode) {
+    super(message);
+    this.name = "WebFetchError";
+    this.errorCode = errorCode;
+  }
+}
+
+/** Optional WebFetcher settings. */
+export interface WebFetcherOptions {
+  /** Maximum download size in bytes. */
+  maxBytes?: number;
+
+  /** Download timeout in milliseconds. */
+  timeoutMs?: number;
+
+  /** How long fetched pages are cached, in milliseconds. */
+  cacheTtlMs?: number;
+
+  /** Maximum number of cached URLs. */
+  maxCacheEntries?: number;
+
+  /** Fetch implementation (overridable for tests). */
+  fetch?: typeof fetch;
+
+  /** Resolves a host name to its IP addresses (overridable for tests). */
+  resolveHost?: (hostname: string) => Promise<string[]>;
+}
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+
+const DEFAULT_TIMEOUT_MS = 20_000;
+
+const DEFAULT_CACHE_TTL_MS = 15 * 60 * 1000;
+
+const DEFAULT_MAX_CACHE_ENTRIES = 200;
+
+/** Anthropic rejects web_fetch URLs longer than this. */
+const MAX_URL_LENGTH = 250;
+
+const USER_AGENT = "Mozilla/5.0 (compatible; gemini-claude-code web_fetch)";
+
+/** Content types passed through verbatim. */
+const TEXT_MIME_TYPES = new Set([
+  "application/json",
+  "application/ld+json",
+  "application/xml",
+  "application/javascript",
+  "application/x-yaml",
+  "application/yaml",
+  "text/markdown",
+  "text/x-markdown",
+]);
+
+/** Elements whose content is never readable text. */
+const STRIPPED_ELEMENTS = ["script", "style", "noscript", "svg", "template", "iframe", "head"];
+
+/** Elements that start a new line in the extracted text. */
+const BLOCK_ELEMENTS =
+  "address|article|aside|blockquote|br|dd|div|dl|dt|figcaption|figure|footer|form|" +
+  "h[1-6]|header|hr|li|main|nav|ol|p|pre|section|table|tr|ul";
+
+/** Bare http(s) URLs in free text. */
+const URL_REGEX = /https?:\/\/[^\s<>"'`]+/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  mdash: "—",
+  ndash: "–",
+  hellip: "…",
+  copy: "©",
+  reg: "®",
+  laquo: "«",
+  raquo: "»",
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Finds the distinct http(s) URLs mentioned in a text, without trailing
+ * sentence punctuation or an unbalanced closing bracket.
+ */
+export function extractUrls(text: string): string[] {
+  const urls = new Set<string>();
+
+  for (const match of text.match(URL_REGEX) ?? []) {
+    let url = match.replace(/[.,;:!?]+$/, "");
+    for (const [open, close] of [["(", ")"], ["[", "]"]]) {
+      while (url.endsWith(close) && url.split(open).length < url.split(close).length) {
+        url = url.slice(0, -1);
+      }
+    }
+    urls.add(url);
+  }
+
+  return [...urls];
+}
+
+/**
+ * Wraps a fetched page as the `web_fetch_result` of a
+ * `web_fetch_tool_result` block, returning the content verbatim.
+ */
+export function toWebFetchResult(page: FetchedPage): AnthropicWebFetchResult {
+  return {
+    type: "web_fetch_result",
+    url: page.url,
+    content: {
+      type: "document",
+      source:
+        page.mediaType === "application/pdf"
+          ? { type: "base64", media_type: "application/pdf", data: page.data }
+          : { type: "text", media_type: "text/plain", data: page.data },
+      title: page.title,
+      citations: { enabled: false },
+    },
+    retrieved_at: page.retrievedAt,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// WebFetcher
+// ---------------------------------------------------------------------------
+
+/**
+ * Downloads web pages for `web_fetch` and converts them to text.
+ *
+ * @example
+ * ```ts
+ * const fetcher = new WebFetcher();
+ * const page = await fetcher.fetch("https://bun.sh/docs");
+ * ```
+ */
+export class WebFetcher {
+  private readonly maxBytes: number;
+  private readonly timeoutMs: number;
+  private readonly cacheTtlMs: number;
+  private readonly maxCacheEntries: number;
+  private readonly fetchFn: typeof fetch;
+  private readonly resolveHost: (hostname: string) => Promise<string[]>;
+  private readonly logger: Logger;
+
+  /**
+   * URL → cached page, the URLs of its redirect hops and its expiry time
+   * (insertion-ordered for eviction).
+   */
+  private readonly cache = new Map<
+    string,
+    { page: FetchedPage; hops: string[]; expiresAt: number }
+  >();
+
+  constructor(options: WebFetcherOptions = {}) {
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.maxCacheEntries = options.maxCacheEntries ?? DEFAULT_MAX_CACHE_ENTRIES;
+    this.fetchFn = options.fetch ?? fetch;
+    this.resolveHost = options.resolveHost ?? resolveWithDns;
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Fetches a URL, serving it from the cache while fresh.
+   *
+   * @param allowUrl - Checked on the URL and every redirect hop, also
+   *                   for cached pages (e.g. the tool's domain rules).
+   * @throws {WebFetchError} If the page cannot be fetched or converted,
+   *         or `allowUrl` refused a hop (`url_not_allowed`).
+   */
+  async fetch(url: string, allowUrl?: (url: string) => boolean): Promise<FetchedPage> {
+    const cached = this.cache.get(url);
+    if (cached && cached.expiresAt > Date.now()) {
+      const refused = allowUrl && cached.hops.find((hop) => !allowUrl(hop));
+      if (refused) throw this.notAllowed(url, refused);
+      this.logger.debug("WebFetch cache hit", { url });
+      return cached.page;
+    }
+
+    const hops: string[] = [];
+    const page = await this.download(url, (hop) => {
+      hops.push(hop);
+      return allowUrl?.(hop) ?? true;
+    });
+
+    this.cache.delete(url);
+    this.cache.set(url, { page, hops, expiresAt: Date.now() + this.cacheTtlMs });
+    if (this.cache.size > this.maxCacheEntries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+
+    return page;
+  }
+
+  // -------------------------------------------------------------------------
+  // Download
+  // -------------------------------------------------------------------------
+
+  private async download(
+    url: string,
+    allowUrl: (url: string) => boolean
+  ): Promise<FetchedPage> {
+    if (url.length > MAX_URL_LENGTH) {
+      throw new WebFetchError(`URL exceeds ${MAX_URL_LENGTH} characters.`, "url_too_long");
+    }
+
+    let response: Response;
+    try {
+      response = await fetchPublic(url, {
+        fetch: this.fetchFn,
+        resolveHost: this.resolveHost,
+        signal: AbortSignal.timeout(this.timeoutMs),
+        allowUrl,
+        headers: {
+          "User-Agent": USER_AGENT,
+          Accept: "text/html,text/plain,text/markdown,application/json,application/pdf;q=0.9,*/*;q=0.5",
+        },
+      });
+    } catch (error) {
+      if (error instanceof DisallowedUrlError) {
+        throw new WebFetchError(`Failed to fetch ${url}: ${error.message}`, "url_not_allowed");
+      }
+      throw new WebFetchError(
+        `Failed to fetch ${url}: ${error instanceof Error ? error.message : String(error)}`,
+        "url_not_accessible"
+      );
+    }
+
+    if (!response.ok) {
+      throw new WebFetchError(
+        `Failed to fetch ${url}: HTTP ${response.status}`,
+        "url_not_accessible"
+      );
+    }
+
+    const mimeType = (response.headers.get("content-type") ?? "text/plain")
+      .split(";")[0]
+      .trim()
+      .toLowerCase();
+    const bytes = await this.readBody(response, url);
+    const retrievedAt = new Date().toISOString();
+
+    this.logger.debug("WebFetch downloaded", { url, mimeType, bytes: bytes.length });
+
+    if (mimeType === "application/pdf") {
+      return {
+        url,
+        title: this.titleFromUrl(response.url || url),
+        mediaType: "application/pdf",
+        data: Buffer.from(bytes).toString("base64"),
+        retrievedAt,
+      };
+    }
+
+    const text = new TextDecoder().decode(bytes);
+
+    if (mimeType === "text/html" || mimeType === "application/xhtml+xml") {
+      const extracted = WebFetcher.htmlToText(text);
+      return {
+        url,
+        title: extracted.title || this.titleFromUrl(response.url || url),
+        mediaType: "text/plain",
+        data: extracted.text,
+        retrievedAt,
+      };
+    }
+
+    if (mimeType.startsWith("text/") || TEXT_MIME_TYPES.has(mimeType) || mimeType.endsWith("+json")) {
+      return {
+        url,
+        title: this.titleFromUrl(response.url || url),
+        mediaType: "text/plain",
+        data: text,
+        retrievedAt,
+      };
+    }
+
+    throw new WebFetchError(
+      `Unsupported content type "${mimeType}" at ${url}`,
+      "unsupported_content_type"
+    );
+  }
+
+  /**
+   * Reads the response body, aborting as soon as the size cap is exceeded.
+   */
+  private async readBody(response: Response, url: string): Promise<Uint8Array> {
+    if (Number(response.headers.get("content-length") ?? 0) > this.maxBytes) {
+      throw this.tooLarge(url);
+    }
+    if (!response.body) return new Uint8Array(0);
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        total += value.length;
+        if (total > this.maxBytes) {
+          await reader.cancel();
+          throw this.tooLarge(url);
+        }
+        chunks.push(value);
+      }
+    } catch (error) {
+      if (error instanceof WebFetchError) throw error;
+      throw new WebFetchError(
+        `Failed to read ${url}: ${error instanceof Error ? error.message : String(error)}`,
+        "url_not_accessible"
+      );
+    }
+
+    const bytes = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return bytes;
+  }
+
+  private notAllowed(url: string, hop: string): WebFetchError {
+    return new WebFetchError(`Failed to fetch ${url}: ${hop} is not allowed.`, "url_not_allowed");
+  }
+
+  private tooLarge(url: string): WebFetchError {
+    return new WebFetchError(
+      `Content at ${url} exceeds the ${Math.floor(this.maxBytes / (1024 * 1024))} MB limit.`,
+      "url_not_accessible"
+    );
+  }
+
+  private titleFromUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      return parsed.hostname + parsed.pathname;
+    } catch {
+      return url;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // HTML extraction
+  // -------------------------------------------------------------------------
+
+  /**
+   * Extracts the title and readable text of an HTML document.
+   *
+   * Intentionally simple: drops non-content elements, turns block
+   * elements into line breaks, strips the remaining tags and decodes
+   * entities.
+   */
+  static htmlToText(html: string): { title: string; text: string } {
+    const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+    const title = titleMatch ? WebFetcher.decodeEntities(titleMatch[1]).trim() : "";
+
+    let body = html.replace(/<!--[\s\S]*?-->/g, "");
+    for (const tag of STRIPPED_ELEMENTS) {
+      body = body.replace(new RegExp(`<${tag}\\b[\\s\\S]*?</${tag}>`, "gi"), "");
+    }
+
+    body = body
+      .replace(/<li\b[^>]*>/gi, "\n- ")
+      .replace(new RegExp(`</?(?:${BLOCK_ELEMENTS})\\b[^>]*>`, "gi"), "\n")
+      .replace(/<\/t[dh]>/gi, "\t")
+      .replace(/<[^>]+>/g, "");
+
+    const text = WebFetcher.decodeEntities(body)
+      .split("\n")
+      .map((line) => line.replace(/[ \t\f\v ]+/g, " ").trim())
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+
+    return { title, text };
+  }
+
+  private static decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+      if (entity[0] === "#") {
+        const code =
+          entity[1] === "x" || entity[1] === "X"
+            ? parseInt(entity.substring(2), 16)
+            : parseInt(entity.substring(1), 10);
+        return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+      }
+      return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+  }
+}
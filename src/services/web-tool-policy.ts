@@ -0,0 +1,204 @@
+/**
+ * Web tool policy — enforces the restrictions an Anthropic request sets
+ * on its server-side web tools:
+ *
+ * - `allowed_domains` → only sources on these domains are reported
+ * - `blocked_domains` → sources on these domains are dropped / rejected
+ * - `max_uses`        → searches / fetches beyond the cap are answered
+ *                       with a `max_uses_exceeded` error block
+ *
+ * Gemini runs `google_search` and `url_context` on its own, so the policy
+ * is applied to what Gemini reports back (grounding and URL context
+ * metadata) before it is turned into Anthropic blocks.
+ *
+ * @see https://docs.anthropic.com/en/docs/agents-and-tools/tool-use/web-search-tool
+ */
+
+import type { AnthropicServerTool } from "./web-tools";
+import { InvalidRequestError } from "../utils/errors";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The web tools a policy applies to. */
+export type WebToolName = "web_search" | "web_fetch";
+
+/** A parsed domain entry, e.g. `docs.example.com/api`. */
+interface DomainRule {
+  host: string;
+  pathPrefix: string;
+}
+
+/** Restrictions for a single web tool. */
+interface ToolRestrictions {
+  allowed: DomainRule[] | null;
+  blocked: DomainRule[];
+  maxUses: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// WebToolPolicy
+// ---------------------------------------------------------------------------
+
+/**
+ * Per-request domain and usage restrictions for web_search / web_fetch.
+ *
+ * Usage counters live on the instance, so a new policy is created for
+ * every request.
+ *
+ * @example
+ * ```ts
+ * const policy = WebToolPolicy.fromServerTools(serverTools);
+ * if (policy.isUrlAllowed("web_fetch", url) && policy.tryUse("web_fetch")) { … }
+ * ```
+ */
+export class WebToolPolicy {
+  private readonly restrictions: Record<WebToolName, ToolRestrictions>;
+  private readonly uses: Record<WebToolName, number> = {
+    web_search: 0,
+    web_fetch: 0,
+  };
+
+  private constructor(restrictions: Record<WebToolName, ToolRestrictions>) {
+    this.restrictions = restrictions;
+  }
+
+  /**
+   * Builds a policy from the server tools of a request.
+   *
+   * @throws {InvalidRequestError} If a tool sets both allowed and blocked
+   *         domains, or an invalid `max_uses`.
+   */
+  static fromServerTools(tools: AnthropicServerTool[]): WebToolPolicy {
+    return new WebToolPolicy({
+      web_search: WebToolPolicy.parseRestrictions(
+        tools.find((t) => t.name === "web_search")
+      ),
+      web_fetch: WebToolPolicy.parseRestrictions(
+        tools.find((t) => t.name === "web_fetch")
+      ),
+    });
+  }
+
+  /** A policy without any restriction. */
+  static unrestricted(): WebToolPolicy {
+    return WebToolPolicy.fromServerTools([]);
+  }
+
+  // -------------------------------------------------------------------------
+  // Checks
+  // -------------------------------------------------------------------------
+
+  /**
+   * Whether a URL may be reported for the given tool.
+   * Unparseable URLs are only allowed when the tool has no domain rules.
+   */
+  isUrlAllowed(tool: WebToolName, url: string): boolean {
+    const { allowed, blocked } = this.restrictions[tool];
+    if (!allowed && blocked.length === 0) return true;
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+
+    return this.isTargetAllowed(tool, parsed.hostname, parsed.pathname);
+  }
+
+  /**
+   * Whether a bare domain (e.g. a grounding chunk's source domain) may be
+   * reported for the given tool.
+   */
+  isDomainAllowed(tool: WebToolName, domain: string): boolean {
+    return this.isTargetAllowed(tool, domain, "/");
+  }
+
+  /**
+   * Records one use of a tool.
+   *
+   * @returns `false` if the tool's `max_uses` is already exhausted.
+   */
+  tryUse(tool: WebToolName): boolean {
+    const { maxUses } = this.restrictions[tool];
+    if (maxUses !== null && this.uses[tool] >= maxUses) {
+      return false;
+    }
+    this.uses[tool]++;
+    return true;
+  }
+
+  /** Number of successful uses of a tool so far. */
+  usageOf(tool: WebToolName): number {
+    return this.uses[tool];
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private isTargetAllowed(tool: WebToolName, host: string, path: string): boolean {
+    const { allowed, blocked } = this.restrictions[tool];
+    const normalizedHost = host.toLowerCase().replace(/\.$/, "");
+
+    if (blocked.some((rule) => WebToolPolicy.matches(rule, normalizedHost, path))) {
+      return false;
+    }
+    if (allowed && !allowed.some((rule) => WebToolPolicy.matches(rule, normalizedHost, path))) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * A rule matches its host and any subdomain of it, restricted to the
+   * rule's path prefix when one is given.
+   */
+  private static matches(rule: DomainRule, host: string, path: string): boolean {
+    const hostMatches = host === rule.host || host.endsWith(`.${rule.host}`);
+    return hostMatches && path.startsWith(rule.pathPrefix);
+  }
+
+  private static parseRestrictions(tool: AnthropicServerTool | undefined): ToolRestrictions {
+    if (!tool) {
+      return { allowed: null, blocked: [], maxUses: null };
+    }
+
+    if (tool.allowed_domains?.length && tool.blocked_domains?.length) {
+      throw new InvalidRequestError(
+        `${tool.name}: allowed_domains and blocked_domains cannot be used together.`
+      );
+    }
+
+    if (
+      tool.max_uses !== undefined &&
+      (!Number.isInteger(tool.max_uses) || tool.max_uses < 1)
+    ) {
+      throw new InvalidRequestError(`${tool.name}: max_uses must be a positive integer.`);
+    }
+
+    return {
+      allowed: tool.allowed_domains?.length
+        ? tool.allowed_domains.map((d) => WebToolPolicy.parseRule(tool.name, d))
+        : null,
+      blocked: (tool.blocked_domains ?? []).map((d) => WebToolPolicy.parseRule(tool.name, d)),
+      maxUses: tool.max_uses ?? null,
+    };
+  }
+
+  private static parseRule(toolName: string, entry: string): DomainRule {
+    const trimmed = entry.trim().toLowerCase();
+    if (!trimmed || /^[a-z][a-z0-9+.-]*:\/\//.test(trimmed)) {
+      throw new InvalidRequestError(
+        `${toolName}: invalid domain "${entry}" (omit the scheme, e.g. "example.com").`
+      );
+    }
+
+    const slash = trimmed.indexOf("/");
+    return slash === -1
+      ? { host: trimmed, pathPrefix: "/" }
+      : { host: trimmed.substring(0, slash), pathPrefix: trimmed.substring(slash) };
+  }
+}
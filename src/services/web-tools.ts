@@ -3,7 +3,8 @@
  * and implements them using Gemini's native capabilities:
  *
  * - `web_search` → Gemini Google Search grounding (`google_search: {}`)
- * - `web_fetch` (generic URL) → Gemini URL Context (`url_context: {}`)
+ * - `web_fetch` (generic URL) → local WebFetcher when configured, else
+ *   Gemini URL Context (`url_context: {}`)
  * - `web_fetch` (YouTube URL) → Gemini Video Understanding (`fileData`)
  *
  * This service acts as a "sub-agent": it makes a separate Gemini API call
@@ -16,6 +17,18 @@ import type {
   GeminiGenerateContentRequest,
   GeminiGenerateContentResponse,
 } from "../models/gemini";
+import type {
+  AnthropicTool,
+  AnthropicServerToolUseBlock as ServerToolUse,
+  AnthropicWebSearchResult as WebSearchResult,
+  AnthropicWebSearchToolResultBlock as WebSearchToolResult,
+  AnthropicWebFetchToolResultBlock as WebFetchToolResult,
+} from "../models/anthropic";
+import {
+  generateServerToolUseId,
+  toWebSearchResults,
+} from "../converters/grounding-converter";
+import { WebFetcher, WebFetchError, toWebFetchResult } from "./web-fetcher";
 import { Logger } from "../utils/logger";
 
 // ---------------------------------------------------------------------------
@@ -33,21 +46,7 @@ function isYouTubeUrl(url: string): boolean {
 }
 
 // ---------------------------------------------------------------------------
-// ID generation
-// ---------------------------------------------------------------------------
-
-function generateServerToolUseId(): string {
-  const chars =
-    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
-  let result = "srvtoolu_";
-  for (let i = 0; i < 24; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return result;
-}
-
-// ---------------------------------------------------------------------------
-// Types — Anthropic server-tool blocks
+// Types — Anthropic server tools
 // ---------------------------------------------------------------------------
 
 /** Represents an Anthropic server-side tool definition in the request. */
@@ -60,51 +59,6 @@ export interface AnthropicServerTool {
   [key: string]: unknown;
 }
 
-/** A WebSearch result entry in the Anthropic format. */
-interface WebSearchResult {
-  type: "web_search_result";
-  url: string;
-  title: string;
-  encrypted_content: string;
-  page_age?: string;
-}
-
-/** A web_search_tool_result content block. */
-interface WebSearchToolResult {
-  type: "web_search_tool_result";
-  tool_use_id: string;
-  content: WebSearchResult[];
-}
-
-/** A server_tool_use content block. */
-interface ServerToolUse {
-  type: "server_tool_use";
-  id: string;
-  name: string;
-  input: Record<string, unknown>;
-}
-
-/** A web_fetch_tool_result content block. */
-interface WebFetchToolResult {
-  type: "web_fetch_tool_result";
-  tool_use_id: string;
-  content: {
-    type: "web_fetch_result";
-    url: string;
-    content: {
-      type: "document";
-      source: {
-        type: "text";
-        media_type: "text/plain";
-        data: string;
-      };
-      title: string;
-      citations: { enabled: boolean };
-    };
-    retrieved_at: string;
-  };
-}
-
 // ---------------------------------------------------------------------------
 // WebToolsService
 // ---------------------------------------------------------------------------
@@ -124,11 +78,22 @@ interface WebFetchToolResult {
 export class WebToolsService {
   private readonly geminiClient: GeminiClient;
   private readonly geminiModel: string;
+  private readonly webFetcher: WebFetcher | null;
   private readonly logger: Logger;
 
-  constructor(geminiClient: GeminiClient, geminiModel: string) {
+  /**
+   * @param webFetcher - When given, generic URLs are fetched locally and
+   *                     returned verbatim; url_context is only used when
+   *                     the local fetch fails.
+   */
+  constructor(
+    geminiClient: GeminiClient,
+    geminiModel: string,
+    webFetcher: WebFetcher | null = null
+  ) {
     this.geminiClient = geminiClient;
     this.geminiModel = geminiModel;
+    this.webFetcher = webFetcher;
     this.logger = Logger.getInstance();
   }
 
@@ -140,20 +105,16 @@ export class WebToolsService {
    * Extracts Anthropic server-side tools from the tools array.
    * Returns the server tools AND the remaining "regular" tools.
    */
-  static extractServerTools(tools: unknown[]): {
+  static extractServerTools(tools: Array<AnthropicTool | AnthropicServerTool>): {
     serverTools: AnthropicServerTool[];
-    regularTools: unknown[];
+    regularTools: AnthropicTool[];
   } {
     const serverTools: AnthropicServerTool[] = [];
-    const regularTools: unknown[] = [];
+    const regularTools: AnthropicTool[] = [];
 
     for (const tool of tools) {
-      const t = tool as Record<string, unknown>;
-      if (
-        typeof t.type === "string" &&
-        (t.type.startsWith("web_search") || t.type.startsWith("web_fetch"))
-      ) {
-        serverTools.push(t as unknown as AnthropicServerTool);
+      if (WebToolsService.isServerTool(tool)) {
+        serverTools.push(tool);
       } else {
         regularTools.push(tool);
       }
@@ -162,6 +123,18 @@ export class WebToolsService {
     return { serverTools, regularTools };
   }
 
+  /**
+   * Whether a tool of the request is a web_search / web_fetch server
+   * tool rather than a function definition.
+   */
+  static isServerTool(tool: AnthropicTool | AnthropicServerTool): tool is AnthropicServerTool {
+    return (
+      "type" in tool &&
+      typeof tool.type === "string" &&
+      (tool.type.startsWith("web_search") || tool.type.startsWith("web_fetch"))
+    );
+  }
+
   /**
    * Checks whether the given server tools include web_search.
    */
@@ -201,7 +174,7 @@ export class WebToolsService {
             parts: [{ text: query }],
           },
         ],
-        tools: [{ google_search: {} } as any],
+        tools: [{ google_search: {} }],
         generationConfig: {
           maxOutputTokens: 8192,
         },
@@ -214,7 +187,6 @@ export class WebToolsService {
 
       // Extract grounding metadata
       const candidate = response.candidates?.[0];
-      const groundingMetadata = (candidate as any)?.groundingMetadata;
       const textContent =
         candidate?.content?.parts
           ?.filter((p) => "text" in p)
@@ -222,21 +194,9 @@ export class WebToolsService {
           .join("") ?? "";
 
       // Build search results from grounding chunks
-      const searchResults: WebSearchResult[] = [];
-      if (groundingMetadata?.groundingChunks) {
-        for (const chunk of groundingMetadata.groundingChunks) {
-          if (chunk.web) {
-            searchResults.push({
-              type: "web_search_result",
-              url: chunk.web.uri ?? "",
-              title: chunk.web.title ?? "",
-              // Encode the actual text content as "encrypted_content"
-              // Claude Code uses this to build citations
-              encrypted_content: Buffer.from(textContent).toString("base64"),
-            });
-          }
-        }
-      }
+      const searchResults: WebSearchResult[] = toWebSearchResults(
+        candidate?.groundingMetadata?.groundingChunks
+      );
 
       // If no structured results but we have text, create a synthetic result
       if (searchResults.length === 0 && textContent) {
@@ -298,13 +258,31 @@ export class WebToolsService {
   }
 
   /**
-   * Fetches a regular URL using Gemini's URL Context tool.
+   * Fetches a regular URL, locally when a WebFetcher is configured and
+   * otherwise (or as a fallback) using Gemini's URL Context tool.
    */
   private async fetchUrlContent(
     url: string,
     prompt: string | undefined,
     toolUseId: string
   ): Promise<Array<ServerToolUse | WebFetchToolResult>> {
+    if (this.webFetcher) {
+      try {
+        const page = await this.webFetcher.fetch(url);
+        this.logger.info("WebFetch via local fetcher", { url, mediaType: page.mediaType });
+        return [
+          { type: "server_tool_use", id: toolUseId, name: "web_fetch", input: { url } },
+          { type: "web_fetch_tool_result", tool_use_id: toolUseId, content: toWebFetchResult(page) },
+        ];
+      } catch (error) {
+        if (!(error instanceof WebFetchError)) throw error;
+        this.logger.warn("Local WebFetch failed, falling back to URL Context", {
+          url,
+          errorCode: error.errorCode,
+        });
+      }
+    }
+
     this.logger.info("WebFetch via Gemini URL Context", { url });
 
     try {
@@ -319,7 +297,7 @@ export class WebToolsService {
             parts: [{ text: userText }],
           },
         ],
-        tools: [{ url_context: {} } as any],
+        tools: [{ url_context: {} }],
         generationConfig: {
           maxOutputTokens: 16384,
         },
@@ -40,6 +40,20 @@ export class ProxyError extends Error {
       },
     };
   }
+
+  /**
+   * Converts this error to an OpenAI-compatible error response body,
+   * used by the `/v1/chat/completions` endpoint.
+   */
+  toOpenAIResponse(): { error: { message: string; type: string; code: string | null } } {
+    return {
+      error: {
+        message: this.message,
+        type: this.errorType,
+        code: null,
+      },
+    };
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -72,9 +86,16 @@ export class NotFoundError extends ProxyError {
 
 /** Rate limit exceeded. */
 export class RateLimitError extends ProxyError {
-  constructor(message = "Rate limit exceeded. Please retry after a brief wait.") {
+  /** Seconds the client should wait, sent as `Retry-After` when known. */
+  readonly retryAfter?: number;
+
+  constructor(
+    message = "Rate limit exceeded. Please retry after a brief wait.",
+    retryAfter?: number
+  ) {
     super(message, 429, "rate_limit_error");
     this.name = "RateLimitError";
+    this.retryAfter = retryAfter;
   }
 }
 
@@ -99,6 +120,14 @@ export class OverloadedError extends ProxyError {
   }
 }
 
+/** The client went away before the response was complete. */
+export class RequestCancelledError extends ProxyError {
+  constructor(message = "The request was cancelled by the client.") {
+    super(message, 499, "api_error");
+    this.name = "RequestCancelledError";
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Error mapping utility
 // ---------------------------------------------------------------------------
@@ -106,11 +135,16 @@ export class OverloadedError extends ProxyError {
 /**
  * Maps a Gemini API HTTP error status to the corresponding ProxyError.
  *
- * @param status  - The HTTP status from the Gemini API response.
- * @param body    - The raw error body from Gemini.
+ * @param status     - The HTTP status from the Gemini API response.
+ * @param body       - The raw error body from Gemini.
+ * @param retryAfter - Seconds to wait, passed on for rate limit errors.
  * @returns A ProxyError suitable for returning to the Anthropic client.
  */
-export function mapGeminiError(status: number, body: string): ProxyError {
+export function mapGeminiError(
+  status: number,
+  body: string,
+  retryAfter?: number
+): ProxyError {
   let message: string;
   try {
     const parsed = JSON.parse(body);
@@ -128,7 +162,7 @@ export function mapGeminiError(status: number, body: string): ProxyError {
     case 404:
       return new NotFoundError(`Gemini model not found: ${message}`);
     case 429:
-      return new RateLimitError(`Gemini API rate limit: ${message}`);
+      return new RateLimitError(`Gemini API rate limit: ${message}`, retryAfter);
     case 503:
       return new OverloadedError(`Gemini API overloaded: ${message}`);
     default:
@@ -0,0 +1,253 @@
+/**
+ * Tests for the OpenAI Chat Completions ⇄ Gemini converters.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { OpenAIRequestConverter } from "../../src/converters/openai-request-converter";
+import { OpenAIResponseConverter } from "../../src/converters/openai-response-converter";
+import { OpenAIStreamConverter } from "../../src/converters/openai-stream-converter";
+import { ThoughtSignatureService } from "../../src/services/thought-signature";
+import type { OpenAIChatCompletionRequest } from "../../src/models/openai";
+import type { ModelCapabilities } from "../../src/models/config";
+
+// ---------------------------------------------------------------------------
+// Test fixtures
+// ---------------------------------------------------------------------------
+
+const GEMINI_3_CAPS: ModelCapabilities = {
+  geminiModel: "gemini-3-flash-preview",
+  supportsThinking: true,
+  isGemini3: true,
+  defaultThinkingLevel: "HIGH",
+  maxOutputTokens: 65_536,
+};
+
+function createConverter(): OpenAIRequestConverter {
+  return new OpenAIRequestConverter(new ThoughtSignatureService());
+}
+
+function sseResponse(events: unknown[]): Response {
+  const body = events.map((e) => `data: ${JSON.stringify(e)}\r\n\r\n`).join("");
+  return new Response(body);
+}
+
+async function readChunks(stream: ReadableStream<Uint8Array>): Promise<string[]> {
+  const text = await new Response(stream).text();
+  return text
+    .split("\n\n")
+    .filter(Boolean)
+    .map((line) => line.replace(/^data: /, ""));
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("OpenAIRequestConverter", () => {
+  test("maps system messages to systemInstruction", () => {
+    const request: OpenAIChatCompletionRequest = {
+      model: "gpt-4o",
+      messages: [
+        { role: "system", content: "Be terse." },
+        { role: "user", content: "Hi" },
+      ],
+    };
+
+    const result = createConverter().convert(request, GEMINI_3_CAPS);
+
+    expect(result.systemInstruction?.parts).toEqual([{ text: "Be terse." }]);
+    expect(result.contents).toHaveLength(1);
+    expect(result.contents[0].role).toBe("user");
+  });
+
+  test("converts tool_calls and merges parallel tool results", () => {
+    const request: OpenAIChatCompletionRequest = {
+      model: "gpt-4o",
+      messages: [
+        { role: "user", content: "Weather in Paris and Rome?" },
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: "call_1",
+              type: "function",
+              function: { name: "get_weather", arguments: '{"city":"Paris"}' },
+            },
+            {
+              id: "call_2",
+              type: "function",
+              function: { name: "get_weather", arguments: '{"city":"Rome"}' },
+            },
+          ],
+        },
+        { role: "tool", tool_call_id: "call_1", content: "Sunny" },
+        { role: "tool", tool_call_id: "call_2", content: "Rainy" },
+      ],
+    };
+
+    const result = createConverter().convert(request, GEMINI_3_CAPS);
+
+    expect(result.contents).toHaveLength(3);
+    const modelParts = result.contents[1].parts as any[];
+    expect(modelParts[0].functionCall).toEqual({
+      name: "get_weather",
+      args: { city: "Paris" },
+    });
+    expect(modelParts[0].thoughtSignature).toBeDefined();
+
+    const toolParts = result.contents[2].parts as any[];
+    expect(toolParts).toHaveLength(2);
+    expect(toolParts[1].functionResponse).toEqual({
+      name: "get_weather",
+      response: { result: "Rainy" },
+    });
+  });
+
+  test("converts tools with sanitized schemas and tool_choice", () => {
+    const request: OpenAIChatCompletionRequest = {
+      model: "gpt-4o",
+      messages: [{ role: "user", content: "Hi" }],
+      tools: [
+        {
+          type: "function",
+          function: {
+            name: "lookup",
+            parameters: {
+              type: "object",
+              $schema: "http://json-schema.org/draft-07/schema#",
+              additionalProperties: false,
+              properties: { q: { type: "string" } },
+            },
+          },
+        },
+      ],
+      tool_choice: "required",
+    };
+
+    const result = createConverter().convert(request, GEMINI_3_CAPS);
+    const decl = result.tools?.[0].functionDeclarations?.[0] as any;
+
+    expect(decl.parameters.$schema).toBeUndefined();
+    expect(decl.parameters.additionalProperties).toBeUndefined();
+    expect(result.toolConfig?.functionCallingConfig?.mode).toBe("ANY");
+  });
+
+  test("rejects invalid tool call arguments", () => {
+    const request: OpenAIChatCompletionRequest = {
+      model: "gpt-4o",
+      messages: [
+        {
+          role: "assistant",
+          tool_calls: [
+            { id: "call_1", type: "function", function: { name: "x", arguments: "{" } },
+          ],
+        },
+      ],
+    };
+
+    expect(() => createConverter().convert(request, GEMINI_3_CAPS)).toThrow(
+      "not valid JSON"
+    );
+  });
+
+  test("recomputes the thinking config when adapting to a fallback model", () => {
+    const converter = createConverter();
+    const request: OpenAIChatCompletionRequest = {
+      model: "gpt-4o",
+      messages: [{ role: "user", content: "Hi" }],
+      reasoning_effort: "medium",
+    };
+    const flash25: ModelCapabilities = {
+      geminiModel: "gemini-2.5-flash",
+      supportsThinking: true,
+      isGemini3: false,
+      maxOutputTokens: 65_536,
+    };
+
+    const original = converter.convert(request, GEMINI_3_CAPS);
+    const adapted = converter.adaptForModel(original, request, flash25);
+
+    expect(adapted.contents).toBe(original.contents);
+    expect(adapted.generationConfig?.thinkingConfig).toEqual({
+      includeThoughts: false,
+      thinkingBudget: 8192,
+    });
+    expect(original.generationConfig?.thinkingConfig?.thinkingLevel).toBe("MEDIUM");
+  });
+});
+
+describe("OpenAIResponseConverter", () => {
+  test("converts function calls to tool_calls", () => {
+    const completion = new OpenAIResponseConverter("gpt-4o").convert({
+      candidates: [
+        {
+          content: {
+            role: "model",
+            parts: [
+              { text: "thinking...", thought: true },
+              { functionCall: { name: "lookup", args: { q: "bun" } } },
+            ],
+          },
+          finishReason: "STOP",
+        },
+      ],
+      usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 4, totalTokenCount: 14 },
+    });
+
+    const choice = completion.choices[0];
+    expect(choice.finish_reason).toBe("tool_calls");
+    expect(choice.message.content).toBeNull();
+    expect(choice.message.tool_calls?.[0].function).toEqual({
+      name: "lookup",
+      arguments: '{"q":"bun"}',
+    });
+    expect(completion.usage.total_tokens).toBe(14);
+  });
+});
+
+describe("OpenAIStreamConverter", () => {
+  test("emits role, content, finish and usage chunks", async () => {
+    const response = sseResponse([
+      { candidates: [{ content: { role: "model", parts: [{ text: "Hel" }] } }] },
+      {
+        candidates: [
+          { content: { role: "model", parts: [{ text: "lo" }] }, finishReason: "MAX_TOKENS" },
+        ],
+        usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 2, totalTokenCount: 5 },
+      },
+    ]);
+
+    const chunks = await readChunks(
+      new OpenAIStreamConverter("gpt-4o", true).convertStream(response)
+    );
+
+    expect(chunks[chunks.length - 1]).toBe("[DONE]");
+    const parsed = chunks.slice(0, -1).map((c) => JSON.parse(c));
+
+    expect(parsed[0].choices[0].delta.role).toBe("assistant");
+    expect(parsed[1].choices[0].delta.content).toBe("Hel");
+    expect(parsed[2].choices[0].delta.content).toBe("lo");
+    expect(parsed[3].choices[0].finish_reason).toBe("length");
+    expect(parsed[4].choices).toEqual([]);
+    expect(parsed[4].usage.total_tokens).toBe(5);
+  });
+
+  test("cancels the upstream read when the request signal aborts", async () => {
+    let cancelled = false;
+    const upstream = new Response(
+      new ReadableStream<Uint8Array>({
+        pull: () => new Promise<void>(() => {}),
+        cancel() {
+          cancelled = true;
+        },
+      })
+    );
+    const abort = new AbortController();
+
+    new OpenAIStreamConverter("gpt-4o").convertStream(upstream, abort.signal);
+    abort.abort();
+
+    expect(cancelled).toBe(true);
+  });
+});
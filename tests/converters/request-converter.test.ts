@@ -6,7 +6,7 @@ import { describe, test, expect } from "bun:test";
 import { RequestConverter } from "../../src/converters/request-converter";
 import { ThoughtSignatureService } from "../../src/services/thought-signature";
 import type { AnthropicMessagesRequest } from "../../src/models/anthropic";
-import type { ModelCapabilities } from "../../src/models/config";
+import { ModelConfigService, type ModelCapabilities } from "../../src/models/config";
 
 // ---------------------------------------------------------------------------
 // Test fixtures
@@ -239,6 +239,103 @@ describe("RequestConverter", () => {
     expect(result.generationConfig?.thinkingConfig?.thinkingBudget).toBe(8192);
   });
 
+  test("sends a route's thinking level as a budget to flash-lite", () => {
+    const converter = createConverter();
+    const config = new ModelConfigService(undefined, {
+      routes: [{ match: "claude-haiku-*", model: "gemini-flash-lite-latest", thinkingLevel: "MINIMAL" }],
+    });
+    const request: AnthropicMessagesRequest = {
+      model: "claude-haiku-4-5-20251001",
+      messages: [{ role: "user", content: "Hi" }],
+      max_tokens: 1024,
+    };
+
+    const result = converter.convert(request, config.resolve(request.model));
+
+    expect(result.generationConfig?.thinkingConfig?.thinkingBudget).toBe(0);
+    expect(result.generationConfig?.thinkingConfig?.thinkingLevel).toBeUndefined();
+  });
+
+  test("raises MINIMAL and disabled thinking to 2.5 Pro's smallest budget", () => {
+    const converter = createConverter();
+    const config = new ModelConfigService(undefined, {
+      routes: [{ match: "claude-opus-*", model: "gemini-2.5-pro", thinkingLevel: "MINIMAL" }],
+    });
+    const request: AnthropicMessagesRequest = {
+      model: "claude-opus-4-6",
+      messages: [{ role: "user", content: "Hi" }],
+      max_tokens: 1024,
+    };
+    const capabilities = config.resolve(request.model);
+
+    const minimal = converter.convert(request, capabilities);
+    const disabled = converter.convert({ ...request, thinking: { type: "disabled" } }, capabilities);
+
+    expect(minimal.generationConfig?.thinkingConfig?.thinkingBudget).toBe(128);
+    expect(disabled.generationConfig?.thinkingConfig?.thinkingBudget).toBe(128);
+  });
+
+  test("recomputes the thinking config when adapting to a fallback model", () => {
+    const converter = createConverter();
+    const request: AnthropicMessagesRequest = {
+      model: "test",
+      messages: [{ role: "user", content: "Hi" }],
+      max_tokens: 1024,
+      thinking: { type: "enabled", budget_tokens: 8192 },
+    };
+
+    const original = converter.convert(request, GEMINI_3_CAPS);
+    const adapted = converter.adaptForModel(original, request, GEMINI_25_CAPS);
+
+    expect(adapted.contents).toBe(original.contents);
+    expect(adapted.generationConfig?.thinkingConfig).toEqual({
+      includeThoughts: true,
+      thinkingBudget: 8192,
+    });
+    expect(original.generationConfig?.thinkingConfig?.thinkingLevel).toBe("MEDIUM");
+  });
+
+  test("asks for streamed function-call arguments where supported", () => {
+    const converter = createConverter();
+    const request: AnthropicMessagesRequest = {
+      model: "test",
+      messages: [{ role: "user", content: "Write a file" }],
+      max_tokens: 1024,
+      stream: true,
+      tools: [{ name: "Write", input_schema: { type: "object", properties: {} } }],
+      tool_choice: { type: "any" },
+    };
+    const streaming = { ...GEMINI_3_CAPS, streamsFunctionCallArguments: true };
+
+    const converted = converter.convert(request, streaming);
+    expect(converted.toolConfig?.functionCallingConfig).toEqual({
+      mode: "ANY",
+      streamFunctionCallArguments: true,
+    });
+
+    const adapted = converter.adaptForModel(converted, request, GEMINI_25_CAPS);
+    expect(adapted.toolConfig?.functionCallingConfig).toEqual({ mode: "ANY" });
+
+    expect(converter.convert({ ...request, stream: false }, streaming).toolConfig).toEqual({
+      functionCallingConfig: { mode: "ANY" },
+    });
+  });
+
+  test("sends at most five stop sequences to Gemini", () => {
+    const converter = createConverter();
+    const result = converter.convert(
+      {
+        model: "test",
+        messages: [{ role: "user", content: "Count" }],
+        max_tokens: 1024,
+        stop_sequences: ["1", "2", "3", "4", "5", "6", "7"],
+      },
+      GEMINI_3_CAPS
+    );
+
+    expect(result.generationConfig?.stopSequences).toEqual(["1", "2", "3", "4", "5"]);
+  });
+
   test("maps basic generation params", () => {
     const converter = createConverter();
     const request: AnthropicMessagesRequest = {
@@ -426,4 +523,116 @@ describe("RequestConverter", () => {
     const frPart = frContent!.parts[0] as any;
     expect(frPart.functionResponse.response.error).toBe("Tool failed!");
   });
+
+  test("converts document blocks (PDF, text, URL)", () => {
+    const converter = createConverter();
+    const request: AnthropicMessagesRequest = {
+      model: "test",
+      messages: [
+        {
+          role: "user",
+          content: [
+            {
+              type: "document",
+              source: { type: "base64", media_type: "application/pdf", data: "JVBERi0x" },
+              title: "spec.pdf",
+            },
+            {
+              type: "document",
+              source: { type: "text", media_type: "text/plain", data: "plain body" },
+            },
+            {
+              type: "document",
+              source: { type: "url", url: "https://example.com/a.pdf" },
+            },
+            { type: "text", text: "Summarize these." },
+          ],
+        },
+      ],
+      max_tokens: 1024,
+    };
+
+    const result = converter.convert(request, GEMINI_3_CAPS);
+    const parts = result.contents[0].parts as any[];
+
+    expect(parts[0].text).toBe("[Document: spec.pdf]");
+    expect(parts[1].inlineData).toEqual({ mimeType: "application/pdf", data: "JVBERi0x" });
+    expect(parts[2].text).toBe("plain body");
+    expect(parts[3].fileData).toEqual({
+      mimeType: "application/pdf",
+      fileUri: "https://example.com/a.pdf",
+    });
+    expect(parts[4].text).toBe("Summarize these.");
+  });
+
+  test("keeps documents nested in tool_result as sibling parts", () => {
+    const converter = createConverter();
+    const request: AnthropicMessagesRequest = {
+      model: "test",
+      messages: [
+        {
+          role: "assistant",
+          content: [{ type: "tool_use", id: "toolu_pdf", name: "Read", input: {} }],
+        },
+        {
+          role: "user",
+          content: [
+            {
+              type: "tool_result",
+              tool_use_id: "toolu_pdf",
+              content: [
+                { type: "text", text: "PDF read" },
+                {
+                  type: "document",
+                  source: { type: "base64", media_type: "application/pdf", data: "JVBERi0x" },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      max_tokens: 1024,
+    };
+
+    converter.buildToolNameMap(request.messages);
+    const result = converter.convert(request, GEMINI_25_CAPS);
+    const parts = result.contents[1].parts as any[];
+
+    expect(parts).toHaveLength(2);
+    expect(parts[0].functionResponse.response.result).toBe("PDF read");
+    expect(parts[1].inlineData.mimeType).toBe("application/pdf");
+  });
+
+  test("locates cache_control breakpoints in the converted contents", () => {
+    const converter = createConverter();
+    const request: AnthropicMessagesRequest = {
+      model: "claude-sonnet-4-6",
+      max_tokens: 1024,
+      system: [{ type: "text", text: "You are helpful", cache_control: { type: "ephemeral", ttl: "1h" } }],
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Run it" },
+            { type: "tool_result", tool_use_id: "toolu_1", content: "ok" },
+          ],
+        },
+        { role: "assistant", content: "Done" },
+        {
+          role: "user",
+          content: [{ type: "text", text: "Thanks", cache_control: { type: "ephemeral" } }],
+        },
+      ],
+    };
+
+    converter.buildToolNameMap(request.messages);
+    const gemini = converter.convert(request, GEMINI_3_CAPS);
+
+    // The first message becomes two contents (text + functionResponse)
+    expect(gemini.contents).toHaveLength(4);
+    expect(converter.cacheBreakpoints(request)).toEqual([
+      { contentCount: 0, ttl: "1h" },
+      { contentCount: 4, ttl: "5m" },
+    ]);
+  });
 });
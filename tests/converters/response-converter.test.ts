@@ -5,7 +5,8 @@
 import { describe, test, expect } from "bun:test";
 import { ResponseConverter } from "../../src/converters/response-converter";
 import { ThoughtSignatureService } from "../../src/services/thought-signature";
-import type { GeminiGenerateContentResponse } from "../../src/models/gemini";
+import { WebToolPolicy } from "../../src/services/web-tool-policy";
+import type { GeminiFinishReason, GeminiGenerateContentResponse } from "../../src/models/gemini";
 
 // ---------------------------------------------------------------------------
 // Helper
@@ -169,6 +170,90 @@ describe("ResponseConverter", () => {
     expect(result.stop_reason).toBe("tool_use");
   });
 
+  test("maps finish reasons and explains blocked responses", () => {
+    const converter = createConverter();
+    const finish = (finishReason: GeminiFinishReason, text = "partial") =>
+      converter.convert({
+        candidates: [{ content: { role: "model", parts: [{ text }] }, finishReason }],
+      });
+
+    expect(finish("MAX_TOKENS").stop_reason).toBe("max_tokens");
+    expect(finish("MAX_TOKENS").content).toHaveLength(1);
+
+    const blocked = finish("SAFETY");
+    expect(blocked.stop_reason).toBe("refusal");
+    expect(blocked.content.map((b) => (b as { text: string }).text)).toEqual([
+      "partial",
+      "[Response stopped (SAFETY): the response was flagged by Gemini's safety filters.]",
+    ]);
+
+    const malformed = converter.convert({
+      candidates: [{ content: { role: "model", parts: [] }, finishReason: "MALFORMED_FUNCTION_CALL" }],
+    });
+    expect(malformed.stop_reason).toBe("end_turn");
+    expect((malformed.content[0] as { text: string }).text).toContain("invalid tool call");
+  });
+
+  test("truncates at stop sequences, including those past Gemini's limit of five", () => {
+    const converter = new ResponseConverter(
+      new ThoughtSignatureService(),
+      "test-model",
+      undefined,
+      [],
+      null,
+      ["a1", "a2", "a3", "a4", "a5", "</done>"]
+    );
+    const result = converter.convert({
+      candidates: [
+        {
+          content: {
+            role: "model",
+            parts: [
+              { text: "Result: 42</done> and more" },
+              { functionCall: { name: "Read", args: {} } },
+            ],
+          },
+          finishReason: "STOP",
+        },
+      ],
+    });
+
+    expect(result.content).toEqual([{ type: "text", text: "Result: 42" }]);
+    expect(result.stop_reason).toBe("stop_sequence");
+    expect(result.stop_sequence).toBe("</done>");
+  });
+
+  test("matches stop sequences across text parts before citations split them", () => {
+    const converter = new ResponseConverter(
+      new ThoughtSignatureService(),
+      "test-model",
+      undefined,
+      [],
+      null,
+      ["END"]
+    );
+    const result = converter.convert({
+      candidates: [
+        {
+          content: { role: "model", parts: [{ text: "Paris is big. E" }, { text: "ND more" }] },
+          groundingMetadata: {
+            groundingChunks: [{ web: { uri: "https://example.com", title: "Example" } }],
+            groundingSupports: [
+              { segment: { startIndex: 0, endIndex: 13, text: "Paris is big." }, groundingChunkIndices: [0] },
+            ],
+          },
+          finishReason: "STOP",
+        },
+      ],
+    });
+
+    const texts = result.content.filter((b) => b.type === "text");
+    expect(texts.map((b) => b.text)).toEqual(["Paris is big.", " "]);
+    expect(texts[0].citations).toHaveLength(1);
+    expect(result.stop_reason).toBe("stop_sequence");
+    expect(result.stop_sequence).toBe("END");
+  });
+
   test("converts usage metadata", () => {
     const converter = createConverter();
     const result = converter.convert({
@@ -191,6 +276,26 @@ describe("ResponseConverter", () => {
     expect(result.usage.output_tokens).toBe(70);
   });
 
+  test("reports implicitly cached prompt tokens as cache reads", () => {
+    const converter = createConverter();
+    const result = converter.convert({
+      candidates: [{ content: { role: "model", parts: [{ text: "ok" }] }, finishReason: "STOP" }],
+      usageMetadata: {
+        promptTokenCount: 5000,
+        cachedContentTokenCount: 4096,
+        candidatesTokenCount: 10,
+        totalTokenCount: 5010,
+      },
+    });
+
+    expect(result.usage).toEqual({
+      input_tokens: 904,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 4096,
+      output_tokens: 10,
+    });
+  });
+
   test("handles empty candidates", () => {
     const converter = createConverter();
     const result = converter.convert({
@@ -210,6 +315,23 @@ describe("ResponseConverter", () => {
     expect(result.stop_reason).toBe("end_turn");
   });
 
+  test("refuses a blocked prompt, naming the reason and keeping usage", () => {
+    const converter = createConverter();
+    const result = converter.convert({
+      promptFeedback: { blockReason: "PROHIBITED_CONTENT" },
+      usageMetadata: { promptTokenCount: 120, totalTokenCount: 120 },
+    });
+
+    expect(result.content).toEqual([
+      {
+        type: "text",
+        text: "[Prompt blocked (PROHIBITED_CONTENT): the prompt may contain prohibited content.]",
+      },
+    ]);
+    expect(result.stop_reason).toBe("refusal");
+    expect(result.usage).toEqual({ input_tokens: 120, output_tokens: 0 });
+  });
+
   test("skips empty text parts that are signature carriers", () => {
     const converter = createConverter();
     const result = converter.convert({
@@ -287,4 +409,159 @@ describe("ResponseConverter", () => {
     expect(r2.id).toMatch(/^msg_/);
     expect(r1.id).not.toBe(r2.id);
   });
+
+  test("converts grounding metadata into web search blocks", () => {
+    const converter = createConverter();
+    const result = converter.convert({
+      candidates: [
+        {
+          content: { role: "model", parts: [{ text: "Bun 1.3 is out." }] },
+          finishReason: "STOP",
+          groundingMetadata: {
+            webSearchQueries: ["bun latest release"],
+            groundingChunks: [
+              { web: { uri: "https://bun.sh/blog", title: "bun.sh" } },
+              { web: { uri: "https://bun.sh/blog", title: "bun.sh" } },
+              { web: { uri: "https://github.com/oven-sh/bun", title: "github.com" } },
+            ],
+          },
+        },
+      ],
+    });
+
+    expect(result.content.map((b) => b.type)).toEqual([
+      "server_tool_use",
+      "web_search_tool_result",
+      "text",
+    ]);
+
+    const toolUse = result.content[0] as any;
+    const toolResult = result.content[1] as any;
+    expect(toolUse.id).toMatch(/^srvtoolu_/);
+    expect(toolUse.input).toEqual({ query: "bun latest release" });
+    expect(toolResult.tool_use_id).toBe(toolUse.id);
+    expect(toolResult.content.map((r: any) => r.url)).toEqual([
+      "https://bun.sh/blog",
+      "https://github.com/oven-sh/bun",
+    ]);
+    expect(result.usage.server_tool_use).toEqual({ web_search_requests: 1 });
+    expect(result.stop_reason).toBe("end_turn");
+  });
+
+  test("applies web tool domain filters and max_uses", () => {
+    const policy = WebToolPolicy.fromServerTools([
+      { type: "web_search_20250305", name: "web_search", max_uses: 1, blocked_domains: ["spam.test"] },
+      { type: "web_fetch_20250910", name: "web_fetch", allowed_domains: ["bun.sh"] },
+    ]);
+    const converter = new ResponseConverter(new ThoughtSignatureService(), "test-model", policy);
+
+    const result = converter.convert({
+      candidates: [
+        {
+          content: { role: "model", parts: [{ text: "Done." }] },
+          finishReason: "STOP",
+          groundingMetadata: {
+            webSearchQueries: ["first", "second"],
+            groundingChunks: [
+              { web: { uri: "https://redirect.test/1", title: "bun.sh" } },
+              { web: { uri: "https://redirect.test/2", title: "spam.test" } },
+            ],
+          },
+          urlContextMetadata: {
+            urlMetadata: [
+              { retrievedUrl: "https://bun.sh/docs", urlRetrievalStatus: "URL_RETRIEVAL_STATUS_SUCCESS" },
+              { retrievedUrl: "https://evil.test/", urlRetrievalStatus: "URL_RETRIEVAL_STATUS_SUCCESS" },
+            ],
+          },
+        },
+      ],
+    });
+
+    const blocks = result.content as any[];
+    expect(blocks[1].content.map((r: any) => r.title)).toEqual(["bun.sh"]);
+    expect(blocks[3].content).toEqual({
+      type: "web_search_tool_result_error",
+      error_code: "max_uses_exceeded",
+    });
+    expect(blocks[5].content.type).toBe("web_fetch_result");
+    expect(blocks[7].content).toEqual({
+      type: "web_fetch_tool_result_error",
+      error_code: "url_not_allowed",
+    });
+    expect(result.usage.server_tool_use).toEqual({
+      web_search_requests: 1,
+      web_fetch_requests: 1,
+    });
+  });
+
+  test("splits text at grounding supports and attaches citations", () => {
+    const converter = createConverter();
+    // "Café" is 5 bytes in UTF-8: byte offsets differ from string offsets
+    const text = "Café news. Bun 1.3 shipped. Done.";
+    const result = converter.convert({
+      candidates: [
+        {
+          content: { role: "model", parts: [{ text }] },
+          finishReason: "STOP",
+          groundingMetadata: {
+            webSearchQueries: ["bun release"],
+            groundingChunks: [{ web: { uri: "https://redirect.test/1", title: "bun.sh" } }],
+            groundingSupports: [
+              {
+                segment: { startIndex: 12, endIndex: 28, text: "Bun 1.3 shipped." },
+                groundingChunkIndices: [0],
+              },
+            ],
+          },
+        },
+      ],
+    });
+
+    const textBlocks = result.content.filter((b) => b.type === "text") as any[];
+    expect(textBlocks.map((b) => b.text)).toEqual([
+      "Café news. ",
+      "Bun 1.3 shipped.",
+      " Done.",
+    ]);
+    expect(textBlocks[0].citations).toBeUndefined();
+    expect(textBlocks[1].citations).toEqual([
+      {
+        type: "web_search_result_location",
+        url: "https://redirect.test/1",
+        title: "bun.sh",
+        encrypted_index: expect.any(String),
+        cited_text: "Bun 1.3 shipped.",
+      },
+    ]);
+  });
+
+  test("places locally fetched web_fetch blocks first", () => {
+    const policy = WebToolPolicy.unrestricted();
+    policy.tryUse("web_fetch");
+    const prefetched = [
+      { type: "server_tool_use", id: "srvtoolu_1", name: "web_fetch", input: { url: "https://bun.sh" } },
+      {
+        type: "web_fetch_tool_result",
+        tool_use_id: "srvtoolu_1",
+        content: { type: "web_fetch_tool_result_error", error_code: "url_not_accessible" },
+      },
+    ] as const;
+    const converter = new ResponseConverter(
+      new ThoughtSignatureService(),
+      "test-model",
+      policy,
+      [...prefetched]
+    );
+
+    const result = converter.convert({
+      candidates: [{ content: { role: "model", parts: [{ text: "Summary." }] }, finishReason: "STOP" }],
+    });
+
+    expect(result.content.map((b) => b.type)).toEqual([
+      "server_tool_use",
+      "web_fetch_tool_result",
+      "text",
+    ]);
+    expect(result.usage.server_tool_use).toEqual({ web_search_requests: 0, web_fetch_requests: 1 });
+  });
 });
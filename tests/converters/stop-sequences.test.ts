@@ -0,0 +1,35 @@
+/**
+ * Tests for proxy-side stop sequences.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { StopSequenceMatcher, findStopSequence } from "../../src/converters/stop-sequences";
+
+describe("stop sequences", () => {
+  test("finds the earliest match", () => {
+    expect(findStopSequence("one END two STOP", ["STOP", "END"])).toEqual({
+      index: 4,
+      sequence: "END",
+    });
+    expect(findStopSequence("nothing here", ["STOP"])).toBeNull();
+  });
+
+  test("holds back text that may start a stop sequence", () => {
+    const matcher = new StopSequenceMatcher(["</answer>", "\n\nHuman:"]);
+
+    expect(matcher.push("The answer is 42<")).toEqual({ text: "The answer is 42", matched: null });
+    expect(matcher.push("b>, I think\n")).toEqual({ text: "<b>, I think", matched: null });
+    expect(matcher.push("\nHum")).toEqual({ text: "", matched: null });
+    expect(matcher.push("an: next")).toEqual({ text: "", matched: "\n\nHuman:" });
+    expect(matcher.hasStopped).toBe(true);
+    expect(matcher.push("more")).toEqual({ text: "", matched: null });
+  });
+
+  test("releases held-back text when the run ends", () => {
+    const matcher = new StopSequenceMatcher(["STOP"]);
+
+    expect(matcher.push("go ST").text).toBe("go ");
+    expect(matcher.flush()).toBe("ST");
+    expect(matcher.push("OP").matched).toBeNull();
+  });
+});
@@ -0,0 +1,391 @@
+/**
+ * Tests for the Gemini → Anthropic streaming converter.
+ */
+
+import { describe, test, expect, beforeAll } from "bun:test";
+import { StreamConverter } from "../../src/converters/stream-converter";
+import { PartialArgsWriter } from "../../src/converters/partial-args";
+import { ThoughtSignatureService } from "../../src/services/thought-signature";
+import type { GeminiGenerateContentResponse, GeminiPart } from "../../src/models/gemini";
+import { Logger, LogLevel } from "../../src/utils/logger";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function sseResponse(chunks: GeminiGenerateContentResponse[]): Response {
+  return new Response(chunks.map((c) => `data: ${JSON.stringify(c)}\r\n\r\n`).join(""));
+}
+
+/** Collects the Anthropic SSE events of a converted stream. */
+async function readEvents(
+  stream: ReadableStream<Uint8Array>
+): Promise<Array<{ event: string; data: any }>> {
+  const text = await new Response(stream).text();
+  return text
+    .split("\n\n")
+    .filter(Boolean)
+    .map((block) => {
+      const [eventLine, dataLine] = block.split("\n");
+      return {
+        event: eventLine.replace(/^event: /, ""),
+        data: JSON.parse(dataLine.replace(/^data: /, "")),
+      };
+    });
+}
+
+/** A chunk carrying a single model part. */
+function partChunk(part: Record<string, unknown>): GeminiGenerateContentResponse {
+  return { candidates: [{ content: { role: "model", parts: [part as unknown as GeminiPart] } }] };
+}
+
+/**
+ * A response whose body sends each chunk after the given delay (in
+ * milliseconds) and then ends, or stays open when `end` is false.
+ */
+function delayedResponse(
+  steps: Array<[number, GeminiGenerateContentResponse]>,
+  end = true
+): Response {
+  const encoder = new TextEncoder();
+  let next = 0;
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (next === steps.length) {
+          if (end) controller.close();
+          else await new Promise(() => {});
+          return;
+        }
+        const [delay, chunk] = steps[next++];
+        await Bun.sleep(delay);
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\r\n\r\n`));
+      },
+    })
+  );
+}
+
+function convert(chunks: GeminiGenerateContentResponse[], inputTokens = 0) {
+  const converter = new StreamConverter("test-model", new ThoughtSignatureService(), inputTokens);
+  return readEvents(converter.convertStream(sseResponse(chunks)));
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("StreamConverter", () => {
+  beforeAll(() => {
+    Logger.getInstance().setLevel(LogLevel.SILENT);
+  });
+
+  test("reports implicitly cached prompt tokens in the final usage", async () => {
+    const events = await convert(
+      [
+        { candidates: [{ content: { role: "model", parts: [{ text: "Hel" }] } }] },
+        {
+          candidates: [{ content: { role: "model", parts: [{ text: "lo" }] }, finishReason: "STOP" }],
+          usageMetadata: {
+            promptTokenCount: 5000,
+            cachedContentTokenCount: 4096,
+            candidatesTokenCount: 2,
+            totalTokenCount: 5002,
+          },
+        },
+      ],
+      4990
+    );
+
+    const start = events.find((e) => e.event === "message_start")!;
+    expect(start.data.message.usage).toEqual({ input_tokens: 4990, output_tokens: 0 });
+
+    const delta = events.find((e) => e.event === "message_delta")!;
+    expect(delta.data.usage).toEqual({
+      input_tokens: 904,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 4096,
+      output_tokens: 2,
+    });
+  });
+
+  test("streams function-call arguments received in parts", async () => {
+    const events = await convert([
+      partChunk({ functionCall: { name: "Write", willContinue: true } }),
+      partChunk({
+        functionCall: {
+          partialArgs: [
+            { jsonPath: "$.file_path", stringValue: "/tmp/a.txt" },
+            { jsonPath: "$.content", stringValue: "line \"one\"\n", willContinue: true },
+          ],
+          willContinue: true,
+        },
+      }),
+      partChunk({
+        functionCall: {
+          partialArgs: [{ jsonPath: "$.content", stringValue: "line two" }],
+          willContinue: true,
+        },
+      }),
+      partChunk({ functionCall: {} }),
+    ]);
+
+    const blockEvents = events.filter((e) => e.event.startsWith("content_block"));
+    expect(blockEvents.map((e) => e.event)).toEqual([
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+    ]);
+    expect(blockEvents[0].data.content_block.name).toBe("Write");
+
+    const json = blockEvents
+      .filter((e) => e.event === "content_block_delta")
+      .map((e) => e.data.delta.partial_json)
+      .join("");
+    expect(JSON.parse(json)).toEqual({ file_path: "/tmp/a.txt", content: 'line "one"\nline two' });
+
+    const delta = events.find((e) => e.event === "message_delta")!;
+    expect(delta.data.delta.stop_reason).toBe("tool_use");
+  });
+
+  test("keeps braces inside strings and reports malformed chunks", async () => {
+    const text = 'function f() { return "}"; }';
+    const body =
+      `data: ${JSON.stringify(partChunk({ text }))}\r\n\r\n` + "data: {not json}\r\n\r\n";
+    const converter = new StreamConverter("test-model", new ThoughtSignatureService());
+    const events = await readEvents(converter.convertStream(new Response(body)));
+
+    const deltas = events.filter((e) => e.event === "content_block_delta");
+    expect(deltas.map((e) => e.data.delta.text)).toEqual([text]);
+
+    const error = events[events.length - 1];
+    expect(error.event).toBe("error");
+    expect(error.data.error.message).toMatch(/Malformed Gemini stream chunk/);
+  });
+
+  test("reports the finish reason of the last chunk", async () => {
+    const truncated = await convert([
+      partChunk({ text: "Hel" }),
+      { candidates: [{ content: { role: "model", parts: [{ text: "lo" }] }, finishReason: "MAX_TOKENS" }] },
+    ]);
+    expect(truncated.find((e) => e.event === "message_delta")!.data.delta.stop_reason).toBe(
+      "max_tokens"
+    );
+
+    const blocked = await convert([
+      partChunk({ text: "Sure, " }),
+      { candidates: [{ content: { role: "model", parts: [] }, finishReason: "PROHIBITED_CONTENT" }] },
+    ]);
+    const texts = blocked
+      .filter((e) => e.event === "content_block_delta")
+      .map((e) => e.data.delta.text);
+    expect(texts).toEqual([
+      "Sure, ",
+      "[Response stopped (PROHIBITED_CONTENT): the response may contain prohibited content.]",
+    ]);
+    expect(blocked.filter((e) => e.event === "content_block_stop")).toHaveLength(2);
+    expect(blocked.find((e) => e.event === "message_delta")!.data.delta.stop_reason).toBe(
+      "refusal"
+    );
+  });
+
+  test("refuses a blocked prompt, naming the reason and keeping usage", async () => {
+    const events = await convert([
+      {
+        promptFeedback: { blockReason: "SAFETY" },
+        usageMetadata: { promptTokenCount: 80, totalTokenCount: 80 },
+      },
+    ]);
+
+    const texts = events
+      .filter((e) => e.event === "content_block_delta")
+      .map((e) => e.data.delta.text);
+    expect(texts).toEqual([
+      "[Prompt blocked (SAFETY): the prompt was flagged by Gemini's safety filters.]",
+    ]);
+    const delta = events.find((e) => e.event === "message_delta")!;
+    expect(delta.data.delta.stop_reason).toBe("refusal");
+    expect(delta.data.usage).toEqual({ input_tokens: 80, output_tokens: 0 });
+  });
+
+  test("stops at stop sequences without leaking text", async () => {
+    const converter = new StreamConverter(
+      "test-model",
+      new ThoughtSignatureService(),
+      0,
+      undefined,
+      [],
+      null,
+      ["a1", "a2", "a3", "a4", "a5", "</done>"]
+    );
+    const events = await readEvents(
+      converter.convertStream(
+        sseResponse([
+          partChunk({ text: "Result: 4" }),
+          partChunk({ text: "2</do" }),
+          partChunk({ text: "ne> and more" }),
+          partChunk({ text: "never sent" }),
+        ])
+      )
+    );
+
+    const texts = events
+      .filter((e) => e.event === "content_block_delta")
+      .map((e) => e.data.delta.text);
+    expect(texts).toEqual(["Result: 4", "2"]);
+
+    const delta = events.find((e) => e.event === "message_delta")!;
+    expect(delta.data.delta).toEqual({ stop_reason: "stop_sequence", stop_sequence: "</done>" });
+    expect(events[events.length - 1].event).toBe("message_stop");
+  });
+
+  test("emits complete function calls as a single delta", async () => {
+    const events = await convert([
+      partChunk({ functionCall: { name: "Read", args: { file_path: "/tmp/a.txt" } } }),
+    ]);
+
+    const deltas = events.filter((e) => e.event === "content_block_delta");
+    expect(deltas.map((e) => e.data.delta.partial_json)).toEqual(['{"file_path":"/tmp/a.txt"}']);
+  });
+});
+
+describe("StreamConverter keepalive", () => {
+  beforeAll(() => {
+    Logger.getInstance().setLevel(LogLevel.SILENT);
+  });
+
+  function converter(pingIntervalMs: number, stallTimeoutMs: number) {
+    return new StreamConverter(
+      "test-model",
+      new ThoughtSignatureService(),
+      0,
+      undefined,
+      [],
+      null,
+      [],
+      { pingIntervalMs, stallTimeoutMs }
+    );
+  }
+
+  test("pings while Gemini is quiet, starting the message first", async () => {
+    const events = await readEvents(
+      converter(20, 0).convertStream(delayedResponse([[130, partChunk({ text: "Done" })]]))
+    );
+
+    expect(events[0].event).toBe("message_start");
+    const firstText = events.findIndex((e) => e.event === "content_block_start");
+    const pings = events.slice(0, firstText).filter((e) => e.event === "ping");
+    expect(pings.length).toBeGreaterThanOrEqual(3);
+    expect(events.filter((e) => e.event === "message_start")).toHaveLength(1);
+    expect(events.at(-1)!.event).toBe("message_stop");
+  });
+
+  test("aborts a stalled stream with an overloaded_error event", async () => {
+    const events = await readEvents(
+      converter(20, 100).convertStream(delayedResponse([[0, partChunk({ text: "Thinking" })]], false))
+    );
+
+    const text = events.find((e) => e.event === "content_block_delta")!;
+    expect(text.data.delta.text).toBe("Thinking");
+    expect(events.some((e) => e.event === "ping")).toBe(true);
+    expect(events.at(-1)).toEqual({
+      event: "error",
+      data: {
+        type: "error",
+        error: {
+          type: "overloaded_error",
+          message: "Gemini sent no data for 0.1s; the stream was aborted.",
+        },
+      },
+    });
+  });
+});
+
+describe("StreamConverter cancellation", () => {
+  beforeAll(() => {
+    Logger.getInstance().setLevel(LogLevel.SILENT);
+  });
+
+  /** An upstream body that sends one chunk, then waits until cancelled. */
+  function openResponse() {
+    let cancelled = false;
+    let sent = false;
+    const response = new Response(
+      new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          if (sent) return new Promise<void>(() => {});
+          sent = true;
+          controller.enqueue(
+            new TextEncoder().encode(`data: ${JSON.stringify(partChunk({ text: "Hi" }))}\r\n\r\n`)
+          );
+        },
+        cancel() {
+          cancelled = true;
+        },
+      })
+    );
+    return { response, cancelled: () => cancelled };
+  }
+
+  test("cancels the upstream read when the client goes away", async () => {
+    const upstream = openResponse();
+    const stream = new StreamConverter("test-model", new ThoughtSignatureService()).convertStream(
+      upstream.response
+    );
+
+    const reader = stream.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    expect(upstream.cancelled()).toBe(true);
+  });
+
+  test("cancels the upstream read when the request signal aborts", async () => {
+    const upstream = openResponse();
+    const abort = new AbortController();
+    const stream = new StreamConverter("test-model", new ThoughtSignatureService()).convertStream(
+      upstream.response,
+      abort.signal
+    );
+
+    await stream.getReader().read();
+    abort.abort();
+
+    expect(upstream.cancelled()).toBe(true);
+  });
+});
+
+describe("PartialArgsWriter", () => {
+  test("builds nested objects and arrays from JSON paths", () => {
+    const writer = new PartialArgsWriter();
+    const json = [
+      writer.write({ jsonPath: "$.file_path", stringValue: "a.ts" }),
+      writer.write({ jsonPath: "$.edits[0].old_string", stringValue: "x" }),
+      writer.write({ jsonPath: "$.edits[0].replace_all", boolValue: true }),
+      writer.write({ jsonPath: "$.edits[1].old_string", stringValue: "y", willContinue: true }),
+      writer.write({ jsonPath: "$.edits[1].old_string", stringValue: "z" }),
+      writer.write({ jsonPath: "$['max lines']", numberValue: 3 }),
+      writer.write({ jsonPath: "$.note", nullValue: null }),
+      writer.finish(),
+    ].join("");
+
+    expect(JSON.parse(json)).toEqual({
+      file_path: "a.ts",
+      edits: [{ old_string: "x", replace_all: true }, { old_string: "yz" }],
+      "max lines": 3,
+      note: null,
+    });
+  });
+
+  test("closes strings cut short and completes empty arguments", () => {
+    const writer = new PartialArgsWriter();
+    const json =
+      writer.write({ jsonPath: "$.content", stringValue: "partial", willContinue: true }) +
+      writer.finish();
+
+    expect(JSON.parse(json)).toEqual({ content: "partial" });
+    expect(new PartialArgsWriter().finish()).toBe("{}");
+  });
+});
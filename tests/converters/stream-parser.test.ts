@@ -0,0 +1,106 @@
+/**
+ * Tests for the incremental Gemini stream parsers.
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  GeminiJsonArrayStreamParser,
+  SseParser,
+  createStreamParser,
+  type SseEvent,
+} from "../../src/converters/stream-parser";
+import type { GeminiGenerateContentResponse } from "../../src/models/gemini";
+import { UpstreamError } from "../../src/utils/errors";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** A chunk whose text is full of JSON syntax. */
+const TRICKY: GeminiGenerateContentResponse = {
+  candidates: [
+    {
+      content: {
+        role: "model",
+        parts: [{ text: 'if (a) { return "}]\\"[{"; }\n:data: x\r\n' }],
+      },
+    },
+  ],
+};
+
+/** Feeds text in pieces of the given size. */
+function feed(parser: { push(text: string): void }, text: string, size: number): void {
+  for (let i = 0; i < text.length; i += size) {
+    parser.push(text.substring(i, i + size));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("SseParser", () => {
+  test("handles every line ending, comments and multi-line data", () => {
+    const stream =
+      "\uFEFF: keep-alive\r\nevent: update\r\nid: 7\r\ndata: one\r\ndata:two\r\n\r\n" +
+      "data: three\r\r" +
+      "retry: 100\ndata\n\n";
+
+    for (const size of [1, 2, 5, stream.length]) {
+      const events: SseEvent[] = [];
+      const parser = new SseParser((e) => events.push(e));
+      feed(parser, stream, size);
+
+      expect(parser.end()).toBe(false);
+      expect(events).toEqual([
+        { event: "update", data: "one\ntwo", id: "7" },
+        { event: "message", data: "three", id: "7" },
+        { event: "message", data: "", id: "7" },
+      ]);
+    }
+  });
+
+  test("does not dispatch an event cut off by the end of the stream", () => {
+    const events: SseEvent[] = [];
+    const parser = new SseParser((e) => events.push(e));
+    parser.push("data: complete\n\ndata: partial");
+
+    expect(parser.end()).toBe(true);
+    expect(events.map((e) => e.data)).toEqual(["complete"]);
+  });
+});
+
+describe("Gemini stream parsers", () => {
+  test("parse SSE and JSON array streams split anywhere", () => {
+    const sse = `data: ${JSON.stringify(TRICKY)}\r\n\r\ndata: ${JSON.stringify(TRICKY)}\r\n\r\n`;
+    const array = `[${JSON.stringify(TRICKY, null, 2)}\r\n,\r\n${JSON.stringify(TRICKY)}]`;
+
+    for (const body of [sse, array]) {
+      for (const size of [1, 3, 64, body.length]) {
+        const chunks: GeminiGenerateContentResponse[] = [];
+        const parser = createStreamParser((c) => chunks.push(c));
+        feed(parser, body, size);
+        parser.end();
+
+        expect(chunks).toEqual([TRICKY, TRICKY]);
+      }
+    }
+  });
+
+  test("report malformed chunks and truncated streams", () => {
+    const ignore = () => {};
+
+    expect(() => createStreamParser(ignore).push('data: {"candidates": [}\n\n')).toThrow(
+      /Malformed Gemini stream chunk/
+    );
+    expect(() => new GeminiJsonArrayStreamParser(ignore).push("[{}, x")).toThrow(UpstreamError);
+
+    const truncated = new GeminiJsonArrayStreamParser(ignore);
+    truncated.push('[{"candidates": [');
+    expect(() => truncated.end()).toThrow(/ended before the end of the array/);
+
+    const sse = createStreamParser(ignore);
+    sse.push('data: {"candidates": []}');
+    expect(() => sse.end()).toThrow(/ended in the middle of an event/);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for the model configuration service.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { ModelConfigService } from "../../src/models/config";
+
+describe("ModelConfigService", () => {
+  test("resolves registry aliases", () => {
+    const config = new ModelConfigService();
+
+    expect(config.resolve("gemini-3.1-pro").geminiModel).toBe("gemini-3.1-pro-preview");
+    expect(config.resolve("gemini-3.0-flash").geminiModel).toBe("gemini-3-flash-preview");
+  });
+
+  test("maps unknown claude-* names to the default Gemini model", () => {
+    const config = new ModelConfigService();
+
+    expect(config.resolve("claude-future-9").geminiModel).toBe("gemini-3-flash-preview");
+  });
+
+  test("describe() reports stable display metadata", () => {
+    const config = new ModelConfigService();
+
+    const first = config.describe("gemini-3.1-pro");
+    const second = config.describe("gemini-3.1-pro");
+
+    expect(first.displayName).toBe("Gemini 3.1 Pro (Preview)");
+    expect(first.createdAt).toBe(second.createdAt);
+    expect(first.capabilities.maxOutputTokens).toBe(65_536);
+  });
+
+  test("describe() resolves Claude aliases to their Gemini target", () => {
+    const config = new ModelConfigService();
+
+    const info = config.describe("claude-sonnet-4-6");
+
+    expect(info.id).toBe("claude-sonnet-4-6");
+    expect(info.capabilities.geminiModel).toBe("gemini-3-flash-preview");
+    expect(info.displayName).toBe("Gemini 3 Flash (Preview)");
+  });
+
+  test("describe() falls back to the model id for unknown models", () => {
+    const config = new ModelConfigService();
+
+    const info = config.describe("gemini-experimental-x");
+
+    expect(info.displayName).toBe("gemini-experimental-x");
+    expect(info.createdAt).toBe("1970-01-01T00:00:00Z");
+  });
+
+  test("isKnown() accepts aliases, routes, Claude names and registry entries only", () => {
+    const config = new ModelConfigService(
+      { "team-model": "gemini-3.1-pro" },
+      { routes: [{ match: "fast-*", model: "gemini-3-flash-preview" }] }
+    );
+
+    expect(config.isKnown("team-model")).toBe(true);
+    expect(config.isKnown("fast-lane")).toBe(true);
+    expect(config.isKnown("claude-sonnet-4-6")).toBe(true);
+    expect(config.isKnown("gemini-3.1-pro")).toBe(true);
+    expect(config.isKnown("gemini-experimental-x")).toBe(false);
+  });
+
+  test("resolveChain() returns the primary model followed by its fallbacks", () => {
+    const config = new ModelConfigService();
+
+    expect(config.resolveChain("gemini-3.1-pro").map((c) => c.geminiModel)).toEqual([
+      "gemini-3.1-pro-preview",
+      "gemini-3-flash-preview",
+      "gemini-flash-latest",
+    ]);
+    expect(config.resolveChain("claude-future-9").map((c) => c.geminiModel)).toEqual([
+      "gemini-3-flash-preview",
+      "gemini-flash-latest",
+    ]);
+    expect(config.resolveChain("gemini-2.0-flash")).toHaveLength(1);
+  });
+
+  test("applies the configured default model, registry entries and thinking level", () => {
+    const config = new ModelConfigService(
+      { "claude-haiku-4-5-20251001": "gemini-flash-latest" },
+      {
+        defaultModel: "gemini-3.1-pro",
+        defaultThinkingLevel: "LOW",
+        models: {
+          "team-model": {
+            geminiModel: "gemini-3-pro-custom",
+            maxOutputTokens: 32_768,
+            displayName: "Team Model",
+          },
+        },
+      }
+    );
+
+    expect(config.resolve("claude-opus-4-6").geminiModel).toBe("gemini-3.1-pro-preview");
+    expect(config.resolve("claude-haiku-4-5-20251001").geminiModel).toBe("gemini-flash-latest");
+    expect(config.resolve("gemini-3.0-flash").defaultThinkingLevel).toBe("LOW");
+    expect(config.resolve("team-model")).toEqual({
+      geminiModel: "gemini-3-pro-custom",
+      supportsThinking: true,
+      isGemini3: true,
+      defaultThinkingLevel: "LOW",
+      maxOutputTokens: 32_768,
+    });
+    expect(config.describe("team-model").displayName).toBe("Team Model");
+    expect(config.listModels()).toContain("team-model");
+  });
+
+  test("routes Claude families by ordered glob and regex rules", () => {
+    const config = new ModelConfigService(
+      { "claude-opus-4-1": "gemini-2.5-pro" },
+      {
+        defaultModel: "gemini-3.0-flash",
+        routes: [
+          { match: "claude-opus-*", model: "gemini-3.1-pro", thinkingLevel: "HIGH" },
+          { match: "/^claude-(3-5-)?haiku/", model: "gemini-3-flash-preview", thinkingLevel: "MINIMAL" },
+          { match: "claude-*", model: "gemini-flash-latest" },
+        ],
+      }
+    );
+
+    expect(config.resolve("claude-opus-5-20270101").geminiModel).toBe("gemini-3.1-pro-preview");
+    expect(config.resolve("claude-haiku-4-5-20251001").defaultThinkingLevel).toBe("MINIMAL");
+    expect(config.resolve("claude-3-5-haiku-latest").defaultThinkingLevel).toBe("MINIMAL");
+    expect(config.resolve("claude-sonnet-4-6").geminiModel).toBe("gemini-flash-latest");
+    // Exact aliases win over rules; rules don't affect other models
+    expect(config.resolve("claude-opus-4-1").geminiModel).toBe("gemini-2.5-pro-preview-06-05");
+    expect(config.resolve("gemini-3.0-flash").defaultThinkingLevel).toBe("HIGH");
+  });
+
+  test("compiles glob patterns as whole-name matches", () => {
+    const pattern = ModelConfigService.compilePattern("claude-?-5.*");
+
+    expect(pattern.test("claude-3-5.x")).toBe(true);
+    expect(pattern.test("claude-3-5-x")).toBe(false);
+    expect(pattern.test("xclaude-3-5.x")).toBe(false);
+  });
+
+  test("backendFor() uses a model's declared backend, else the default", () => {
+    const config = new ModelConfigService(undefined, {
+      defaultBackend: "vertex",
+      models: { "studio-flash": { geminiModel: "gemini-flash-latest", backend: "gemini" } },
+    });
+
+    expect(config.backendFor("gemini-flash-latest")).toBe("gemini");
+    expect(config.backendFor("gemini-3.1-pro-preview")).toBe("vertex");
+    expect(new ModelConfigService().backendFor("gemini-3.1-pro-preview")).toBe("gemini");
+  });
+
+  test("infers function-call argument streaming for Gemini 3 on Vertex AI", () => {
+    const config = new ModelConfigService(undefined, {
+      defaultBackend: "vertex",
+      models: {
+        "studio-pro": { geminiModel: "gemini-3-pro-studio", backend: "gemini" },
+        "quiet-pro": { geminiModel: "gemini-3-pro-quiet", streamsFunctionCallArguments: false },
+      },
+    });
+
+    expect(config.resolve("gemini-3.1-pro").streamsFunctionCallArguments).toBe(true);
+    expect(config.resolve("gemini-3-custom").streamsFunctionCallArguments).toBe(true);
+    expect(config.resolve("gemini-flash-latest").streamsFunctionCallArguments).toBeUndefined();
+    expect(config.resolve("studio-pro").streamsFunctionCallArguments).toBeUndefined();
+    expect(config.resolve("quiet-pro").streamsFunctionCallArguments).toBe(false);
+    expect(new ModelConfigService().resolve("gemini-3.1-pro").streamsFunctionCallArguments).toBeUndefined();
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for the Router's handling of Gemini calls.
+ */
+
+import { describe, test, expect, beforeAll } from "bun:test";
+import { Router, type RouterOptions } from "../../src/server/router";
+import { GeminiClient } from "../../src/services/gemini-client";
+import { ModelConfigService } from "../../src/models/config";
+import { Logger, LogLevel } from "../../src/utils/logger";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Answers every Gemini call with `respond`, recording the called URLs. */
+function createRouter(
+  respond: (init: RequestInit) => Promise<Response>,
+  options: RouterOptions = {}
+) {
+  const urls: string[] = [];
+  const fetchFn = (async (url: string, init: RequestInit) => {
+    urls.push(url);
+    return respond(init);
+  }) as unknown as typeof fetch;
+
+  const client = new GeminiClient("key", "https://gemini.test", {
+    maxRetries: 2,
+    fetch: fetchFn,
+    sleep: async () => {},
+  });
+  const router = new Router(client, new ModelConfigService(), options);
+  return { router, urls };
+}
+
+/** A Gemini call that never answers until it is aborted. */
+function silent(init: RequestInit): Promise<Response> {
+  return new Promise((_, reject) => {
+    init.signal?.addEventListener("abort", () => reject(new Error("aborted")), { once: true });
+  });
+}
+
+function messagesRequest(body: Record<string, unknown> = {}): Request {
+  return new Request("http://proxy.test/v1/messages", {
+    method: "POST",
+    body: JSON.stringify({
+      model: "gemini-3.1-pro-preview",
+      max_tokens: 100,
+      stream: true,
+      messages: [{ role: "user", content: "Hi" }],
+      ...body,
+    }),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("Router streaming", () => {
+  beforeAll(() => {
+    Logger.getInstance().setLevel(LogLevel.SILENT);
+  });
+
+  test("answers a stream that fails before its first chunk with an HTTP error", async () => {
+    const { router } = createRouter(async () =>
+      new Response(JSON.stringify({ error: { message: "bad request" } }), { status: 400 })
+    );
+
+    const response = await router.handle(messagesRequest());
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get("Content-Type")).toContain("application/json");
+    expect(response.headers.get("X-Gemini-Model")).toBe("gemini-3.1-pro-preview");
+    expect(response.headers.get("X-Gemini-Retries")).toBe("0");
+  });
+
+  test("bounds the wait for the first chunk by one deadline across retries and fallbacks", async () => {
+    const { router, urls } = createRouter(silent, { streaming: { stallTimeoutMs: 100 } });
+
+    const response = await router.handle(messagesRequest());
+    const body = (await response.json()) as { error: { type: string } };
+
+    expect(response.status).toBe(529);
+    expect(body.error.type).toBe("overloaded_error");
+    // Neither retried nor moved down the fallback chain
+    expect(urls).toHaveLength(1);
+    expect(urls[0]).toContain("gemini-3.1-pro-preview");
+  });
+
+  test("starts the SSE response with the served model once the first chunk arrives", async () => {
+    const chunk = `data: ${JSON.stringify({
+      candidates: [{ content: { role: "model", parts: [{ text: "Hello" }] }, finishReason: "STOP" }],
+    })}\n\n`;
+    const { router } = createRouter(async () =>
+      new Response(chunk, { headers: { "Content-Type": "text/event-stream" } })
+    );
+
+    const response = await router.handle(messagesRequest());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    expect(response.headers.get("X-Gemini-Model")).toBe("gemini-3.1-pro-preview");
+    expect(await response.text()).toContain("Hello");
+  });
+});
+
+describe("Router count_tokens", () => {
+  beforeAll(() => {
+    Logger.getInstance().setLevel(LogLevel.SILENT);
+  });
+
+  test("counts without downloading media or prefetching web pages", async () => {
+    const { router, urls } = createRouter(async () => Response.json({ totalTokens: 42 }), {
+      webFetchMode: "local",
+    });
+
+    const response = await router.handle(
+      new Request("http://proxy.test/v1/messages/count_tokens", {
+        method: "POST",
+        body: JSON.stringify({
+          model: "gemini-3-flash-preview",
+          tools: [{ type: "web_fetch_20250910", name: "web_fetch" }],
+          messages: [
+            {
+              role: "user",
+              content: [
+                { type: "image", source: { type: "url", url: "http://127.0.0.1:9/a.png" } },
+                { type: "text", text: "Describe it and read http://127.0.0.1:9/page" },
+              ],
+            },
+          ],
+        }),
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ input_tokens: 42 });
+    expect(urls).toHaveLength(1);
+    expect(urls[0]).toContain(":countTokens");
+  });
+});
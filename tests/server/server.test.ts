@@ -0,0 +1,172 @@
+/**
+ * Tests for the ProxyServer HTTP server.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ProxyServer } from "../../src/server/server";
+import { Logger, LogLevel } from "../../src/utils/logger";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function sseChunk(text: string, finishReason?: string): string {
+  const candidate = {
+    content: { role: "model", parts: [{ text }] },
+    ...(finishReason ? { finishReason } : {}),
+  };
+  return `data: ${JSON.stringify({ candidates: [candidate] })}\n\n`;
+}
+
+/**
+ * A fake Gemini API answering every call with "Hello", except calls with
+ * the key "revoked-key", recording the URLs.
+ */
+function serveGemini() {
+  const urls: string[] = [];
+  const server = Bun.serve({
+    port: 0,
+    hostname: "127.0.0.1",
+    fetch(request) {
+      urls.push(request.url);
+      if (request.url.includes("key=revoked-key")) {
+        return Response.json({ error: { message: "API key not valid" } }, { status: 403 });
+      }
+      return Response.json({
+        candidates: [{ content: { role: "model", parts: [{ text: "Hello" }] }, finishReason: "STOP" }],
+      });
+    },
+  });
+  return { server, urls };
+}
+
+function postMessage(port: number, model: string): Promise<Response> {
+  return fetch(`http://127.0.0.1:${port}/v1/messages`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model, max_tokens: 100, messages: [{ role: "user", content: "Hi" }] }),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("ProxyServer", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    Logger.getInstance().setLevel(LogLevel.SILENT);
+    dir = mkdtempSync(join(tmpdir(), "gcc-server-"));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test(
+    "keeps a stream open while Gemini sends nothing for more than 10 s",
+    async () => {
+      const encoder = new TextEncoder();
+      const gemini = Bun.serve({
+        port: 0,
+        hostname: "127.0.0.1",
+        fetch() {
+          const body = new ReadableStream<Uint8Array>({
+            async start(controller) {
+              await Bun.sleep(11_000);
+              controller.enqueue(encoder.encode(sseChunk("Hello")));
+              controller.enqueue(encoder.encode(sseChunk(" world", "STOP")));
+              controller.close();
+            },
+          });
+          return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+        },
+      });
+      const proxy = new ProxyServer({
+        port: 0,
+        host: "127.0.0.1",
+        apiKey: "key",
+        geminiBaseUrl: `http://127.0.0.1:${gemini.port}`,
+        batchDbPath: join(dir, "batches.db"),
+        streamPingIntervalMs: 0,
+      });
+
+      try {
+        const server = proxy.start();
+        const response = await fetch(`http://127.0.0.1:${server.port}/v1/messages`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            model: "gemini-3-flash-preview",
+            max_tokens: 100,
+            stream: true,
+            messages: [{ role: "user", content: "Hi" }],
+          }),
+        });
+        const text = await response.text();
+
+        expect(response.status).toBe(200);
+        expect(text).toContain("world");
+        expect(text).toContain("event: message_stop");
+      } finally {
+        proxy.stop();
+        gemini.stop(true);
+      }
+    },
+    20_000
+  );
+
+  test("keeps the previous configuration when a reload is rejected", async () => {
+    const gemini = serveGemini();
+    const options = {
+      port: 0,
+      host: "127.0.0.1",
+      apiKey: "revoked-key",
+      apiKeys: ["revoked-key", "valid-key"],
+      geminiBaseUrl: `http://127.0.0.1:${gemini.server.port}`,
+      batchDbPath: join(dir, "reload.db"),
+      modelOverrides: { "claude-test": "gemini-old" },
+    };
+    const proxy = new ProxyServer(options);
+    const keyStatuses = async (port: number) => {
+      const health = (await (await fetch(`http://127.0.0.1:${port}/health`)).json()) as {
+        keys: Array<{ status: string }>;
+      };
+      return health.keys.map((k) => k.status);
+    };
+
+    try {
+      const server = proxy.start();
+      const port = server.port!;
+      expect((await postMessage(port, "claude-test")).status).toBe(200);
+      expect(await keyStatuses(port)).toEqual(["disabled", "active"]);
+
+      expect(() =>
+        proxy.reload({
+          ...options,
+          apiKeys: ["other-key"],
+          modelOverrides: { "claude-test": "gemini-new" },
+          models: { routes: [{ match: "/(/", model: "gemini-new" }] },
+        })
+      ).toThrow();
+
+      // The rejected reload left nothing behind: reapplying the old keys
+      // keeps the key pool and its disabled key
+      proxy.reload({ ...options, streamPingIntervalMs: 5_000 });
+      expect(await keyStatuses(port)).toEqual(["disabled", "active"]);
+
+      gemini.urls.length = 0;
+      expect((await postMessage(port, "claude-test")).status).toBe(200);
+      expect(gemini.urls).toHaveLength(1);
+      expect(gemini.urls[0]).toContain("/models/gemini-old:generateContent");
+      expect(gemini.urls[0]).toContain("key=valid-key");
+    } finally {
+      proxy.stop();
+      gemini.server.stop(true);
+    }
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Tests for the Message Batches service.
+ */
+
+import { describe, test, expect, beforeAll } from "bun:test";
+import { BatchService, type BatchExecutor } from "../../src/services/batch-service";
+import { BatchStore } from "../../src/services/batch-store";
+import type {
+  AnthropicBatchRequest,
+  AnthropicMessagesResponse,
+} from "../../src/models/anthropic";
+import { InvalidRequestError, RateLimitError } from "../../src/utils/errors";
+import { Logger, LogLevel } from "../../src/utils/logger";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const BASE_URL = "http://127.0.0.1:8082";
+
+function makeRequest(customId: string, text = "Hi"): AnthropicBatchRequest {
+  return {
+    custom_id: customId,
+    params: {
+      model: "gemini-3.0-flash",
+      max_tokens: 128,
+      messages: [{ role: "user", content: text }],
+    },
+  };
+}
+
+function makeMessage(text: string): AnthropicMessagesResponse {
+  return {
+    id: "msg_test",
+    type: "message",
+    role: "assistant",
+    content: [{ type: "text", text }],
+    model: "gemini-3.0-flash",
+    stop_reason: "end_turn",
+    stop_sequence: null,
+    usage: { input_tokens: 1, output_tokens: 1 },
+  };
+}
+
+/** Resolves once the batch has ended (or fails after a short timeout). */
+async function waitForEnd(service: BatchService, id: string): Promise<void> {
+  for (let i = 0; i < 100; i++) {
+    if (service.retrieve(id, BASE_URL).processing_status === "ended") return;
+    await Bun.sleep(5);
+  }
+  throw new Error(`Batch ${id} did not end`);
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("BatchService", () => {
+  beforeAll(() => {
+    Logger.getInstance().setLevel(LogLevel.SILENT);
+  });
+
+  test("executes requests and returns JSONL results in order", async () => {
+    const executor: BatchExecutor = async (params) =>
+      makeMessage(`echo: ${params.messages[0].content}`);
+    const service = new BatchService(new BatchStore(":memory:"), executor, 2);
+
+    const batch = service.create(
+      [makeRequest("a", "one"), makeRequest("b", "two"), makeRequest("c", "three")],
+      BASE_URL
+    );
+
+    expect(batch.type).toBe("message_batch");
+    expect(batch.id).toStartWith("msgbatch_");
+    expect(batch.results_url).toBeNull();
+
+    await waitForEnd(service, batch.id);
+
+    const ended = service.retrieve(batch.id, BASE_URL);
+    expect(ended.request_counts.succeeded).toBe(3);
+    expect(ended.results_url).toBe(`${BASE_URL}/v1/messages/batches/${batch.id}/results`);
+    expect(ended.ended_at).not.toBeNull();
+
+    const lines = service.results(batch.id).trim().split("\n").map((l) => JSON.parse(l));
+    expect(lines.map((l) => l.custom_id)).toEqual(["a", "b", "c"]);
+    expect(lines[1].result.type).toBe("succeeded");
+    expect(lines[1].result.message.content[0].text).toBe("echo: two");
+  });
+
+  test("records executor failures as errored results", async () => {
+    const executor: BatchExecutor = async () => {
+      throw new RateLimitError("slow down");
+    };
+    const service = new BatchService(new BatchStore(":memory:"), executor, 1);
+
+    const batch = service.create([makeRequest("x")], BASE_URL);
+    await waitForEnd(service, batch.id);
+
+    const [line] = service.results(batch.id).trim().split("\n").map((l) => JSON.parse(l));
+    expect(line.result).toEqual({
+      type: "errored",
+      error: {
+        type: "error",
+        error: { type: "rate_limit_error", message: "slow down" },
+      },
+    });
+  });
+
+  test("respects the concurrency limit", async () => {
+    let running = 0;
+    let peak = 0;
+    const executor: BatchExecutor = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await Bun.sleep(5);
+      running--;
+      return makeMessage("ok");
+    };
+    const service = new BatchService(new BatchStore(":memory:"), executor, 2);
+
+    const batch = service.create(
+      ["a", "b", "c", "d", "e"].map((id) => makeRequest(id)),
+      BASE_URL
+    );
+    await waitForEnd(service, batch.id);
+
+    expect(peak).toBe(2);
+  });
+
+  test("cancel marks unstarted requests as canceled", async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const executor: BatchExecutor = async () => {
+      await gate;
+      return makeMessage("ok");
+    };
+    const service = new BatchService(new BatchStore(":memory:"), executor, 1);
+
+    const batch = service.create(
+      [makeRequest("a"), makeRequest("b"), makeRequest("c")],
+      BASE_URL
+    );
+
+    const canceling = service.cancel(batch.id, BASE_URL);
+    expect(canceling.processing_status).toBe("canceling");
+    expect(canceling.cancel_initiated_at).not.toBeNull();
+
+    release();
+    await waitForEnd(service, batch.id);
+
+    const counts = service.retrieve(batch.id, BASE_URL).request_counts;
+    expect(counts.succeeded).toBe(1);
+    expect(counts.canceled).toBe(2);
+  });
+
+  test("resume cancels requests interrupted while their batch was canceling", async () => {
+    const store = new BatchStore(":memory:");
+    const now = new Date();
+    store.createBatch(
+      "msgbatch_interrupted",
+      [makeRequest("a"), makeRequest("b")],
+      now.toISOString(),
+      new Date(now.getTime() + 60_000).toISOString()
+    );
+    // A previous process claimed "a", then the batch was canceled and
+    // the process stopped before "a" finished
+    store.claimNextRequest();
+    store.cancelBatch("msgbatch_interrupted", now.toISOString());
+
+    let executed = 0;
+    const service = new BatchService(store, async () => {
+      executed++;
+      return makeMessage("ok");
+    }, 1);
+    service.resume();
+    await waitForEnd(service, "msgbatch_interrupted");
+
+    expect(executed).toBe(0);
+    expect(service.retrieve("msgbatch_interrupted", BASE_URL).request_counts.canceled).toBe(2);
+  });
+
+  test("lists batches newest first with pagination", () => {
+    const service = new BatchService(
+      new BatchStore(":memory:"),
+      async () => makeMessage("ok"),
+      1
+    );
+
+    const ids = [1, 2, 3].map((n) => service.create([makeRequest(`r${n}`)], BASE_URL).id);
+
+    const page = service.list({ limit: 2 }, BASE_URL);
+    expect(page.data.map((b) => b.id)).toEqual([ids[2], ids[1]]);
+    expect(page.has_more).toBe(true);
+    expect(page.first_id).toBe(ids[2]);
+    expect(page.last_id).toBe(ids[1]);
+
+    const next = service.list({ limit: 2, afterId: page.last_id! }, BASE_URL);
+    expect(next.data.map((b) => b.id)).toEqual([ids[0]]);
+    expect(next.has_more).toBe(false);
+
+    const prev = service.list({ limit: 2, beforeId: ids[0] }, BASE_URL);
+    expect(prev.data.map((b) => b.id)).toEqual([ids[2], ids[1]]);
+  });
+
+  test("rejects malformed batches", () => {
+    const service = new BatchService(
+      new BatchStore(":memory:"),
+      async () => makeMessage("ok"),
+      1
+    );
+
+    expect(() => service.create([], BASE_URL)).toThrow(InvalidRequestError);
+    expect(() =>
+      service.create([makeRequest("dup"), makeRequest("dup")], BASE_URL)
+    ).toThrow("not unique");
+    expect(() =>
+      service.create(
+        [{ custom_id: "s", params: { ...makeRequest("s").params, stream: true } }],
+        BASE_URL
+      )
+    ).toThrow("stream");
+  });
+
+  test("results are unavailable until the batch ends", () => {
+    const service = new BatchService(
+      new BatchStore(":memory:"),
+      () => new Promise(() => {}),
+      1
+    );
+
+    const batch = service.create([makeRequest("a")], BASE_URL);
+    expect(() => service.results(batch.id)).toThrow(InvalidRequestError);
+  });
+});
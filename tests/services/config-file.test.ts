@@ -0,0 +1,267 @@
+/**
+ * Tests for config file lookup, parsing and validation.
+ */
+
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  ConfigError,
+  ConfigWatcher,
+  diffConfig,
+  findConfigFile,
+  loadConfigFile,
+  parseConfig,
+  resolveVertexConfig,
+} from "../../src/services/config-file";
+import { Logger, LogLevel } from "../../src/utils/logger";
+
+describe("config file", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    Logger.getInstance().setLevel(LogLevel.SILENT);
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "gcc-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("parses TOML and JSON into the same settings", () => {
+    const toml = parseConfig(
+      `
+[server]
+port = 9000
+
+[gemini]
+apiKeys = ["k1", "k2"]
+keyStrategy = "least-recently-limited"
+
+[models.aliases]
+claude-opus-4-6 = "gemini-3.1-pro"
+
+[models.registry.my-flash]
+geminiModel = "gemini-3-flash-preview"
+fallbacks = ["gemini-flash-latest"]
+
+[[safetySettings]]
+category = "HARM_CATEGORY_HARASSMENT"
+threshold = "BLOCK_ONLY_HIGH"
+`,
+      join(dir, "gemini-claude-code.config.toml")
+    );
+
+    const json = parseConfig(
+      JSON.stringify({
+        server: { port: 9000 },
+        gemini: { apiKeys: ["k1", "k2"], keyStrategy: "least-recently-limited" },
+        models: {
+          aliases: { "claude-opus-4-6": "gemini-3.1-pro" },
+          registry: {
+            "my-flash": {
+              geminiModel: "gemini-3-flash-preview",
+              fallbacks: ["gemini-flash-latest"],
+            },
+          },
+        },
+        safetySettings: [{ category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_ONLY_HIGH" }],
+      }),
+      join(dir, "gemini-claude-code.config.json")
+    );
+
+    expect(toml).toEqual(json);
+    expect(toml.server?.port).toBe(9000);
+    expect(toml.models?.registry?.["my-flash"].fallbacks).toEqual(["gemini-flash-latest"]);
+  });
+
+  test("reports every schema violation with its path", () => {
+    const source = join(dir, "gemini-claude-code.config.json");
+    let error: unknown;
+    try {
+      parseConfig(
+        JSON.stringify({
+          server: { port: "80a", hots: "x" },
+          thinking: { defaultLevel: "EXTREME" },
+          safetySettings: [{ category: "HARM_CATEGORY_HARASSMENT" }],
+        }),
+        source
+      );
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect((error as ConfigError).issues).toEqual([
+      'server.hots is not a known setting (expected one of: port, host)',
+      'server.port must be an integer between 1 and 65535, got "80a"',
+      'thinking.defaultLevel must be one of MINIMAL, LOW, MEDIUM, HIGH, got "EXTREME"',
+      "safetySettings[0].threshold is required",
+    ]);
+    expect((error as ConfigError).message).toContain(source);
+  });
+
+  test("validates routing rules", () => {
+    expect(() =>
+      parseConfig(
+        JSON.stringify({
+          models: { routes: [{ match: "/claude-(/", model: "gemini-3.1-pro" }, { match: "x" }] },
+        }),
+        "x.json"
+      )
+    ).toThrow(
+      /models\.routes\[0\]\.match is not a valid regular expression(.|\n)*models\.routes\[1\]\.model is required/
+    );
+  });
+
+  test("reads Vertex AI settings and per-model backends", () => {
+    const config = parseConfig(
+      `
+[vertex]
+project = "proj"
+location = "europe-west4"
+credentialsFile = "sa.json"
+
+[models]
+defaultBackend = "vertex"
+
+[models.registry.studio-flash]
+geminiModel = "gemini-flash-latest"
+backend = "gemini"
+`,
+      join(dir, "gemini-claude-code.config.toml")
+    );
+
+    expect(config.vertex).toEqual({
+      project: "proj",
+      location: "europe-west4",
+      credentialsFile: join(dir, "sa.json"),
+    });
+    expect(config.models?.registry?.["studio-flash"].backend).toBe("gemini");
+    expect(() =>
+      parseConfig(JSON.stringify({ models: { defaultBackend: "bedrock" } }), "x.json")
+    ).toThrow(/models\.defaultBackend must be one of gemini, vertex/);
+  });
+
+  test("reports syntax errors", () => {
+    expect(() => parseConfig("{ port: ", "x.json")).toThrow(ConfigError);
+    expect(() => parseConfig("[server\nport = 1", "x.toml")).toThrow(/syntax error/);
+  });
+
+  test("searches the cwd before the XDG config directory", () => {
+    const xdg = join(dir, "xdg");
+    mkdirSync(join(xdg, "gemini-claude-code"), { recursive: true });
+    writeFileSync(join(xdg, "gemini-claude-code", "gemini-claude-code.config.toml"), "");
+
+    expect(findConfigFile(join(dir, "missing"), { XDG_CONFIG_HOME: xdg })).toBe(
+      join(xdg, "gemini-claude-code", "gemini-claude-code.config.toml")
+    );
+
+    writeFileSync(join(dir, "gemini-claude-code.config.json"), "{}");
+    expect(findConfigFile(dir, { XDG_CONFIG_HOME: xdg })).toBe(
+      join(dir, "gemini-claude-code.config.json")
+    );
+  });
+
+  test("loads an explicit path and resolves relative paths against it", () => {
+    writeFileSync(
+      join(dir, "proxy.json"),
+      JSON.stringify({ gemini: { apiKeysFile: "keys.txt" } })
+    );
+
+    const loaded = loadConfigFile("proxy.json", dir, {});
+
+    expect(loaded?.config.gemini?.apiKeysFile).toBe(join(dir, "keys.txt"));
+    expect(() => loadConfigFile("nope.json", dir, {})).toThrow(/file not found/);
+  });
+
+  test("diffs configs setting by setting, masking API keys", () => {
+    expect(
+      diffConfig(
+        { server: { port: 8082 }, gemini: { apiKeys: ["AIzaOld00001"] } },
+        { server: { port: 9000 }, gemini: { apiKeys: ["AIzaNew00002"] }, logging: { level: "debug" } }
+      )
+    ).toEqual([
+      "gemini.apiKeys: ****0001 → ****0002",
+      'logging.level: (unset) → "debug"',
+      "server.port: 8082 → 9000",
+    ]);
+  });
+
+  test("reloads valid changes and keeps the previous config otherwise", () => {
+    const path = join(dir, "gemini-claude-code.config.json");
+    writeFileSync(path, JSON.stringify({ server: { port: 8082 } }));
+    const applied: number[] = [];
+    const watcher = new ConfigWatcher(path, { server: { port: 8082 } }, (config) => {
+      if (config.server?.port === 7000) throw new Error("rejected by the server");
+      applied.push(config.server!.port!);
+    });
+
+    writeFileSync(path, JSON.stringify({ server: { port: 9000 } }));
+    expect(watcher.reload()).toBe(true);
+
+    writeFileSync(path, JSON.stringify({ server: { port: "nine" } }));
+    expect(watcher.reload()).toBe(false);
+
+    writeFileSync(path, JSON.stringify({ server: { port: 7000 } }));
+    expect(watcher.reload()).toBe(false);
+
+    expect(applied).toEqual([9000]);
+    expect(watcher.config.server?.port).toBe(9000);
+  });
+
+  test("reloads when the API keys file changes, and always when forced", () => {
+    const path = join(dir, "gemini-claude-code.config.json");
+    const keysFile = join(dir, "keys.txt");
+    writeFileSync(path, JSON.stringify({ gemini: { apiKeysFile: "keys.txt" } }));
+    writeFileSync(keysFile, "key-aaaa\n");
+    let reloads = 0;
+    const watcher = new ConfigWatcher(path, loadConfigFile(path)!.config, () => reloads++);
+
+    expect(watcher.reload()).toBe(false);
+
+    writeFileSync(keysFile, "key-aaaa\nkey-bbbb\n");
+    expect(watcher.reload()).toBe(true);
+    expect(watcher.reload()).toBe(false);
+
+    expect(watcher.reload({ force: true })).toBe(true);
+    expect(reloads).toBe(2);
+  });
+
+  test("lets the environment override the file's Vertex AI settings", () => {
+    const file = parseConfig(
+      `
+[vertex]
+project = "file-project"
+location = "europe-west4"
+credentialsFile = "/etc/file-key.json"
+`,
+      "test.toml"
+    );
+
+    expect(
+      resolveVertexConfig(file, {
+        project: "env-project",
+        location: "us-central1",
+        credentialsFile: "/etc/env-key.json",
+      })
+    ).toEqual({
+      project: "env-project",
+      location: "us-central1",
+      credentialsFile: "/etc/env-key.json",
+    });
+    expect(resolveVertexConfig(file, {})).toEqual({
+      project: "file-project",
+      location: "europe-west4",
+      credentialsFile: "/etc/file-key.json",
+    });
+    expect(() => resolveVertexConfig({ models: { defaultBackend: "vertex" } }, {})).toThrow(
+      "needs a service account"
+    );
+    expect(resolveVertexConfig({}, { credentialsFile: "/etc/env-key.json" })).toBeUndefined();
+  });
+});
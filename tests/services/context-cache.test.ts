@@ -0,0 +1,186 @@
+/**
+ * Tests for explicit context caching.
+ */
+
+import { describe, test, expect, beforeAll } from "bun:test";
+import type { GeminiClient } from "../../src/services/gemini-client";
+import {
+  ContextCache,
+  splitPromptUsage,
+  type CacheBreakpoint,
+} from "../../src/services/context-cache";
+import type {
+  GeminiContent,
+  GeminiCreateCachedContentRequest,
+  GeminiGenerateContentRequest,
+} from "../../src/models/gemini";
+import { NotFoundError } from "../../src/utils/errors";
+import { Logger, LogLevel } from "../../src/utils/logger";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const MODEL = "gemini-3-flash-preview";
+
+function turn(role: "user" | "model", text: string): GeminiContent {
+  return { role, parts: [{ text }] };
+}
+
+/** A conversation with a large system prompt. */
+function conversation(...texts: string[]): GeminiGenerateContentRequest {
+  return {
+    systemInstruction: { role: "user", parts: [{ text: "x".repeat(8000) }] },
+    tools: [{ functionDeclarations: [{ name: "Read", description: "Reads a file" }] }],
+    contents: texts.map((text, i) => turn(i % 2 === 0 ? "user" : "model", text)),
+  };
+}
+
+/** A client whose cachedContents endpoints are recorded. */
+function createClient() {
+  const created: Array<Omit<GeminiCreateCachedContentRequest, "model" | "ttl"> & { ttl: number }> = [];
+  const refreshed: string[] = [];
+  const client = {
+    createCachedContent: async (
+      _model: string,
+      prefix: Omit<GeminiCreateCachedContentRequest, "model" | "ttl">,
+      ttl: number
+    ) => {
+      created.push({ ...prefix, ttl });
+      return { name: `cachedContents/c${created.length}`, usageMetadata: { totalTokenCount: 2000 } };
+    },
+    updateCachedContentTtl: async (_model: string, name: string) => {
+      refreshed.push(name);
+      return { name };
+    },
+  } as unknown as GeminiClient;
+  return { client, created, refreshed };
+}
+
+/** Runs a request and returns what was sent to Gemini. */
+async function send(
+  cache: ContextCache,
+  request: GeminiGenerateContentRequest,
+  breakpoints: CacheBreakpoint[]
+) {
+  let sent: GeminiGenerateContentRequest | undefined;
+  const { usage } = await cache.run(MODEL, request, breakpoints, async (req) => {
+    sent = req;
+  });
+  return { sent: sent!, usage };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("ContextCache", () => {
+  beforeAll(() => {
+    Logger.getInstance().setLevel(LogLevel.SILENT);
+  });
+
+  test("caches the system prompt and tools, then reads them from the cache", async () => {
+    const { client, created } = createClient();
+    const cache = new ContextCache(client, { minTokens: 1024 });
+    const breakpoints: CacheBreakpoint[] = [{ contentCount: 0, ttl: "1h" }];
+
+    const first = await send(cache, conversation("Hi"), breakpoints);
+    const second = await send(cache, conversation("Hello again"), breakpoints);
+
+    expect(created).toHaveLength(1);
+    expect(created[0].ttl).toBe(3600);
+    expect(created[0].contents).toEqual([]);
+    expect(first.sent).toEqual({ contents: [turn("user", "Hi")], cachedContent: "cachedContents/c1" });
+    expect(first.usage).toEqual({ creationTokens: 2000, readTokens: 0 });
+    expect(second.sent.cachedContent).toBe("cachedContents/c1");
+    expect(second.usage).toEqual({ creationTokens: 0, readTokens: 2000 });
+  });
+
+  test("reuses a cached prefix until enough new history has accumulated", async () => {
+    const { client, created } = createClient();
+    const cache = new ContextCache(client, { minTokens: 1024 });
+    const long = "y".repeat(6000);
+
+    // The marker on the last message caches everything before it
+    await send(cache, conversation("a", "b", "c"), [{ contentCount: 3, ttl: "5m" }]);
+    expect(created[0].contents).toHaveLength(2);
+
+    // A short new turn reads the previous prefix instead of caching again
+    const small = await send(cache, conversation("a", "b", "c", "d", "e"), [{ contentCount: 5, ttl: "5m" }]);
+    expect(created).toHaveLength(1);
+    expect(small.sent.contents.map((c) => (c.parts[0] as { text: string }).text)).toEqual(["c", "d", "e"]);
+
+    // A large new turn is worth a longer cache
+    const large = await send(cache, conversation("a", "b", "c", long, "e"), [{ contentCount: 5, ttl: "5m" }]);
+    expect(created).toHaveLength(2);
+    expect(created[1].contents).toHaveLength(4);
+    expect(large.sent.contents).toEqual([turn("user", "e")]);
+  });
+
+  test("leaves small prefixes and unmarked requests alone", async () => {
+    const { client, created } = createClient();
+    const cache = new ContextCache(client);
+    const request: GeminiGenerateContentRequest = { contents: [turn("user", "a"), turn("model", "b"), turn("user", "c")] };
+
+    expect((await send(cache, request, [{ contentCount: 2, ttl: "5m" }])).sent).toBe(request);
+    expect((await send(cache, conversation("a"), [])).usage).toBeNull();
+    expect(created).toHaveLength(0);
+  });
+
+  test("refreshes caches in use once half their lifetime has passed", async () => {
+    const { client, refreshed } = createClient();
+    let now = 0;
+    const cache = new ContextCache(client, { minTokens: 1024, now: () => now });
+    const breakpoints: CacheBreakpoint[] = [{ contentCount: 0, ttl: "5m" }];
+
+    await send(cache, conversation("a"), breakpoints);
+    now = 100_000;
+    await send(cache, conversation("b"), breakpoints);
+    expect(refreshed).toEqual([]);
+
+    now = 200_000;
+    await send(cache, conversation("c"), breakpoints);
+    expect(refreshed).toEqual(["cachedContents/c1"]);
+  });
+
+  test("retries without the cache when Gemini no longer has it", async () => {
+    const { client, created } = createClient();
+    const cache = new ContextCache(client, { minTokens: 1024 });
+    const breakpoints: CacheBreakpoint[] = [{ contentCount: 0, ttl: "5m" }];
+    await send(cache, conversation("a"), breakpoints);
+
+    const sent: GeminiGenerateContentRequest[] = [];
+    const { usage } = await cache.run(MODEL, conversation("b"), breakpoints, async (req) => {
+      sent.push(req);
+      if (req.cachedContent) throw new NotFoundError("Gemini model not found: CachedContent not found");
+    });
+
+    expect(sent.map((r) => r.cachedContent)).toEqual(["cachedContents/c1", undefined]);
+    expect(usage).toBeNull();
+
+    // The stale cache is forgotten and replaced
+    await send(cache, conversation("c"), breakpoints);
+    expect(created).toHaveLength(2);
+  });
+
+  test("splits cached tokens out of the prompt tokens", () => {
+    expect(splitPromptUsage(5000, undefined, { creationTokens: 0, readTokens: 4000 })).toEqual({
+      input_tokens: 1000,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 4000,
+    });
+    expect(splitPromptUsage(5000, undefined, null)).toEqual({ input_tokens: 5000 });
+
+    // Gemini's own count wins; tokens of a cache just created are not a read
+    expect(splitPromptUsage(5000, 3000, null)).toEqual({
+      input_tokens: 2000,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 3000,
+    });
+    expect(splitPromptUsage(5000, 2000, { creationTokens: 2000, readTokens: 0 })).toEqual({
+      input_tokens: 3000,
+      cache_creation_input_tokens: 2000,
+      cache_read_input_tokens: 0,
+    });
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Tests for the GeminiClient retry behaviour.
+ */
+
+import { describe, test, expect, beforeAll } from "bun:test";
+import { GeminiClient, type GeminiRequestStats } from "../../src/services/gemini-client";
+import { KeyPool } from "../../src/services/key-pool";
+import type { GeminiGenerateContentRequest } from "../../src/models/gemini";
+import { InvalidRequestError, RateLimitError, RequestCancelledError } from "../../src/utils/errors";
+import { Logger, LogLevel } from "../../src/utils/logger";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const REQUEST: GeminiGenerateContentRequest = {
+  contents: [{ role: "user", parts: [{ text: "Hi" }] }],
+};
+
+const OK_BODY = JSON.stringify({
+  candidates: [{ content: { role: "model", parts: [{ text: "Hello" }] } }],
+});
+
+/** A fetch that answers with the given responses in order. */
+function createFetch(responses: Array<() => Response>) {
+  let calls = 0;
+  const urls: string[] = [];
+  const fetchFn = (async (url: string) => {
+    urls.push(url);
+    return responses[calls++]();
+  }) as unknown as typeof fetch;
+  return { fetchFn, calls: () => calls, urls };
+}
+
+function createClient(
+  fetchFn: typeof fetch,
+  delays: number[] = [],
+  maxRetries = 2,
+  apiKey: string | KeyPool = "key"
+) {
+  return new GeminiClient(apiKey, "https://gemini.test", {
+    maxRetries,
+    fetch: fetchFn,
+    sleep: async (ms) => {
+      delays.push(ms);
+    },
+  });
+}
+
+function errorResponse(status: number, retryDelay?: string): Response {
+  const details = retryDelay
+    ? [{ "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay }]
+    : [];
+  return new Response(JSON.stringify({ error: { message: "busy", details } }), { status });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("GeminiClient retries", () => {
+  beforeAll(() => {
+    Logger.getInstance().setLevel(LogLevel.SILENT);
+  });
+
+  test("retries transient errors and reports the retry count", async () => {
+    const { fetchFn, calls } = createFetch([
+      () => errorResponse(503),
+      () => errorResponse(500),
+      () => new Response(OK_BODY),
+    ]);
+    const delays: number[] = [];
+    const stats: GeminiRequestStats = { retries: 0 };
+
+    const response = await createClient(fetchFn, delays).generateContent("m", REQUEST, stats);
+
+    expect(response.candidates?.[0].content.parts).toEqual([{ text: "Hello" }]);
+    expect(calls()).toBe(3);
+    expect(stats.retries).toBe(2);
+    // Exponential backoff with 50–100% jitter
+    expect(delays[0]).toBeGreaterThanOrEqual(500);
+    expect(delays[0]).toBeLessThanOrEqual(1000);
+    expect(delays[1]).toBeGreaterThanOrEqual(1000);
+    expect(delays[1]).toBeLessThanOrEqual(2000);
+  });
+
+  test("waits for RetryInfo.retryDelay and Retry-After", async () => {
+    const { fetchFn } = createFetch([
+      () => errorResponse(429, "1.5s"),
+      () => new Response("{}", { status: 503, headers: { "Retry-After": "3" } }),
+      () => new Response(OK_BODY),
+    ]);
+    const delays: number[] = [];
+
+    await createClient(fetchFn, delays).generateContent("m", REQUEST);
+
+    expect(delays).toEqual([1500, 3000]);
+  });
+
+  test("gives up on non-retryable errors, exhausted retries and long delays", async () => {
+    const badRequest = createFetch([() => errorResponse(400)]);
+    await expect(createClient(badRequest.fetchFn).generateContent("m", REQUEST)).rejects.toBeInstanceOf(
+      InvalidRequestError
+    );
+    expect(badRequest.calls()).toBe(1);
+
+    const limited = createFetch([() => errorResponse(429), () => errorResponse(429)]);
+    const stats: GeminiRequestStats = { retries: 0 };
+    await expect(
+      createClient(limited.fetchFn, [], 1).generateContent("m", REQUEST, stats)
+    ).rejects.toBeInstanceOf(RateLimitError);
+    expect(stats.retries).toBe(1);
+
+    const quota = createFetch([() => errorResponse(429, "120s")]);
+    await expect(createClient(quota.fetchFn).generateContent("m", REQUEST)).rejects.toBeInstanceOf(
+      RateLimitError
+    );
+    expect(quota.calls()).toBe(1);
+  });
+
+  test("retries a stream that fails before sending any data", async () => {
+    const failing = () =>
+      new Response(
+        new ReadableStream({
+          pull(controller) {
+            controller.error(new Error("connection reset"));
+          },
+        })
+      );
+    const { fetchFn, calls } = createFetch([
+      failing,
+      () => new Response('data: {"candidates":[]}\n\n'),
+    ]);
+
+    const response = await createClient(fetchFn).streamGenerateContent("m", REQUEST);
+
+    expect(await response.text()).toBe('data: {"candidates":[]}\n\n');
+    expect(calls()).toBe(2);
+  });
+
+  test("does not retry a request aborted by the client", async () => {
+    const abort = new AbortController();
+    const { fetchFn, calls } = createFetch([
+      () => {
+        abort.abort();
+        throw new DOMException("The operation was aborted.", "AbortError");
+      },
+    ]);
+
+    await expect(
+      createClient(fetchFn).streamGenerateContent("m", REQUEST, undefined, abort.signal)
+    ).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(calls()).toBe(1);
+
+    await expect(
+      createClient(fetchFn).generateContent("m", REQUEST, undefined, abort.signal)
+    ).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(calls()).toBe(1);
+  });
+
+  test("switches to another key on 429 and 403 without waiting", async () => {
+    const { fetchFn, urls } = createFetch([
+      () => errorResponse(429, "60s"),
+      () => errorResponse(403),
+      () => new Response(OK_BODY),
+    ]);
+    const pool = new KeyPool(["key-a", "key-b", "key-c"]);
+    const delays: number[] = [];
+
+    await createClient(fetchFn, delays, 2, pool).generateContent("m", REQUEST);
+
+    expect(urls.map((u) => new URL(u).searchParams.get("key"))).toEqual(["key-a", "key-b", "key-c"]);
+    expect(delays).toEqual([]);
+    expect(pool.health().map((k) => k.status)).toEqual(["cooldown", "disabled", "active"]);
+  });
+
+  test("fails fast with a retry-after once every key is cooling down", async () => {
+    const { fetchFn, calls } = createFetch([() => errorResponse(429, "45s")]);
+    const client = createClient(fetchFn, [], 2, new KeyPool(["key-a"]));
+
+    await expect(client.generateContent("m", REQUEST)).rejects.toMatchObject({ retryAfter: 45 });
+    await expect(client.generateContent("m", REQUEST)).rejects.toBeInstanceOf(RateLimitError);
+    expect(calls()).toBe(1);
+  });
+
+  test("leaves the key usable when countTokens is rate limited", async () => {
+    const { fetchFn } = createFetch([() => errorResponse(429, "60s")]);
+    const pool = new KeyPool(["key-a"]);
+
+    await expect(createClient(fetchFn, [], 2, pool).countTokens("m", REQUEST)).rejects.toBeInstanceOf(
+      RateLimitError
+    );
+    expect(pool.health().map((k) => k.status)).toEqual(["active"]);
+  });
+});
+
+describe("GeminiClient context caching", () => {
+  beforeAll(() => {
+    Logger.getInstance().setLevel(LogLevel.SILENT);
+  });
+
+  test("uses the key that created a cached content", async () => {
+    const { fetchFn, urls } = createFetch([
+      () => new Response(JSON.stringify({ name: "cachedContents/abc" })),
+      () => new Response(OK_BODY),
+      () => new Response(OK_BODY),
+    ]);
+    const client = createClient(fetchFn, [], 2, new KeyPool(["key-a", "key-b"]));
+
+    const cached = await client.createCachedContent("m", { contents: REQUEST.contents }, 300);
+    await client.generateContent("m", { ...REQUEST, cachedContent: cached.name });
+    await client.generateContent("m", { ...REQUEST, cachedContent: cached.name });
+
+    expect(urls[0]).toBe("https://gemini.test/cachedContents?key=key-a");
+    expect(urls.slice(1).map((u) => new URL(u).searchParams.get("key"))).toEqual(["key-a", "key-a"]);
+  });
+});
+
+describe("GeminiClient on Vertex AI", () => {
+  beforeAll(() => {
+    Logger.getInstance().setLevel(LogLevel.SILENT);
+  });
+
+  /** A token provider handing out numbered tokens. */
+  function createAuth() {
+    let minted = 0;
+    return {
+      getAccessToken: async () => `token-${minted || ++minted}`,
+      invalidate: () => {
+        minted++;
+      },
+    };
+  }
+
+  function createVertexClient(fetchFn: typeof fetch, apiKey: string | null = null) {
+    return new GeminiClient(apiKey, "https://gemini.test", {
+      fetch: fetchFn,
+      sleep: async () => {},
+      vertex: { project: "proj", location: "us-central1", auth: createAuth() },
+      backendFor: (model) => (model === "gemini-flash-latest" ? "gemini" : "vertex"),
+    });
+  }
+
+  test("calls the regional publisher endpoint with a bearer token", async () => {
+    const requests: Array<{ url: string; init: RequestInit }> = [];
+    const fetchFn = (async (url: string, init: RequestInit) => {
+      requests.push({ url, init });
+      return new Response(OK_BODY);
+    }) as unknown as typeof fetch;
+    const client = createVertexClient(fetchFn, "key");
+
+    await client.generateContent("gemini-3-flash-preview", REQUEST);
+    await client.generateContent("gemini-flash-latest", REQUEST);
+
+    expect(requests[0].url).toBe(
+      "https://us-central1-aiplatform.googleapis.com/v1/projects/proj/locations/us-central1/publishers/google/models/gemini-3-flash-preview:generateContent"
+    );
+    expect((requests[0].init.headers as Record<string, string>).Authorization).toBe("Bearer token-1");
+    expect(requests[1].url).toBe("https://gemini.test/models/gemini-flash-latest:generateContent?key=key");
+  });
+
+  test("sends countTokens without the generateContentRequest wrapper", async () => {
+    let body: unknown;
+    const fetchFn = (async (_url: string, init: RequestInit) => {
+      body = JSON.parse(init.body as string);
+      return new Response(JSON.stringify({ totalTokens: 7 }));
+    }) as unknown as typeof fetch;
+
+    const total = await createVertexClient(fetchFn).countTokens("gemini-3-flash-preview", {
+      ...REQUEST,
+      systemInstruction: { role: "user", parts: [{ text: "Be brief" }] },
+    });
+
+    expect(total).toBe(7);
+    expect(body).toEqual({
+      contents: REQUEST.contents,
+      systemInstruction: { role: "user", parts: [{ text: "Be brief" }] },
+    });
+  });
+
+  test("refreshes a rejected token and unwraps array-shaped errors", async () => {
+    const authHeaders: string[] = [];
+    const responses = [
+      () => new Response(JSON.stringify([{ error: { message: "expired" } }]), { status: 401 }),
+      () => new Response(JSON.stringify([{ error: { message: "bad field" } }]), { status: 400 }),
+    ];
+    const fetchFn = (async (_url: string, init: RequestInit) => {
+      authHeaders.push((init.headers as Record<string, string>).Authorization);
+      return responses[authHeaders.length - 1]();
+    }) as unknown as typeof fetch;
+
+    const error = await createVertexClient(fetchFn)
+      .generateContent("gemini-3-flash-preview", REQUEST)
+      .catch((e) => e);
+
+    expect(authHeaders).toEqual(["Bearer token-1", "Bearer token-2"]);
+    expect(error).toBeInstanceOf(InvalidRequestError);
+    expect(error.message).toBe("Gemini API: bad field");
+  });
+
+  test("rejects Gemini API models when no key is configured", async () => {
+    const { fetchFn, calls } = createFetch([() => new Response(OK_BODY)]);
+
+    await expect(
+      createVertexClient(fetchFn).generateContent("gemini-flash-latest", REQUEST)
+    ).rejects.toThrow(/needs a Gemini API key/);
+    expect(calls()).toBe(0);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for the KeyPool service.
+ */
+
+import { describe, test, expect, beforeAll } from "bun:test";
+import { KeyPool } from "../../src/services/key-pool";
+import { AuthenticationError, RateLimitError } from "../../src/utils/errors";
+import { Logger, LogLevel } from "../../src/utils/logger";
+
+const M = "gemini-3-flash-preview";
+
+describe("KeyPool", () => {
+  beforeAll(() => {
+    Logger.getInstance().setLevel(LogLevel.SILENT);
+  });
+
+  test("rotates round-robin and skips keys on cooldown", () => {
+    const pool = new KeyPool(["key-a", "key-b", "key-c"], { now: () => 0 });
+
+    expect([pool.acquire(M), pool.acquire(M), pool.acquire(M), pool.acquire(M)]).toEqual([
+      "key-a",
+      "key-b",
+      "key-c",
+      "key-a",
+    ]);
+
+    pool.markRateLimited("key-b", M, 10_000);
+    expect([pool.acquire(M), pool.acquire(M)]).toEqual(["key-c", "key-a"]);
+  });
+
+  test("prefers the least recently limited key", () => {
+    let now = 0;
+    const pool = new KeyPool(["key-a", "key-b"], {
+      strategy: "least-recently-limited",
+      now: () => now,
+    });
+
+    pool.markRateLimited("key-a", M, 1_000);
+    now = 500;
+    pool.markRateLimited("key-b", M, 1_000);
+    now = 2_000;
+
+    expect(pool.acquire(M)).toBe("key-a");
+  });
+
+  test("reports a retry-after when every key is cooling down", () => {
+    let now = 0;
+    const pool = new KeyPool(["key-a", "key-b"], { now: () => now });
+
+    pool.markRateLimited("key-a", M, 30_000);
+    pool.markRateLimited("key-b", M, 12_500);
+
+    try {
+      pool.acquire(M);
+      throw new Error("expected acquire to fail");
+    } catch (error) {
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect((error as RateLimitError).retryAfter).toBe(13);
+    }
+
+    // A caller that already waited gets the key that frees up first
+    expect(pool.acquire(M, true)).toBe("key-b");
+
+    now = 15_000;
+    expect(pool.hasAvailableKey(M)).toBe(true);
+  });
+
+  test("keeps a key usable for other models while one is cooling down", () => {
+    const pool = new KeyPool(["key-a"], { now: () => 0 });
+
+    pool.markRateLimited("key-a", "gemini-3.1-pro-preview", 60_000);
+
+    expect(pool.hasAvailableKey("gemini-3.1-pro-preview")).toBe(false);
+    expect(pool.acquire(M)).toBe("key-a");
+    pool.markSucceeded("key-a", M);
+    expect(pool.hasAvailableKey("gemini-3.1-pro-preview")).toBe(false);
+  });
+
+  test("disables rejected keys and exposes per-key health", () => {
+    const pool = new KeyPool(["AIzaSecret0001", "AIzaSecret0002"], { now: () => 0 });
+
+    pool.acquire(M);
+    pool.markInvalid("AIzaSecret0001");
+    expect(pool.acquire(M)).toBe("AIzaSecret0002");
+    pool.markRateLimited("AIzaSecret0002", M, 4_000);
+
+    expect(pool.health()).toEqual([
+      { key: "****0001", status: "disabled", requests: 1, rate_limited: 0 },
+      {
+        key: "****0002",
+        status: "cooldown",
+        requests: 1,
+        rate_limited: 1,
+        cooldown_models: [M],
+        cooldown_remaining: 4,
+      },
+    ]);
+
+    pool.markInvalid("AIzaSecret0002");
+    expect(() => pool.acquire(M)).toThrow(AuthenticationError);
+  });
+
+  test("parses key lists from flags and files", () => {
+    expect(KeyPool.parseKeys("k1, k2\n# comment k9\nk3 k4\n")).toEqual(["k1", "k2", "k3", "k4"]);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Tests for the MediaFetcher service.
+ */
+
+import { describe, test, expect, beforeAll } from "bun:test";
+import { MediaFetcher } from "../../src/services/media-fetcher";
+import type { AnthropicMessage } from "../../src/models/anthropic";
+import { Logger, LogLevel } from "../../src/utils/logger";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+
+/** Resolves every host to a public address. */
+const publicHost = async () => ["93.184.216.34"];
+
+function createFetch(body: Uint8Array | string, status = 200) {
+  const calls: string[] = [];
+  const fetchFn = (async (url: string) => {
+    calls.push(url);
+    return new Response(body, { status });
+  }) as unknown as typeof fetch;
+  return { fetchFn, calls };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("MediaFetcher", () => {
+  beforeAll(() => {
+    Logger.getInstance().setLevel(LogLevel.SILENT);
+  });
+
+  test("replaces URL image sources with sniffed base64 data", async () => {
+    const { fetchFn } = createFetch(PNG_BYTES);
+    const fetcher = new MediaFetcher({ fetch: fetchFn, resolveHost: publicHost });
+    const messages: AnthropicMessage[] = [
+      {
+        role: "user",
+        content: [
+          { type: "image", source: { type: "url", url: "https://cdn.test/a" } },
+          {
+            type: "tool_result",
+            tool_use_id: "toolu_1",
+            content: [{ type: "image", source: { type: "url", url: "https://cdn.test/b" } }],
+          },
+        ],
+      },
+    ];
+
+    await fetcher.resolveMediaSources(messages);
+
+    const blocks = messages[0].content as any[];
+    expect(blocks[0].source).toEqual({
+      type: "base64",
+      media_type: "image/png",
+      data: Buffer.from(PNG_BYTES).toString("base64"),
+    });
+    expect(blocks[1].content[0].source.type).toBe("base64");
+  });
+
+  test("downloads URL PDF documents and rejects other payloads for them", async () => {
+    const pdf = new TextEncoder().encode("%PDF-1.7\n...");
+    const { fetchFn } = createFetch(pdf);
+    const fetcher = new MediaFetcher({ fetch: fetchFn, resolveHost: publicHost });
+    const messages: AnthropicMessage[] = [
+      {
+        role: "user",
+        content: [{ type: "document", source: { type: "url", url: "https://cdn.test/a.pdf" } }],
+      },
+    ];
+
+    await fetcher.resolveMediaSources(messages);
+
+    expect((messages[0].content as any[])[0].source).toEqual({
+      type: "base64",
+      media_type: "application/pdf",
+      data: Buffer.from(pdf).toString("base64"),
+    });
+
+    const image = new MediaFetcher({ fetch: createFetch(PNG_BYTES).fetchFn, resolveHost: publicHost });
+    await expect(image.fetchPdf("https://cdn.test/b.png")).rejects.toThrow("not point to a PDF");
+  });
+
+  test("caches downloads by URL", async () => {
+    const { fetchFn, calls } = createFetch(PNG_BYTES);
+    const fetcher = new MediaFetcher({ fetch: fetchFn, resolveHost: publicHost });
+
+    await fetcher.fetchImage("https://cdn.test/a");
+    await fetcher.fetchImage("https://cdn.test/a");
+
+    expect(calls).toHaveLength(1);
+  });
+
+  test("rejects non-image payloads", async () => {
+    const { fetchFn } = createFetch("<html>not found</html>");
+    const fetcher = new MediaFetcher({ fetch: fetchFn, resolveHost: publicHost });
+
+    await expect(fetcher.fetchImage("https://cdn.test/a")).rejects.toThrow(
+      "supported image"
+    );
+  });
+
+  test("rejects images above the size cap", async () => {
+    const { fetchFn } = createFetch(PNG_BYTES);
+    const fetcher = new MediaFetcher({ fetch: fetchFn, resolveHost: publicHost, maxBytes: 4 });
+
+    await expect(fetcher.fetchImage("https://cdn.test/a")).rejects.toThrow("limit");
+  });
+
+  test("reports HTTP failures and does not cache them", async () => {
+    const { fetchFn, calls } = createFetch("", 404);
+    const fetcher = new MediaFetcher({ fetch: fetchFn, resolveHost: publicHost });
+
+    await expect(fetcher.fetchImage("https://cdn.test/a")).rejects.toThrow("HTTP 404");
+    await expect(fetcher.fetchImage("https://cdn.test/a")).rejects.toThrow("HTTP 404");
+    expect(calls).toHaveLength(2);
+  });
+
+  test("expires cached downloads and keeps the cache within its size budget", async () => {
+    const { fetchFn, calls } = createFetch(PNG_BYTES);
+    const size = Buffer.from(PNG_BYTES).toString("base64").length;
+
+    const expiring = new MediaFetcher({ fetch: fetchFn, resolveHost: publicHost, cacheTtlMs: 0 });
+    await expiring.fetchImage("https://cdn.test/a");
+    await expiring.fetchImage("https://cdn.test/a");
+    expect(calls).toHaveLength(2);
+
+    const bounded = new MediaFetcher({
+      fetch: fetchFn,
+      resolveHost: publicHost,
+      maxCacheBytes: size * 2,
+    });
+    for (const name of ["a", "b", "c"]) await bounded.fetchImage(`https://cdn.test/${name}`);
+    await bounded.fetchImage("https://cdn.test/c");
+    await bounded.fetchImage("https://cdn.test/a");
+    expect(calls.slice(2)).toEqual([
+      "https://cdn.test/a",
+      "https://cdn.test/b",
+      "https://cdn.test/c",
+      "https://cdn.test/a",
+    ]);
+  });
+
+  test("refuses loopback, private and link-local targets, also after a redirect", async () => {
+    const { fetchFn, calls } = createFetch(PNG_BYTES);
+    const fetcher = new MediaFetcher({
+      fetch: fetchFn,
+      resolveHost: async (host) => (host === "intranet.test" ? ["10.0.0.5"] : ["93.184.216.34"]),
+    });
+
+    for (const url of [
+      "http://127.0.0.1/a.png",
+      "http://169.254.169.254/latest/meta-data",
+      "http://[::1]/a.png",
+      "http://[::ffff:192.168.1.1]/a.png",
+      "http://intranet.test/a.png",
+    ]) {
+      await expect(fetcher.fetchImage(url)).rejects.toThrow("not a public address");
+    }
+    expect(calls).toHaveLength(0);
+
+    const redirecting = (async (url: string) => {
+      calls.push(url);
+      return new Response(null, {
+        status: 302,
+        headers: { Location: "http://169.254.169.254/latest/meta-data" },
+      });
+    }) as unknown as typeof fetch;
+    const redirected = new MediaFetcher({ fetch: redirecting, resolveHost: publicHost });
+    await expect(redirected.fetchImage("https://cdn.test/a")).rejects.toThrow(
+      "169.254.169.254 is not a public address"
+    );
+    expect(calls).toEqual(["https://cdn.test/a"]);
+  });
+});
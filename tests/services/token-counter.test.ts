@@ -0,0 +1,93 @@
+/**
+ * Tests for the TokenCounter service.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { TokenCounter } from "../../src/services/token-counter";
+import type { GeminiClient } from "../../src/services/gemini-client";
+import type { GeminiGenerateContentRequest } from "../../src/models/gemini";
+import { RateLimitError } from "../../src/utils/errors";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createClient(countTokens: () => Promise<number>): GeminiClient {
+  return { countTokens } as unknown as GeminiClient;
+}
+
+const REQUEST: GeminiGenerateContentRequest = {
+  systemInstruction: { role: "user", parts: [{ text: "You are a coder." }] },
+  contents: [
+    { role: "user", parts: [{ text: "a".repeat(400) }] },
+    {
+      role: "model",
+      parts: [{ functionCall: { name: "read_file", args: { path: "/tmp/x" } } }],
+    },
+  ],
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("TokenCounter", () => {
+  test("returns the upstream count when countTokens succeeds", async () => {
+    const counter = new TokenCounter(createClient(async () => 1234));
+
+    expect(await counter.count("gemini-3-flash-preview", REQUEST)).toBe(1234);
+  });
+
+  test("falls back to the local estimate when countTokens fails", async () => {
+    const counter = new TokenCounter(
+      createClient(async () => {
+        throw new RateLimitError();
+      })
+    );
+
+    const count = await counter.count("gemini-3-flash-preview", REQUEST);
+
+    expect(count).toBe(TokenCounter.estimate(REQUEST));
+    expect(count).toBeGreaterThan(0);
+  });
+
+  test("estimate scales with text length", () => {
+    const short = TokenCounter.estimate({
+      contents: [{ role: "user", parts: [{ text: "a".repeat(40) }] }],
+    });
+    const long = TokenCounter.estimate({
+      contents: [{ role: "user", parts: [{ text: "a".repeat(4000) }] }],
+    });
+
+    expect(long - short).toBe(990);
+  });
+
+  test("estimate charges a flat cost for inline media", () => {
+    const count = TokenCounter.estimate({
+      contents: [
+        {
+          role: "user",
+          parts: [{ inlineData: { mimeType: "image/png", data: "x".repeat(100_000) } }],
+        },
+      ],
+    });
+
+    expect(count).toBeLessThan(300);
+  });
+
+  test("estimate includes tool declarations", () => {
+    const withoutTools = TokenCounter.estimate({ contents: [] });
+    const withTools = TokenCounter.estimate({
+      contents: [],
+      tools: [
+        {
+          functionDeclarations: [
+            { name: "get_weather", description: "Gets the weather for a city" },
+          ],
+        },
+      ],
+    });
+
+    expect(withTools).toBeGreaterThan(withoutTools);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for the WebFetcher service.
+ */
+
+import { describe, test, expect, beforeAll } from "bun:test";
+import {
+  WebFetcher,
+  WebFetchError,
+  extractUrls,
+  toWebFetchResult,
+} from "../../src/services/web-fetcher";
+import { Logger, LogLevel } from "../../src/utils/logger";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Resolves every host to a public address. */
+const publicHost = async () => ["93.184.216.34"];
+
+function createFetch(body: Uint8Array | string, contentType: string, status = 200) {
+  const calls: string[] = [];
+  const fetchFn = (async (url: string) => {
+    calls.push(url);
+    return new Response(body, { status, headers: { "Content-Type": contentType } });
+  }) as unknown as typeof fetch;
+  return { fetchFn, calls };
+}
+
+const PAGE = `<!doctype html>
+<html>
+  <head><title>Bun &amp; Friends</title><style>body { color: red; }</style></head>
+  <body>
+    <script>console.log("hidden")</script>
+    <h1>Hello</h1>
+    <p>First&nbsp;paragraph with <a href="/x">a link</a>.</p>
+    <ul><li>one</li><li>two</li></ul>
+  </body>
+</html>`;
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("WebFetcher", () => {
+  beforeAll(() => {
+    Logger.getInstance().setLevel(LogLevel.SILENT);
+  });
+
+  test("extracts readable text and the title from HTML", async () => {
+    const { fetchFn } = createFetch(PAGE, "text/html; charset=utf-8");
+    const fetcher = new WebFetcher({ fetch: fetchFn, resolveHost: publicHost });
+
+    const page = await fetcher.fetch("https://bun.test/docs");
+
+    expect(page.title).toBe("Bun & Friends");
+    expect(page.mediaType).toBe("text/plain");
+    expect(page.data).toBe("Hello\n\nFirst paragraph with a link.\n\n- one\n\n- two");
+    expect(page.data).not.toContain("hidden");
+    expect(page.data).not.toContain("color: red");
+  });
+
+  test("passes JSON through and wraps PDFs as base64 documents", async () => {
+    const json = createFetch('{"ok":true}', "application/json");
+    const jsonPage = await new WebFetcher({ fetch: json.fetchFn, resolveHost: publicHost }).fetch("https://api.test/a.json");
+    expect(jsonPage.data).toBe('{"ok":true}');
+
+    const pdfBytes = new TextEncoder().encode("%PDF-1.4 body");
+    const pdf = createFetch(pdfBytes, "application/pdf");
+    const pdfPage = await new WebFetcher({ fetch: pdf.fetchFn, resolveHost: publicHost }).fetch("https://docs.test/a.pdf");
+
+    expect(toWebFetchResult(pdfPage).content.source).toEqual({
+      type: "base64",
+      media_type: "application/pdf",
+      data: Buffer.from(pdfBytes).toString("base64"),
+    });
+  });
+
+  test("caches pages by URL until the TTL expires", async () => {
+    const { fetchFn, calls } = createFetch("hello", "text/plain");
+    const fetcher = new WebFetcher({ fetch: fetchFn, resolveHost: publicHost });
+
+    await fetcher.fetch("https://a.test/x");
+    await fetcher.fetch("https://a.test/x");
+    expect(calls).toHaveLength(1);
+
+    const expiring = new WebFetcher({ fetch: fetchFn, resolveHost: publicHost, cacheTtlMs: -1 });
+    await expiring.fetch("https://a.test/y");
+    await expiring.fetch("https://a.test/y");
+    expect(calls).toHaveLength(3);
+  });
+
+  test("reports failures with web_fetch error codes", async () => {
+    const notFound = new WebFetcher({
+      fetch: createFetch("nope", "text/plain", 404).fetchFn,
+      resolveHost: publicHost,
+    });
+    const binary = new WebFetcher({
+      fetch: createFetch(new Uint8Array([1, 2, 3]), "application/octet-stream").fetchFn,
+      resolveHost: publicHost,
+    });
+    const small = new WebFetcher({
+      fetch: createFetch("0123456789", "text/plain").fetchFn,
+      resolveHost: publicHost,
+      maxBytes: 4,
+    });
+
+    const codeOf = (promise: Promise<unknown>) =>
+      promise.then(
+        () => null,
+        (error) => (error instanceof WebFetchError ? error.errorCode : "other")
+      );
+
+    expect(await codeOf(notFound.fetch("https://a.test/missing"))).toBe("url_not_accessible");
+    expect(await codeOf(binary.fetch("https://a.test/file.bin"))).toBe("unsupported_content_type");
+    expect(await codeOf(small.fetch("https://a.test/big"))).toBe("url_not_accessible");
+    expect(await codeOf(notFound.fetch(`https://a.test/${"x".repeat(300)}`))).toBe("url_too_long");
+  });
+
+  test("refuses private targets, also after a redirect", async () => {
+    const { fetchFn, calls } = createFetch("secret", "text/plain");
+    const fetcher = new WebFetcher({
+      fetch: fetchFn,
+      resolveHost: async (host) => (host === "intranet.test" ? ["10.0.0.5"] : ["93.184.216.34"]),
+    });
+
+    for (const url of ["http://127.0.0.1:8082/health", "http://intranet.test/admin"]) {
+      await expect(fetcher.fetch(url)).rejects.toThrow("not a public address");
+    }
+    expect(calls).toHaveLength(0);
+
+    const redirecting = (async (url: string) => {
+      calls.push(url);
+      return new Response(null, {
+        status: 302,
+        headers: { Location: "http://169.254.169.254/latest/meta-data" },
+      });
+    }) as unknown as typeof fetch;
+    const redirected = new WebFetcher({ fetch: redirecting, resolveHost: publicHost });
+    const error = await redirected.fetch("https://a.test/x").catch((e) => e);
+
+    expect(error).toBeInstanceOf(WebFetchError);
+    expect(error.errorCode).toBe("url_not_accessible");
+    expect(error.message).toContain("169.254.169.254 is not a public address");
+    expect(calls).toEqual(["https://a.test/x"]);
+  });
+
+  test("checks allowUrl on every redirect hop, also for cached pages", async () => {
+    const calls: string[] = [];
+    const redirecting = (async (url: string) => {
+      calls.push(url);
+      return url === "https://allowed.test/go"
+        ? new Response(null, { status: 302, headers: { Location: "https://blocked.test/page" } })
+        : new Response("page", { headers: { "Content-Type": "text/plain" } });
+    }) as unknown as typeof fetch;
+    const fetcher = new WebFetcher({ fetch: redirecting, resolveHost: publicHost });
+    const allowUrl = (url: string) => !url.startsWith("https://blocked.test/");
+
+    const error = await fetcher.fetch("https://allowed.test/go", allowUrl).catch((e) => e);
+    expect(error).toBeInstanceOf(WebFetchError);
+    expect(error.errorCode).toBe("url_not_allowed");
+    expect(calls).toEqual(["https://allowed.test/go"]);
+
+    // Cached without restrictions, then refused for a request that blocks the hop
+    expect((await fetcher.fetch("https://allowed.test/go")).data).toBe("page");
+    const cached = await fetcher.fetch("https://allowed.test/go", allowUrl).catch((e) => e);
+    expect(cached.errorCode).toBe("url_not_allowed");
+    expect(calls).toHaveLength(3);
+  });
+
+  test("extracts URLs from text without trailing punctuation", () => {
+    expect(
+      extractUrls(
+        "Read https://a.test/docs, then (see https://b.test/wiki/Foo_(bar)) and https://a.test/docs."
+      )
+    ).toEqual(["https://a.test/docs", "https://b.test/wiki/Foo_(bar)"]);
+  });
+});
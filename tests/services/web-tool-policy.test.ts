@@ -0,0 +1,78 @@
+/**
+ * Tests for the WebToolPolicy service.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { WebToolPolicy } from "../../src/services/web-tool-policy";
+
+describe("WebToolPolicy", () => {
+  test("allows everything without restrictions", () => {
+    const policy = WebToolPolicy.unrestricted();
+
+    expect(policy.isUrlAllowed("web_fetch", "https://anything.test/x")).toBe(true);
+    expect(policy.tryUse("web_search")).toBe(true);
+  });
+
+  test("matches allowed domains, subdomains and path prefixes", () => {
+    const policy = WebToolPolicy.fromServerTools([
+      {
+        type: "web_fetch_20250910",
+        name: "web_fetch",
+        allowed_domains: ["example.com", "docs.bun.sh/api"],
+      },
+    ]);
+
+    expect(policy.isUrlAllowed("web_fetch", "https://example.com/a")).toBe(true);
+    expect(policy.isUrlAllowed("web_fetch", "https://www.example.com/a")).toBe(true);
+    expect(policy.isUrlAllowed("web_fetch", "https://notexample.com/a")).toBe(false);
+    expect(policy.isUrlAllowed("web_fetch", "https://docs.bun.sh/api/file")).toBe(true);
+    expect(policy.isUrlAllowed("web_fetch", "https://docs.bun.sh/guides")).toBe(false);
+    // Restrictions are per tool
+    expect(policy.isUrlAllowed("web_search", "https://notexample.com/a")).toBe(true);
+  });
+
+  test("rejects blocked domains", () => {
+    const policy = WebToolPolicy.fromServerTools([
+      { type: "web_search_20250305", name: "web_search", blocked_domains: ["spam.test"] },
+    ]);
+
+    expect(policy.isDomainAllowed("web_search", "cdn.spam.test")).toBe(false);
+    expect(policy.isDomainAllowed("web_search", "ok.test")).toBe(true);
+  });
+
+  test("caps uses at max_uses", () => {
+    const policy = WebToolPolicy.fromServerTools([
+      { type: "web_search_20250305", name: "web_search", max_uses: 2 },
+    ]);
+
+    expect(policy.tryUse("web_search")).toBe(true);
+    expect(policy.tryUse("web_search")).toBe(true);
+    expect(policy.tryUse("web_search")).toBe(false);
+    expect(policy.usageOf("web_search")).toBe(2);
+  });
+
+  test("rejects conflicting or malformed settings", () => {
+    expect(() =>
+      WebToolPolicy.fromServerTools([
+        {
+          type: "web_search_20250305",
+          name: "web_search",
+          allowed_domains: ["a.test"],
+          blocked_domains: ["b.test"],
+        },
+      ])
+    ).toThrow("cannot be used together");
+
+    expect(() =>
+      WebToolPolicy.fromServerTools([
+        { type: "web_search_20250305", name: "web_search", max_uses: 0 },
+      ])
+    ).toThrow("max_uses");
+
+    expect(() =>
+      WebToolPolicy.fromServerTools([
+        { type: "web_fetch_20250910", name: "web_fetch", allowed_domains: ["https://a.test"] },
+      ])
+    ).toThrow("omit the scheme");
+  });
+});